@@ -0,0 +1,274 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import { FHE, euint32, ebool } from "@fhevm/solidity/lib/FHE.sol";
+import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
+import { CareerRoles } from "./CareerRoles.sol";
+
+/// @notice Encrypted HR aggregates fed by CareerGrowthSim. Only totals per cohort live here, and an HR
+///         admin can be granted decryption of a snapshot once the cohort is large enough. Each employee
+///         counts once, through the latest IDP they submitted, in the organisation and in that IDP's cohort.
+contract CareerAnalytics is SepoliaConfig {
+    struct Cohort {
+        string name;
+        bool exists;
+    }
+    
+    // Encrypted running totals over the counted IDPs' latest revisions and latest simulations
+    struct Aggregates {
+        euint32 totalLearningHours;
+        euint32 totalProjectImpact;
+        euint32 goalsExceeded;
+        uint32 memberCount;               // Distinct employees
+    }
+    
+    // What one IDP adds to the aggregates it is counted in
+    struct Contribution {
+        address owner;
+        uint256 cohortId;
+        euint32 learningHours;
+        euint32 projectImpact;
+        euint32 goalExceeded;             // 0 or 1
+    }
+    
+    // Totals as of one access request; only the requester can decrypt them, through the relayer
+    struct AggregateSnapshot {
+        euint32 totalLearningHours;
+        euint32 totalProjectImpact;
+        euint32 goalsExceeded;
+        uint32 memberCount;
+        address requester;
+        uint256 timestamp;
+    }
+    
+    // Aggregate key covering every IDP regardless of cohort
+    uint256 public constant ORGANISATION = 0;
+    
+    CareerRoles public immutable roles;
+    // The only contract allowed to feed encrypted contributions
+    address public simulator;
+    
+    uint256 public cohortCount;
+    mapping(uint256 => Cohort) public cohorts;
+    
+    // Aggregates over fewer members than this could single out individual employees
+    uint32 public minCohortSize = 5;
+    mapping(uint256 => Aggregates) private aggregates;
+    mapping(uint256 => AggregateSnapshot) public aggregateSnapshots;
+    mapping(uint256 => Contribution) private contributions;
+    // IDP counted for each employee; a newer IDP replaces the older one, moving them to its cohort
+    mapping(address => uint256) private countedIDPs;
+    // Distinct employees who joined or changed their contribution since the last snapshot.
+    // Two snapshots apart by fewer than minCohortSize of them could be subtracted to single one out.
+    mapping(uint256 => uint32) public changedMembers;
+    // Snapshots taken per aggregate key, and the count plus one at each employee's last counted change
+    mapping(uint256 => uint256) private snapshotCounts;
+    mapping(uint256 => mapping(address => uint256)) private changeMarkers;
+    
+    event CohortRegistered(uint256 indexed cohortId, string name);
+    event MinCohortSizeUpdated(uint32 minCohortSize);
+    event AggregateAccessGranted(uint256 indexed cohortId, address indexed requester, uint32 memberCount);
+    
+    modifier onlyHRAdmin() {
+        require(roles.hasRole(CareerRoles.Role.HRAdmin, msg.sender), "Not HR admin");
+        _;
+    }
+    
+    modifier onlySimulator() {
+        require(msg.sender == simulator, "Not simulator");
+        _;
+    }
+    
+    constructor(CareerRoles rolesContract) {
+        roles = rolesContract;
+    }
+    
+    /// @notice Wires the simulator once, after it has been deployed against this contract.
+    function setSimulator(address simulatorAddress) public onlyHRAdmin {
+        require(simulator == address(0), "Simulator already set");
+        require(simulatorAddress != address(0), "Invalid simulator");
+        simulator = simulatorAddress;
+    }
+    
+    function registerCohort(string calldata name) public onlyHRAdmin returns (uint256 cohortId) {
+        require(bytes(name).length > 0, "Empty cohort name");
+        
+        cohortCount += 1;
+        cohortId = cohortCount;
+        cohorts[cohortId] = Cohort({ name: name, exists: true });
+        
+        emit CohortRegistered(cohortId, name);
+    }
+    
+    function setMinCohortSize(uint32 size) public onlyHRAdmin {
+        require(size > 0, "Invalid cohort size");
+        minCohortSize = size;
+        
+        emit MinCohortSizeUpdated(size);
+    }
+    
+    function addMember(uint256 idpId, address owner, uint256 cohortId) external onlySimulator {
+        require(cohortId == ORGANISATION || cohorts[cohortId].exists, "Unknown cohort");
+        
+        contributions[idpId].owner = owner;
+        contributions[idpId].cohortId = cohortId;
+        uint256 previousId = countedIDPs[owner];
+        countedIDPs[owner] = idpId;
+        if (previousId == 0) {
+            aggregates[ORGANISATION].memberCount += 1;
+        } else {
+            Contribution storage previous = contributions[previousId];
+            _withdraw(ORGANISATION, previous);
+            if (previous.cohortId != ORGANISATION) {
+                _withdraw(previous.cohortId, previous);
+                aggregates[previous.cohortId].memberCount -= 1;
+            }
+        }
+        _markChanged(ORGANISATION, owner);
+        if (cohortId != ORGANISATION) {
+            aggregates[cohortId].memberCount += 1;
+            _markChanged(cohortId, owner);
+        }
+    }
+    
+    /// @dev The simulator grants transient access to both handles.
+    function recordRevision(uint256 idpId, euint32 learningHours, euint32 projectImpact) external onlySimulator {
+        Contribution storage contribution = contributions[idpId];
+        _replaceContribution(idpId, learningHours, projectImpact, contribution.goalExceeded);
+    }
+    
+    function recordGoalExceeded(uint256 idpId, ebool exceeded) external onlySimulator {
+        Contribution storage contribution = contributions[idpId];
+        euint32 flag = FHE.select(exceeded, FHE.asEuint32(1), FHE.asEuint32(0));
+        _replaceContribution(idpId, contribution.learningHours, contribution.projectImpact, flag);
+    }
+    
+    // Takes whatever a replaced IDP contributed out of the totals under the key
+    function _withdraw(uint256 key, Contribution storage previous) private {
+        Aggregates storage agg = aggregates[key];
+        euint32 none;
+        agg.totalLearningHours = _swap(agg.totalLearningHours, previous.learningHours, none);
+        agg.totalProjectImpact = _swap(agg.totalProjectImpact, previous.projectImpact, none);
+        agg.goalsExceeded = _swap(agg.goalsExceeded, previous.goalExceeded, none);
+        _markChanged(key, previous.owner);
+    }
+    
+    function _markChanged(uint256 key, address owner) private {
+        uint256 marker = snapshotCounts[key] + 1;
+        if (changeMarkers[key][owner] != marker) {
+            changeMarkers[key][owner] = marker;
+            changedMembers[key] += 1;
+        }
+    }
+    
+    function _replaceContribution(
+        uint256 idpId,
+        euint32 learningHours,
+        euint32 projectImpact,
+        euint32 goalExceeded
+    ) private {
+        Contribution storage contribution = contributions[idpId];
+        // A replaced IDP no longer counts anywhere
+        if (countedIDPs[contribution.owner] == idpId) {
+            _replaceIn(ORGANISATION, contribution, learningHours, projectImpact, goalExceeded);
+            if (contribution.cohortId != ORGANISATION) {
+                _replaceIn(contribution.cohortId, contribution, learningHours, projectImpact, goalExceeded);
+            }
+        }
+        
+        contribution.learningHours = learningHours;
+        contribution.projectImpact = projectImpact;
+        contribution.goalExceeded = goalExceeded;
+        FHE.allowThis(learningHours);
+        FHE.allowThis(projectImpact);
+        if (FHE.isInitialized(goalExceeded)) {
+            FHE.allowThis(goalExceeded);
+        }
+    }
+    
+    function _replaceIn(
+        uint256 key,
+        Contribution storage contribution,
+        euint32 learningHours,
+        euint32 projectImpact,
+        euint32 goalExceeded
+    ) private {
+        _markChanged(key, contribution.owner);
+        Aggregates storage agg = aggregates[key];
+        agg.totalLearningHours = _swap(agg.totalLearningHours, contribution.learningHours, learningHours);
+        agg.totalProjectImpact = _swap(agg.totalProjectImpact, contribution.projectImpact, projectImpact);
+        agg.goalsExceeded = _swap(agg.goalsExceeded, contribution.goalExceeded, goalExceeded);
+    }
+    
+    /// @dev Arithmetic wraps modulo 2^32, so adding the new value and subtracting the old one is exact.
+    ///      An uninitialized handle stands for nothing contributed.
+    function _swap(euint32 total, euint32 previous, euint32 next) private returns (euint32) {
+        if (euint32.unwrap(previous) == euint32.unwrap(next)) {
+            return total;
+        }
+        if (FHE.isInitialized(next)) {
+            total = FHE.add(total, next);
+        }
+        if (FHE.isInitialized(previous)) {
+            total = FHE.sub(total, previous);
+        }
+        FHE.allowThis(total);
+        return total;
+    }
+    
+    /// @notice Snapshots a cohort's totals (ORGANISATION for everyone) and lets the calling HR admin decrypt
+    ///         them; nothing is published on-chain. Refused below minCohortSize members, and after the first
+    ///         snapshot until at least minCohortSize members have changed since.
+    ///         The organisation's totals are also refused while fewer than minCohortSize members sit
+    ///         outside the cohorts large enough to decrypt, since subtracting those would single them out.
+    function requestAggregateAccess(uint256 cohortId) public onlyHRAdmin {
+        require(cohortId == ORGANISATION || cohorts[cohortId].exists, "Unknown cohort");
+        Aggregates storage agg = aggregates[cohortId];
+        uint32 memberCount = agg.memberCount;
+        require(memberCount >= minCohortSize, "Cohort too small");
+        require(
+            aggregateSnapshots[cohortId].timestamp == 0 || changedMembers[cohortId] >= minCohortSize,
+            "Too few changes since snapshot"
+        );
+        if (cohortId == ORGANISATION) {
+            uint32 outside = _membersOutsideCohorts();
+            require(outside == 0 || outside >= minCohortSize, "Too few members outside cohorts");
+        }
+        // No ciphertext exists until a member runs a simulation, and an empty handle cannot be decrypted
+        if (!FHE.isInitialized(agg.goalsExceeded)) {
+            agg.goalsExceeded = FHE.asEuint32(0);
+            FHE.allowThis(agg.goalsExceeded);
+        }
+        
+        FHE.allow(agg.totalLearningHours, msg.sender);
+        FHE.allow(agg.totalProjectImpact, msg.sender);
+        FHE.allow(agg.goalsExceeded, msg.sender);
+        aggregateSnapshots[cohortId] = AggregateSnapshot({
+            totalLearningHours: agg.totalLearningHours,
+            totalProjectImpact: agg.totalProjectImpact,
+            goalsExceeded: agg.goalsExceeded,
+            memberCount: memberCount,
+            requester: msg.sender,
+            timestamp: block.timestamp
+        });
+        snapshotCounts[cohortId] += 1;
+        changedMembers[cohortId] = 0;
+        
+        emit AggregateAccessGranted(cohortId, msg.sender, memberCount);
+    }
+    
+    // Organisation members not covered by a cohort that could be decrypted on its own
+    function _membersOutsideCohorts() private view returns (uint32 outside) {
+        outside = aggregates[ORGANISATION].memberCount;
+        for (uint256 cohortId = 1; cohortId <= cohortCount; cohortId++) {
+            uint32 memberCount = aggregates[cohortId].memberCount;
+            if (memberCount >= minCohortSize) {
+                outside -= memberCount;
+            }
+        }
+    }
+    
+    function getAggregateMemberCount(uint256 cohortId) public view returns (uint32) {
+        return aggregates[cohortId].memberCount;
+    }
+}
@@ -1,222 +1,973 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.24;
 
-import { FHE, euint32, ebool } from "@fhevm/solidity/lib/FHE.sol";
+import { FHE, euint32, externalEuint32, ebool } from "@fhevm/solidity/lib/FHE.sol";
 import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
+import { CareerAnalytics } from "./CareerAnalytics.sol";
+import { CareerLadder } from "./CareerLadder.sol";
+import { CareerRoles } from "./CareerRoles.sol";
 
 contract CareerGrowthSim is SepoliaConfig {
+    // Draft -> Active -> Completed; any state can be archived, completed and archived IDPs can be reactivated
+    enum IDPStatus { Draft, Active, Completed, Archived }
+    // Revision field a milestone target is compared with
+    enum MilestoneMetric { SkillLevel, LearningHours, ProjectImpact }
+    
     struct EncryptedIDP {
         uint256 id;
-        euint32 encryptedSkillLevel;      // Current skill level
+        address owner;
+        uint256 cohortId;                 // Department or team, 0 if untagged
+        uint32 latestRevision;
+        uint256 timestamp;
+        IDPStatus status;
+    }
+    
+    struct IDPRevision {
+        euint32 encryptedSkillLevel;      // Weighted mean of the skill vector when the revision was made
         euint32 encryptedLearningHours;   // Planned learning hours
         euint32 encryptedProjectImpact;    // Project impact score
         euint32 encryptedCareerGoal;       // Career goal level
         uint256 timestamp;
     }
     
-    struct DecryptedIDP {
-        uint32 skillLevel;
-        uint32 learningHours;
-        uint32 projectImpact;
-        uint32 careerGoal;
-        bool isRevealed;
-    }
-
     struct SimulationResult {
         euint32 encryptedGrowthScore;
-        uint32 decryptedGrowthScore;
         bool isCalculated;
+        uint256 modelId;
+        uint32 modelVersion;
+        uint32 revision;
+        bool managerRated;                // Project impact came from the manager's shared rating
     }
-
+    
+    // A manager's rating of one revision's project impact; the employee can only read it once shared
+    struct ImpactRating {
+        euint32 encryptedRating;
+        address manager;
+        uint256 timestamp;
+        bool shared;
+    }
+    
+    // Whether the latest simulated growth score beats the goal of the revision it scored
+    struct GoalComparison {
+        ebool encryptedGoalExceeded;
+        uint32 revision;
+    }
+    
+    struct Scenario {
+        string label;                     // e.g. "Leadership", "Technical depth"
+        euint32 skillLevelDelta;
+        euint32 learningHoursDelta;
+        euint32 projectImpactDelta;
+        uint256 timestamp;
+    }
+    
+    // Met once the metric in the latest revision reaches the target
+    struct Milestone {
+        string label;                     // e.g. "Cloud certification", "Promotion readiness"
+        MilestoneMetric metric;
+        euint32 encryptedTarget;
+        uint256 dueDate;                  // Plaintext so reminders need no decryption
+        ebool encryptedMet;
+        uint32 evaluatedRevision;
+        bool ratingApplied;               // A project impact target was checked against the shared rating
+    }
+    
+    struct Trajectory {
+        euint32[] encryptedPeriodScores;
+        euint32 encryptedGoalPeriod;      // First period reaching the goal, 0 if never
+        uint256 modelId;
+        uint32 modelVersion;
+        uint32 revision;
+        bool isCalculated;
+    }
+    
+    struct ModelWeights {
+        uint32 skillWeight;
+        uint32 learningHoursWeight;
+        uint32 projectImpactWeight;
+        uint32 divisor;
+    }
+    
+    struct GrowthModel {
+        string name;
+        uint32 version;
+        bool exists;
+    }
+    
+    // Entry in the governed skill taxonomy, e.g. "System design"
+    struct Skill {
+        string name;
+        uint32 weight;                    // Relative weight in an IDP's overall skill level
+    }
+    
+    uint8 public constant MAX_TRAJECTORY_PERIODS = 8;
+    // Planned learning hours converted into skill level gained per period
+    uint32 public constant HOURS_PER_SKILL_POINT = 10;
+    // Bounds the FHE operations spent on the weighted skill level of every revision
+    uint8 public constant MAX_IDP_SKILLS = 12;
+    // Bounds the ACL grants every write makes for delegated readers
+    uint8 public constant MAX_VIEWERS = 5;
+    
+    CareerAnalytics public immutable analytics;
+    CareerLadder public immutable ladder;
+    // Shared with the analytics contract, so one set of grants covers both
+    CareerRoles public immutable roles;
+    
     uint256 public idpCount;
     mapping(uint256 => EncryptedIDP) public encryptedIDPs;
-    mapping(uint256 => DecryptedIDP) public decryptedIDPs;
-    mapping(uint256 => SimulationResult) public simulationResults;
+    // Append-only registry of IDP ids per owner; ids are assigned sequentially, so the global list is 1..idpCount
+    mapping(address => uint256[]) private ownerIDPs;
+    // Opt-in community listing; publishing reveals that the IDP exists, never its encrypted values
+    uint256[] private publishedIDPs;
+    // Position in publishedIDPs plus one, 0 when not published
+    mapping(uint256 => uint256) private publishedIndex;
+    // Append-only encrypted history per IDP, revisions numbered from 1
+    mapping(uint256 => mapping(uint32 => IDPRevision)) public idpRevisions;
+    mapping(uint256 => mapping(uint32 => ImpactRating)) public impactRatings;
+    // One result per simulated revision, so earlier scores are never overwritten
+    mapping(uint256 => mapping(uint32 => SimulationResult)) public simulationResults;
+    // Revision of the most recent simulation, 0 before the first
+    mapping(uint256 => uint32) public latestSimulatedRevision;
+    mapping(uint256 => GoalComparison) public goalComparisons;
     
-    mapping(uint256 => uint256) private requestToIdpId;
+    // What-if scenarios per IDP, numbered from 1
+    mapping(uint256 => uint256) public scenarioCount;
+    mapping(uint256 => mapping(uint256 => Scenario)) public scenarios;
+    mapping(uint256 => mapping(uint256 => SimulationResult)) public scenarioResults;
+    
+    mapping(uint256 => Trajectory) private trajectories;
+    
+    // Milestones per IDP, numbered from 1
+    mapping(uint256 => uint256) public milestoneCount;
+    mapping(uint256 => mapping(uint256 => Milestone)) public milestones;
+    
+    uint256 public modelCount;
+    mapping(uint256 => GrowthModel) public growthModels;
+    // Every version's weights are kept so past results stay explainable
+    mapping(uint256 => mapping(uint32 => ModelWeights)) public modelWeights;
+    
+    // Skill taxonomy, ids from 1
+    uint256 public skillCount;
+    mapping(uint256 => Skill) public skills;
+    // Current encrypted level per IDP and skill; revisions snapshot their weighted mean
+    mapping(uint256 => mapping(uint256 => euint32)) public skillLevels;
+    mapping(uint256 => uint256[]) private idpSkillIds;
+    
+    // Delegated readers (managers, mentors) per IDP
+    mapping(uint256 => mapping(address => bool)) public idpViewers;
+    mapping(uint256 => address[]) private viewerLists;
     
     event IDPSubmitted(uint256 indexed id, uint256 timestamp);
-    event DecryptionRequested(uint256 indexed id);
-    event IDPDecrypted(uint256 indexed id);
+    event IDPUpdated(uint256 indexed id, uint32 revision, uint256 timestamp);
+    event IDPStatusChanged(uint256 indexed idpId, IDPStatus previousStatus, IDPStatus status);
     event SimulationCompleted(uint256 indexed idpId, uint256 timestamp);
+    event ImpactRated(uint256 indexed idpId, uint32 revision, address indexed manager);
+    event ImpactRatingShared(uint256 indexed idpId, uint32 revision);
+    event TrajectoryProjected(uint256 indexed idpId, uint8 periods);
+    event ScenarioSimulated(uint256 indexed idpId, uint256 indexed scenarioId, string label);
+    event MilestoneAdded(uint256 indexed idpId, uint256 indexed milestoneId, string label, uint256 dueDate);
+    event MilestoneEvaluated(uint256 indexed idpId, uint256 indexed milestoneId, uint32 revision);
+    event IDPPublished(uint256 indexed idpId);
+    event IDPUnpublished(uint256 indexed idpId);
+    event ViewerGranted(uint256 indexed idpId, address indexed viewer);
+    event ViewerRevoked(uint256 indexed idpId, address indexed viewer);
+    event GrowthModelRegistered(uint256 indexed modelId, string name);
+    event GrowthModelUpdated(uint256 indexed modelId, uint32 version);
+    event SkillRegistered(uint256 indexed skillId, string name, uint32 weight);
+    event SkillWeightUpdated(uint256 indexed skillId, uint32 weight);
+    event SkillLevelsUpdated(uint256 indexed idpId, uint32 revision, uint256[] skillIds);
     
     modifier onlyOwner(uint256 idpId) {
+        require(encryptedIDPs[idpId].owner == msg.sender, "Not IDP owner");
         _;
     }
     
+    modifier notArchived(uint256 idpId) {
+        require(encryptedIDPs[idpId].status != IDPStatus.Archived, "IDP archived");
+        _;
+    }
+    
+    modifier onlyHRAdmin() {
+        require(roles.hasRole(CareerRoles.Role.HRAdmin, msg.sender), "Not HR admin");
+        _;
+    }
+    
+    modifier onlyEmployee() {
+        require(roles.hasRole(CareerRoles.Role.Employee, msg.sender), "Not employee");
+        _;
+    }
+    
+    constructor(CareerAnalytics analyticsContract, CareerLadder ladderContract) {
+        analytics = analyticsContract;
+        ladder = ladderContract;
+        roles = analyticsContract.roles();
+        // Default model: (skill * 2 + learningHours + projectImpact * 3) / 6
+        _registerGrowthModel("Balanced", ModelWeights(2, 1, 3, 6));
+        _registerSkill("General", 1);
+    }
+    
+    function registerGrowthModel(
+        string memory name,
+        ModelWeights memory weights
+    ) public onlyHRAdmin returns (uint256) {
+        return _registerGrowthModel(name, weights);
+    }
+    
+    function _registerGrowthModel(string memory name, ModelWeights memory weights) private returns (uint256 modelId) {
+        require(bytes(name).length > 0, "Empty model name");
+        require(weights.divisor > 0, "Zero divisor");
+        
+        modelCount += 1;
+        modelId = modelCount;
+        growthModels[modelId] = GrowthModel({ name: name, version: 1, exists: true });
+        modelWeights[modelId][1] = weights;
+        
+        emit GrowthModelRegistered(modelId, name);
+        emit GrowthModelUpdated(modelId, 1);
+    }
+    
+    /// @notice Publishes new weights as the next version; results keep pointing at the version they used.
+    function updateGrowthModel(uint256 modelId, ModelWeights memory weights) public onlyHRAdmin {
+        GrowthModel storage model = growthModels[modelId];
+        require(model.exists, "Unknown model");
+        require(weights.divisor > 0, "Zero divisor");
+        
+        model.version += 1;
+        modelWeights[modelId][model.version] = weights;
+        
+        emit GrowthModelUpdated(modelId, model.version);
+    }
+    
+    function registerSkill(string calldata name, uint32 weight) public onlyHRAdmin returns (uint256) {
+        return _registerSkill(name, weight);
+    }
+    
+    function _registerSkill(string memory name, uint32 weight) private returns (uint256 skillId) {
+        require(bytes(name).length > 0, "Empty skill name");
+        require(weight > 0, "Zero weight");
+        
+        skillCount += 1;
+        skillId = skillCount;
+        skills[skillId] = Skill({ name: name, weight: weight });
+        
+        emit SkillRegistered(skillId, name, weight);
+    }
+    
+    /// @notice Applies from each IDP's next revision on; existing revisions keep the level they recorded.
+    function updateSkillWeight(uint256 skillId, uint32 weight) public onlyHRAdmin {
+        require(skillId > 0 && skillId <= skillCount, "Unknown skill");
+        require(weight > 0, "Zero weight");
+        skills[skillId].weight = weight;
+        
+        emit SkillWeightUpdated(skillId, weight);
+    }
+    
+    /// @notice Starts an IDP from encrypted levels for one or more taxonomy skills; one input proof covers
+    ///         the skill levels followed by learning hours, project impact and career goal.
     function submitEncryptedIDP(
-        euint32 encryptedSkillLevel,
-        euint32 encryptedLearningHours,
-        euint32 encryptedProjectImpact,
-        euint32 encryptedCareerGoal
-    ) public {
+        uint256[] calldata skillIds,
+        externalEuint32[] calldata skillLevelInputs,
+        externalEuint32 learningHoursInput,
+        externalEuint32 projectImpactInput,
+        externalEuint32 careerGoalInput,
+        bytes calldata inputProof,
+        uint256 cohortId
+    ) public onlyEmployee {
         idpCount += 1;
         uint256 newId = idpCount;
         
         encryptedIDPs[newId] = EncryptedIDP({
             id: newId,
-            encryptedSkillLevel: encryptedSkillLevel,
-            encryptedLearningHours: encryptedLearningHours,
-            encryptedProjectImpact: encryptedProjectImpact,
-            encryptedCareerGoal: encryptedCareerGoal,
-            timestamp: block.timestamp
-        });
-        
-        decryptedIDPs[newId] = DecryptedIDP({
-            skillLevel: 0,
-            learningHours: 0,
-            projectImpact: 0,
-            careerGoal: 0,
-            isRevealed: false
+            owner: msg.sender,
+            cohortId: cohortId,
+            latestRevision: 0,
+            timestamp: block.timestamp,
+            status: IDPStatus.Draft
         });
+        ownerIDPs[msg.sender].push(newId);
+        // Counted before its first revision, so that revision replaces the owner's previous contribution
+        analytics.addMember(newId, msg.sender, cohortId);
+        _setSkillLevels(newId, skillIds, skillLevelInputs, inputProof);
+        _appendRevision(
+            newId,
+            FHE.fromExternal(learningHoursInput, inputProof),
+            FHE.fromExternal(projectImpactInput, inputProof),
+            FHE.fromExternal(careerGoalInput, inputProof)
+        );
         
         emit IDPSubmitted(newId, block.timestamp);
     }
     
-    function requestIDPDecryption(uint256 idpId) public onlyOwner(idpId) {
+    function activateIDP(uint256 idpId) public onlyOwner(idpId) {
+        require(encryptedIDPs[idpId].status == IDPStatus.Draft, "Invalid transition");
+        _setStatus(idpId, IDPStatus.Active);
+    }
+    
+    function completeIDP(uint256 idpId) public onlyOwner(idpId) {
+        require(encryptedIDPs[idpId].status == IDPStatus.Active, "Invalid transition");
+        _setStatus(idpId, IDPStatus.Completed);
+    }
+    
+    /// @notice Archived IDPs keep their history but can no longer be simulated.
+    function archiveIDP(uint256 idpId) public onlyOwner(idpId) {
+        require(encryptedIDPs[idpId].status != IDPStatus.Archived, "Invalid transition");
+        _setStatus(idpId, IDPStatus.Archived);
+    }
+    
+    /// @notice Moves a completed or archived IDP back to Active.
+    function reactivateIDP(uint256 idpId) public onlyOwner(idpId) {
+        IDPStatus status = encryptedIDPs[idpId].status;
+        require(status == IDPStatus.Completed || status == IDPStatus.Archived, "Invalid transition");
+        _setStatus(idpId, IDPStatus.Active);
+    }
+    
+    function _setStatus(uint256 idpId, IDPStatus status) private {
+        IDPStatus previousStatus = encryptedIDPs[idpId].status;
+        encryptedIDPs[idpId].status = status;
+        
+        emit IDPStatusChanged(idpId, previousStatus, status);
+    }
+    
+    function getOwnerIDPCount(address owner) public view returns (uint256) {
+        return ownerIDPs[owner].length;
+    }
+    
+    /// @notice Pages through an owner's IDP ids in submission order; an offset past the end returns an empty page.
+    function getOwnerIDPs(address owner, uint256 offset, uint256 limit) public view returns (uint256[] memory ids) {
+        uint256[] storage owned = ownerIDPs[owner];
+        ids = new uint256[](_pageSize(owned.length, offset, limit));
+        for (uint256 i = 0; i < ids.length; i++) {
+            ids[i] = owned[offset + i];
+        }
+    }
+    
+    /// @notice Pages through every IDP id in submission order.
+    function getIDPIds(uint256 offset, uint256 limit) public view returns (uint256[] memory ids) {
+        ids = new uint256[](_pageSize(idpCount, offset, limit));
+        for (uint256 i = 0; i < ids.length; i++) {
+            ids[i] = offset + i + 1;
+        }
+    }
+    
+    function publishIDP(uint256 idpId) public onlyOwner(idpId) {
+        require(publishedIndex[idpId] == 0, "Already published");
+        publishedIDPs.push(idpId);
+        publishedIndex[idpId] = publishedIDPs.length;
+        
+        emit IDPPublished(idpId);
+    }
+    
+    function unpublishIDP(uint256 idpId) public onlyOwner(idpId) {
+        uint256 index = publishedIndex[idpId];
+        require(index != 0, "Not published");
+        
+        uint256 lastId = publishedIDPs[publishedIDPs.length - 1];
+        publishedIDPs[index - 1] = lastId;
+        publishedIndex[lastId] = index;
+        publishedIDPs.pop();
+        delete publishedIndex[idpId];
+        
+        emit IDPUnpublished(idpId);
+    }
+    
+    function isPublished(uint256 idpId) public view returns (bool) {
+        return publishedIndex[idpId] != 0;
+    }
+    
+    function getPublishedIDPCount() public view returns (uint256) {
+        return publishedIDPs.length;
+    }
+    
+    /// @notice Pages through published IDP ids; unpublishing moves the last entry into the freed slot.
+    function getPublishedIDPs(uint256 offset, uint256 limit) public view returns (uint256[] memory ids) {
+        ids = new uint256[](_pageSize(publishedIDPs.length, offset, limit));
+        for (uint256 i = 0; i < ids.length; i++) {
+            ids[i] = publishedIDPs[offset + i];
+        }
+    }
+    
+    function _pageSize(uint256 total, uint256 offset, uint256 limit) private pure returns (uint256) {
+        if (offset >= total) {
+            return 0;
+        }
+        uint256 remaining = total - offset;
+        return remaining < limit ? remaining : limit;
+    }
+    
+    /// @notice Appends a new encrypted revision; earlier revisions and their results stay untouched.
+    function updateEncryptedIDP(
+        uint256 idpId,
+        externalEuint32 learningHoursInput,
+        externalEuint32 projectImpactInput,
+        externalEuint32 careerGoalInput,
+        bytes calldata inputProof
+    ) public onlyOwner(idpId) returns (uint32 revision) {
+        revision = _appendRevision(
+            idpId,
+            FHE.fromExternal(learningHoursInput, inputProof),
+            FHE.fromExternal(projectImpactInput, inputProof),
+            FHE.fromExternal(careerGoalInput, inputProof)
+        );
+        
+        emit IDPUpdated(idpId, revision, block.timestamp);
+    }
+    
+    /// @notice Adds or updates individual skills and appends a revision carrying the other fields forward.
+    function updateSkillLevels(
+        uint256 idpId,
+        uint256[] calldata skillIds,
+        externalEuint32[] calldata skillLevelInputs,
+        bytes calldata inputProof
+    ) public onlyOwner(idpId) returns (uint32 revision) {
+        _setSkillLevels(idpId, skillIds, skillLevelInputs, inputProof);
+        IDPRevision storage latest = idpRevisions[idpId][encryptedIDPs[idpId].latestRevision];
+        revision = _appendRevision(
+            idpId,
+            latest.encryptedLearningHours,
+            latest.encryptedProjectImpact,
+            latest.encryptedCareerGoal
+        );
+        
+        emit SkillLevelsUpdated(idpId, revision, skillIds);
+        emit IDPUpdated(idpId, revision, block.timestamp);
+    }
+    
+    function getIDPSkills(uint256 idpId) public view returns (uint256[] memory) {
+        return idpSkillIds[idpId];
+    }
+    
+    function _setSkillLevels(
+        uint256 idpId,
+        uint256[] calldata skillIds,
+        externalEuint32[] calldata skillLevelInputs,
+        bytes calldata inputProof
+    ) private {
+        require(skillIds.length > 0 && skillIds.length == skillLevelInputs.length, "Invalid skill levels");
+        address owner = encryptedIDPs[idpId].owner;
+        
+        for (uint256 i = 0; i < skillIds.length; i++) {
+            uint256 skillId = skillIds[i];
+            require(skillId > 0 && skillId <= skillCount, "Unknown skill");
+            if (!FHE.isInitialized(skillLevels[idpId][skillId])) {
+                require(idpSkillIds[idpId].length < MAX_IDP_SKILLS, "Too many skills");
+                idpSkillIds[idpId].push(skillId);
+            }
+            
+            euint32 level = FHE.fromExternal(skillLevelInputs[i], inputProof);
+            FHE.allowThis(level);
+            FHE.allow(level, owner);
+            _shareWithViewers(idpId, level);
+            skillLevels[idpId][skillId] = level;
+        }
+    }
+    
+    /// @dev sum(level * weight) / sum(weight) over the skills the IDP holds, with the current weights.
+    function _weightedSkillLevel(uint256 idpId) private returns (euint32) {
+        uint256[] storage skillIds = idpSkillIds[idpId];
+        uint32 totalWeight = skills[skillIds[0]].weight;
+        euint32 weighted = FHE.mul(skillLevels[idpId][skillIds[0]], totalWeight);
+        for (uint256 i = 1; i < skillIds.length; i++) {
+            uint32 weight = skills[skillIds[i]].weight;
+            weighted = FHE.add(weighted, FHE.mul(skillLevels[idpId][skillIds[i]], weight));
+            totalWeight += weight;
+        }
+        return FHE.div(weighted, totalWeight);
+    }
+    
+    function _appendRevision(
+        uint256 idpId,
+        euint32 learningHours,
+        euint32 projectImpact,
+        euint32 careerGoal
+    ) private returns (uint32 revision) {
         EncryptedIDP storage idp = encryptedIDPs[idpId];
-        require(!decryptedIDPs[idpId].isRevealed, "Already decrypted");
+        idp.latestRevision += 1;
+        revision = idp.latestRevision;
         
-        bytes32[] memory ciphertexts = new bytes32[](4);
-        ciphertexts[0] = FHE.toBytes32(idp.encryptedSkillLevel);
-        ciphertexts[1] = FHE.toBytes32(idp.encryptedLearningHours);
-        ciphertexts[2] = FHE.toBytes32(idp.encryptedProjectImpact);
-        ciphertexts[3] = FHE.toBytes32(idp.encryptedCareerGoal);
+        IDPRevision storage rev = idpRevisions[idpId][revision];
+        rev.encryptedSkillLevel = _weightedSkillLevel(idpId);
+        rev.encryptedLearningHours = learningHours;
+        rev.encryptedProjectImpact = projectImpact;
+        rev.encryptedCareerGoal = careerGoal;
+        rev.timestamp = block.timestamp;
         
-        uint256 reqId = FHE.requestDecryption(ciphertexts, this.decryptIDP.selector);
-        requestToIdpId[reqId] = idpId;
+        // Contract needs access for simulations, owner and viewers for user decryption
+        FHE.allowThis(rev.encryptedSkillLevel);
+        FHE.allowThis(rev.encryptedLearningHours);
+        FHE.allowThis(rev.encryptedProjectImpact);
+        FHE.allowThis(rev.encryptedCareerGoal);
+        FHE.allow(rev.encryptedSkillLevel, idp.owner);
+        FHE.allow(rev.encryptedLearningHours, idp.owner);
+        FHE.allow(rev.encryptedProjectImpact, idp.owner);
+        FHE.allow(rev.encryptedCareerGoal, idp.owner);
+        _shareWithViewers(idpId, rev.encryptedSkillLevel);
+        _shareWithViewers(idpId, rev.encryptedLearningHours);
+        _shareWithViewers(idpId, rev.encryptedProjectImpact);
+        _shareWithViewers(idpId, rev.encryptedCareerGoal);
         
-        emit DecryptionRequested(idpId);
+        // Analytics swaps the previous revision's contribution for this one
+        if (revision > 1) {
+            IDPRevision storage previous = idpRevisions[idpId][revision - 1];
+            // Skill-only revisions carry both handles forward, so there is nothing to swap
+            if (
+                euint32.unwrap(learningHours) == euint32.unwrap(previous.encryptedLearningHours) &&
+                euint32.unwrap(projectImpact) == euint32.unwrap(previous.encryptedProjectImpact)
+            ) {
+                return revision;
+            }
+        }
+        FHE.allowTransient(learningHours, address(analytics));
+        FHE.allowTransient(projectImpact, address(analytics));
+        analytics.recordRevision(idpId, learningHours, projectImpact);
     }
     
-    function decryptIDP(
-        uint256 requestId,
-        bytes memory cleartexts,
-        bytes memory proof
+    function _getRevision(uint256 idpId, uint32 revision) private view returns (IDPRevision storage) {
+        require(revision > 0 && revision <= encryptedIDPs[idpId].latestRevision, "Unknown revision");
+        return idpRevisions[idpId][revision];
+    }
+    
+    /// @notice Records the employee's manager's rating of a revision's project impact. Until it is shared,
+    ///         nothing the employee can decrypt is derived from it: with public weights and their own inputs,
+    ///         any such result would let them solve for the rating.
+    function rateProjectImpact(
+        uint256 idpId,
+        uint32 revision,
+        externalEuint32 ratingInput,
+        bytes calldata inputProof
     ) public {
-        uint256 idpId = requestToIdpId[requestId];
-        require(idpId != 0, "Invalid request");
+        require(roles.isManagerOf(msg.sender, encryptedIDPs[idpId].owner), "Not assigned manager");
+        _getRevision(idpId, revision);
+        
+        euint32 rating = FHE.fromExternal(ratingInput, inputProof);
+        FHE.allowThis(rating);
+        FHE.allow(rating, msg.sender);
+        impactRatings[idpId][revision] = ImpactRating({
+            encryptedRating: rating,
+            manager: msg.sender,
+            timestamp: block.timestamp,
+            shared: false
+        });
         
-        EncryptedIDP storage eIDP = encryptedIDPs[idpId];
-        DecryptedIDP storage dIDP = decryptedIDPs[idpId];
-        require(!dIDP.isRevealed, "Already decrypted");
+        emit ImpactRated(idpId, revision, msg.sender);
+    }
+    
+    /// @notice Lets the employee decrypt the rating, which from then on replaces the self-reported impact
+    ///         in simulations, trajectories, readiness checks and milestones of that revision. A later
+    ///         re-rating has to be shared again.
+    function shareImpactRating(uint256 idpId, uint32 revision) public {
+        ImpactRating storage rating = impactRatings[idpId][revision];
+        require(rating.manager == msg.sender, "Not rating manager");
+        require(!rating.shared, "Rating already shared");
+        rating.shared = true;
+        FHE.allow(rating.encryptedRating, encryptedIDPs[idpId].owner);
         
-        FHE.checkSignatures(requestId, cleartexts, proof);
+        emit ImpactRatingShared(idpId, revision);
+    }
+    
+    function _hasSharedRating(uint256 idpId, uint32 revision) private view returns (bool) {
+        return impactRatings[idpId][revision].shared;
+    }
+    
+    function _projectImpact(uint256 idpId, uint32 revision) private view returns (euint32) {
+        return _hasSharedRating(idpId, revision)
+            ? impactRatings[idpId][revision].encryptedRating
+            : idpRevisions[idpId][revision].encryptedProjectImpact;
+    }
+    
+    /// @notice Lets a manager or mentor decrypt the IDP's current state: the latest revision, skill levels,
+    ///         simulation result and trajectory. Everything produced afterwards is shared as it is written;
+    ///         older revisions only through shareRevision, and earlier scenarios and milestones not at all.
+    function grantViewer(uint256 idpId, address viewer) public onlyOwner(idpId) {
+        require(viewer != address(0) && viewer != msg.sender, "Invalid viewer");
+        require(!idpViewers[idpId][viewer], "Already a viewer");
+        require(viewerLists[idpId].length < MAX_VIEWERS, "Too many viewers");
         
-        uint32[] memory results = abi.decode(cleartexts, (uint32[]));
+        _allowRevision(idpId, encryptedIDPs[idpId].latestRevision, viewer);
+        for (uint256 i = 0; i < idpSkillIds[idpId].length; i++) {
+            FHE.allow(skillLevels[idpId][idpSkillIds[idpId][i]], viewer);
+        }
+        if (latestSimulatedRevision[idpId] != 0) {
+            FHE.allow(goalComparisons[idpId].encryptedGoalExceeded, viewer);
+        }
+        Trajectory storage trajectory = trajectories[idpId];
+        if (trajectory.isCalculated) {
+            for (uint256 i = 0; i < trajectory.encryptedPeriodScores.length; i++) {
+                FHE.allow(trajectory.encryptedPeriodScores[i], viewer);
+            }
+            FHE.allow(trajectory.encryptedGoalPeriod, viewer);
+        }
         
-        dIDP.skillLevel = results[0];
-        dIDP.learningHours = results[1];
-        dIDP.projectImpact = results[2];
-        dIDP.careerGoal = results[3];
-        dIDP.isRevealed = true;
+        idpViewers[idpId][viewer] = true;
+        viewerLists[idpId].push(viewer);
         
-        emit IDPDecrypted(idpId);
+        emit ViewerGranted(idpId, viewer);
     }
     
-    function runEncryptedSimulation(uint256 idpId) public onlyOwner(idpId) {
-        EncryptedIDP storage idp = encryptedIDPs[idpId];
-        require(!simulationResults[idpId].isCalculated, "Simulation already run");
+    /// @notice ACL grants cannot be withdrawn, so revocation only stops sharing of ciphertexts produced
+    ///         afterwards. Every earlier grant stays valid: the viewer can still decrypt those handles.
+    function revokeViewer(uint256 idpId, address viewer) public onlyOwner(idpId) {
+        require(idpViewers[idpId][viewer], "Not a viewer");
         
-        // Growth score formula: (skill * 2 + learningHours + projectImpact * 3) / 6
-        euint32 growthScore = FHE.div(
-            FHE.add(
-                FHE.add(
-                    FHE.mul(idp.encryptedSkillLevel, FHE.asEuint32(2)),
-                    idp.encryptedLearningHours
-                ),
-                FHE.mul(idp.encryptedProjectImpact, FHE.asEuint32(3))
-            ),
-            FHE.asEuint32(6)
+        idpViewers[idpId][viewer] = false;
+        address[] storage viewers = viewerLists[idpId];
+        for (uint256 i = 0; i < viewers.length; i++) {
+            if (viewers[i] == viewer) {
+                viewers[i] = viewers[viewers.length - 1];
+                viewers.pop();
+                break;
+            }
+        }
+        
+        emit ViewerRevoked(idpId, viewer);
+    }
+    
+    function getViewers(uint256 idpId) public view returns (address[] memory) {
+        return viewerLists[idpId];
+    }
+    
+    /// @notice Shares one earlier revision and its growth score with the current viewers.
+    function shareRevision(uint256 idpId, uint32 revision) public onlyOwner(idpId) {
+        _getRevision(idpId, revision);
+        address[] storage viewers = viewerLists[idpId];
+        for (uint256 i = 0; i < viewers.length; i++) {
+            _allowRevision(idpId, revision, viewers[i]);
+        }
+    }
+    
+    function _allowRevision(uint256 idpId, uint32 revision, address viewer) private {
+        IDPRevision storage rev = idpRevisions[idpId][revision];
+        FHE.allow(rev.encryptedSkillLevel, viewer);
+        FHE.allow(rev.encryptedLearningHours, viewer);
+        FHE.allow(rev.encryptedProjectImpact, viewer);
+        FHE.allow(rev.encryptedCareerGoal, viewer);
+        if (simulationResults[idpId][revision].isCalculated) {
+            FHE.allow(simulationResults[idpId][revision].encryptedGrowthScore, viewer);
+        }
+    }
+    
+    /// @notice Scores one revision once; the only re-run allowed is a revision that was scored on
+    ///         self-reported impact and has a shared manager rating since, which replaces that score.
+    function runEncryptedSimulation(
+        uint256 idpId,
+        uint256 modelId,
+        uint32 revision
+    ) public onlyOwner(idpId) notArchived(idpId) {
+        IDPRevision storage rev = _getRevision(idpId, revision);
+        SimulationResult storage previous = simulationResults[idpId][revision];
+        require(
+            !previous.isCalculated || (!previous.managerRated && _hasSharedRating(idpId, revision)),
+            "Simulation already run"
         );
+        GrowthModel storage model = growthModels[modelId];
+        require(model.exists, "Unknown model");
         
-        simulationResults[idpId] = SimulationResult({
+        euint32 growthScore = _computeGrowthScore(
+            rev.encryptedSkillLevel,
+            rev.encryptedLearningHours,
+            _projectImpact(idpId, revision),
+            modelWeights[modelId][model.version]
+        );
+        FHE.allowThis(growthScore);
+        FHE.allow(growthScore, msg.sender);
+        _shareWithViewers(idpId, growthScore);
+        
+        simulationResults[idpId][revision] = SimulationResult({
             encryptedGrowthScore: growthScore,
-            decryptedGrowthScore: 0,
-            isCalculated: true
+            isCalculated: true,
+            modelId: modelId,
+            modelVersion: model.version,
+            revision: revision,
+            managerRated: _hasSharedRating(idpId, revision)
         });
+        // Scoring an older revision must not roll the goal comparison or the analytics flag back
+        if (revision >= latestSimulatedRevision[idpId]) {
+            latestSimulatedRevision[idpId] = revision;
+            _recordGoalComparison(idpId, growthScore, rev.encryptedCareerGoal, revision);
+        }
         
         emit SimulationCompleted(idpId, block.timestamp);
     }
     
-    function requestSimulationDecryption(uint256 idpId) public onlyOwner(idpId) {
-        SimulationResult storage result = simulationResults[idpId];
-        require(result.isCalculated, "Simulation not run");
-        require(result.decryptedGrowthScore == 0, "Already decrypted");
-        
-        bytes32[] memory ciphertexts = new bytes32[](1);
-        ciphertexts[0] = FHE.toBytes32(result.encryptedGrowthScore);
+    function _recordGoalComparison(uint256 idpId, euint32 growthScore, euint32 careerGoal, uint32 revision) private {
+        ebool exceeded = FHE.gt(growthScore, careerGoal);
+        FHE.allowThis(exceeded);
+        FHE.allow(exceeded, encryptedIDPs[idpId].owner);
+        _shareWithViewers(idpId, exceeded);
+        goalComparisons[idpId] = GoalComparison({ encryptedGoalExceeded: exceeded, revision: revision });
         
-        uint256 reqId = FHE.requestDecryption(ciphertexts, this.decryptSimulation.selector);
-        requestToIdpId[reqId] = idpId;
+        FHE.allowTransient(exceeded, address(analytics));
+        analytics.recordGoalExceeded(idpId, exceeded);
     }
     
-    function decryptSimulation(
-        uint256 requestId,
-        bytes memory cleartexts,
-        bytes memory proof
-    ) public {
-        uint256 idpId = requestToIdpId[requestId];
-        require(idpId != 0, "Invalid request");
+    /// @notice Scores the IDP with encrypted deltas applied, leaving the stored IDP untouched.
+    function runScenarioSimulation(
+        uint256 idpId,
+        string calldata label,
+        externalEuint32 skillLevelDeltaInput,
+        externalEuint32 learningHoursDeltaInput,
+        externalEuint32 projectImpactDeltaInput,
+        bytes calldata inputProof,
+        uint256 modelId,
+        uint32 revision
+    ) public onlyOwner(idpId) notArchived(idpId) returns (uint256 scenarioId) {
+        IDPRevision storage rev = _getRevision(idpId, revision);
+        GrowthModel storage model = growthModels[modelId];
+        require(model.exists, "Unknown model");
+        
+        scenarioCount[idpId] += 1;
+        scenarioId = scenarioCount[idpId];
+        
+        Scenario storage scenario = scenarios[idpId][scenarioId];
+        scenario.label = label;
+        scenario.skillLevelDelta = FHE.fromExternal(skillLevelDeltaInput, inputProof);
+        scenario.learningHoursDelta = FHE.fromExternal(learningHoursDeltaInput, inputProof);
+        scenario.projectImpactDelta = FHE.fromExternal(projectImpactDeltaInput, inputProof);
+        scenario.timestamp = block.timestamp;
+        FHE.allowThis(scenario.skillLevelDelta);
+        FHE.allowThis(scenario.learningHoursDelta);
+        FHE.allowThis(scenario.projectImpactDelta);
+        FHE.allow(scenario.skillLevelDelta, msg.sender);
+        FHE.allow(scenario.learningHoursDelta, msg.sender);
+        FHE.allow(scenario.projectImpactDelta, msg.sender);
         
-        SimulationResult storage result = simulationResults[idpId];
-        require(result.decryptedGrowthScore == 0, "Already decrypted");
+        euint32 growthScore = _computeGrowthScore(
+            FHE.add(rev.encryptedSkillLevel, scenario.skillLevelDelta),
+            FHE.add(rev.encryptedLearningHours, scenario.learningHoursDelta),
+            FHE.add(_projectImpact(idpId, revision), scenario.projectImpactDelta),
+            modelWeights[modelId][model.version]
+        );
+        FHE.allowThis(growthScore);
+        FHE.allow(growthScore, msg.sender);
+        _shareWithViewers(idpId, growthScore);
         
-        FHE.checkSignatures(requestId, cleartexts, proof);
+        scenarioResults[idpId][scenarioId] = SimulationResult({
+            encryptedGrowthScore: growthScore,
+            isCalculated: true,
+            modelId: modelId,
+            modelVersion: model.version,
+            revision: revision,
+            managerRated: _hasSharedRating(idpId, revision)
+        });
         
-        uint32 score = abi.decode(cleartexts, (uint32));
-        result.decryptedGrowthScore = score;
+        emit ScenarioSimulated(idpId, scenarioId, label);
     }
     
-    function getDecryptedIDP(uint256 idpId) public view returns (
-        uint32 skillLevel,
-        uint32 learningHours,
-        uint32 projectImpact,
-        uint32 careerGoal,
-        bool isRevealed
-    ) {
-        DecryptedIDP storage idp = decryptedIDPs[idpId];
-        return (idp.skillLevel, idp.learningHours, idp.projectImpact, idp.careerGoal, idp.isRevealed);
+    /// @notice Iterates the growth model over `periods` periods, raising the skill level each period
+    ///         by the learning hours invested, and records the first period whose score reaches the goal.
+    /// @dev The model is linear in the skill level, so each period adds a constant step to the numerator.
+    ///      Accumulating that step keeps the HCU depth of the loop to one addition per period.
+    function projectTrajectory(
+        uint256 idpId,
+        uint256 modelId,
+        uint32 revision,
+        uint8 periods
+    ) public onlyOwner(idpId) notArchived(idpId) {
+        require(periods > 0 && periods <= MAX_TRAJECTORY_PERIODS, "Invalid period count");
+        GrowthModel storage model = growthModels[modelId];
+        require(model.exists, "Unknown model");
+        ModelWeights memory weights = modelWeights[modelId][model.version];
+        
+        IDPRevision storage rev = _getRevision(idpId, revision);
+        Trajectory storage trajectory = trajectories[idpId];
+        delete trajectory.encryptedPeriodScores;
+        
+        euint32 step = FHE.mul(FHE.div(rev.encryptedLearningHours, HOURS_PER_SKILL_POINT), weights.skillWeight);
+        euint32 numerator = FHE.add(
+            FHE.add(
+                FHE.mul(rev.encryptedSkillLevel, weights.skillWeight),
+                FHE.mul(rev.encryptedLearningHours, weights.learningHoursWeight)
+            ),
+            FHE.mul(_projectImpact(idpId, revision), weights.projectImpactWeight)
+        );
+        euint32 goalPeriod = FHE.asEuint32(0);
+        ebool goalReached = FHE.asEbool(false);
+        
+        for (uint8 period = 1; period <= periods; period++) {
+            numerator = FHE.add(numerator, step);
+            euint32 score = FHE.div(numerator, weights.divisor);
+            FHE.allowThis(score);
+            FHE.allow(score, msg.sender);
+            _shareWithViewers(idpId, score);
+            trajectory.encryptedPeriodScores.push(score);
+            
+            ebool reachedNow = FHE.ge(score, rev.encryptedCareerGoal);
+            goalPeriod = FHE.select(FHE.and(reachedNow, FHE.not(goalReached)), FHE.asEuint32(period), goalPeriod);
+            goalReached = FHE.or(goalReached, reachedNow);
+        }
+        
+        FHE.allowThis(goalPeriod);
+        FHE.allow(goalPeriod, msg.sender);
+        _shareWithViewers(idpId, goalPeriod);
+        
+        trajectory.encryptedGoalPeriod = goalPeriod;
+        trajectory.modelId = modelId;
+        trajectory.modelVersion = model.version;
+        trajectory.revision = revision;
+        trajectory.isCalculated = true;
+        
+        emit TrajectoryProjected(idpId, periods);
     }
     
-    function getSimulationResult(uint256 idpId) public view returns (
-        uint32 growthScore,
+    /// @notice Returns handles only; the owner and viewers decrypt them client-side.
+    function getTrajectory(uint256 idpId) public view returns (
+        euint32[] memory periodScores,
+        euint32 goalPeriod,
+        uint256 modelId,
+        uint32 modelVersion,
+        uint32 revision,
         bool isCalculated
     ) {
-        SimulationResult storage result = simulationResults[idpId];
-        return (result.decryptedGrowthScore, result.isCalculated);
+        Trajectory storage trajectory = trajectories[idpId];
+        return (
+            trajectory.encryptedPeriodScores,
+            trajectory.encryptedGoalPeriod,
+            trajectory.modelId,
+            trajectory.modelVersion,
+            trajectory.revision,
+            trajectory.isCalculated
+        );
     }
     
-    function compareWithGoal(uint256 idpId) public view returns (ebool) {
-        require(simulationResults[idpId].isCalculated, "Simulation not run");
-        EncryptedIDP storage idp = encryptedIDPs[idpId];
+    /// @notice Checks the latest revision against a career ladder role; only the owner can decrypt the outcome.
+    function checkReadiness(uint256 idpId, uint256 jobRoleId) public onlyOwner(idpId) notArchived(idpId) {
+        uint32 revision = encryptedIDPs[idpId].latestRevision;
+        IDPRevision storage rev = idpRevisions[idpId][revision];
+        euint32 projectImpact = _projectImpact(idpId, revision);
+        FHE.allowTransient(rev.encryptedSkillLevel, address(ladder));
+        FHE.allowTransient(rev.encryptedLearningHours, address(ladder));
+        FHE.allowTransient(projectImpact, address(ladder));
         
-        return FHE.gt(
-            simulationResults[idpId].encryptedGrowthScore,
-            idp.encryptedCareerGoal
+        ladder.recordReadiness(
+            idpId,
+            jobRoleId,
+            revision,
+            msg.sender,
+            idpSkillIds[idpId],
+            _shareSkillLevelsWithLadder(idpId),
+            rev.encryptedSkillLevel,
+            rev.encryptedLearningHours,
+            projectImpact
+        );
+    }
+    
+    /// @notice Computes the encrypted per-skill shortfall against a career ladder role, for the owner alone.
+    function reportSkillGap(uint256 idpId, uint256 jobRoleId) public onlyOwner(idpId) notArchived(idpId) {
+        ladder.recordSkillGap(
+            idpId,
+            jobRoleId,
+            encryptedIDPs[idpId].latestRevision,
+            msg.sender,
+            idpSkillIds[idpId],
+            _shareSkillLevelsWithLadder(idpId)
         );
     }
     
-    function requestComparisonDecryption(uint256 idpId) public onlyOwner(idpId) {
-        require(simulationResults[idpId].isCalculated, "Simulation not run");
+    function _shareSkillLevelsWithLadder(uint256 idpId) private returns (euint32[] memory levels) {
+        uint256[] storage skillIds = idpSkillIds[idpId];
+        levels = new euint32[](skillIds.length);
+        for (uint256 i = 0; i < skillIds.length; i++) {
+            levels[i] = skillLevels[idpId][skillIds[i]];
+            FHE.allowTransient(levels[i], address(ladder));
+        }
+    }
+    
+    /// @notice Adds an encrypted milestone and evaluates it against the latest revision straight away.
+    function addMilestone(
+        uint256 idpId,
+        string calldata label,
+        MilestoneMetric metric,
+        externalEuint32 targetInput,
+        bytes calldata inputProof,
+        uint256 dueDate
+    ) public onlyOwner(idpId) notArchived(idpId) returns (uint256 milestoneId) {
+        require(bytes(label).length > 0, "Empty milestone label");
+        require(dueDate > block.timestamp, "Due date passed");
         
-        bytes32[] memory ciphertexts = new bytes32[](1);
-        ciphertexts[0] = FHE.toBytes32(compareWithGoal(idpId));
+        milestoneCount[idpId] += 1;
+        milestoneId = milestoneCount[idpId];
         
-        uint256 reqId = FHE.requestDecryption(ciphertexts, this.decryptComparison.selector);
-        requestToIdpId[reqId] = idpId;
+        Milestone storage milestone = milestones[idpId][milestoneId];
+        milestone.label = label;
+        milestone.metric = metric;
+        milestone.dueDate = dueDate;
+        milestone.encryptedTarget = FHE.fromExternal(targetInput, inputProof);
+        FHE.allowThis(milestone.encryptedTarget);
+        FHE.allow(milestone.encryptedTarget, msg.sender);
+        _shareWithViewers(idpId, milestone.encryptedTarget);
+        
+        emit MilestoneAdded(idpId, milestoneId, label, dueDate);
+        _evaluateMilestone(idpId, milestoneId);
     }
     
-    function decryptComparison(
-        uint256 requestId,
-        bytes memory cleartexts,
-        bytes memory proof
-    ) public returns (bool) {
-        uint256 idpId = requestToIdpId[requestId];
-        require(idpId != 0, "Invalid request");
+    /// @notice Re-checks a milestone once newer revisions have been appended, or a project impact
+    ///         milestone once the latest revision's rating has been shared.
+    function evaluateMilestone(uint256 idpId, uint256 milestoneId) public onlyOwner(idpId) notArchived(idpId) {
+        require(milestoneId > 0 && milestoneId <= milestoneCount[idpId], "Unknown milestone");
+        Milestone storage milestone = milestones[idpId][milestoneId];
+        uint32 latestRevision = encryptedIDPs[idpId].latestRevision;
+        require(
+            milestone.evaluatedRevision != latestRevision ||
+                (milestone.metric == MilestoneMetric.ProjectImpact &&
+                    !milestone.ratingApplied &&
+                    _hasSharedRating(idpId, latestRevision)),
+            "Milestone up to date"
+        );
+        _evaluateMilestone(idpId, milestoneId);
+    }
+    
+    function _evaluateMilestone(uint256 idpId, uint256 milestoneId) private {
+        uint32 revision = encryptedIDPs[idpId].latestRevision;
+        IDPRevision storage rev = idpRevisions[idpId][revision];
+        Milestone storage milestone = milestones[idpId][milestoneId];
+        
+        euint32 value = _projectImpact(idpId, revision);
+        if (milestone.metric == MilestoneMetric.SkillLevel) {
+            value = rev.encryptedSkillLevel;
+        } else if (milestone.metric == MilestoneMetric.LearningHours) {
+            value = rev.encryptedLearningHours;
+        }
         
-        FHE.checkSignatures(requestId, cleartexts, proof);
+        ebool met = FHE.ge(value, milestone.encryptedTarget);
+        FHE.allowThis(met);
+        FHE.allow(met, encryptedIDPs[idpId].owner);
+        _shareWithViewers(idpId, met);
+        milestone.encryptedMet = met;
+        milestone.evaluatedRevision = revision;
+        milestone.ratingApplied =
+            milestone.metric == MilestoneMetric.ProjectImpact && _hasSharedRating(idpId, revision);
         
-        return abi.decode(cleartexts, (bool));
+        emit MilestoneEvaluated(idpId, milestoneId, revision);
+    }
+    
+    function _computeGrowthScore(
+        euint32 skillLevel,
+        euint32 learningHours,
+        euint32 projectImpact,
+        ModelWeights memory weights
+    ) private returns (euint32) {
+        return FHE.div(
+            FHE.add(
+                FHE.add(
+                    FHE.mul(skillLevel, weights.skillWeight),
+                    FHE.mul(learningHours, weights.learningHoursWeight)
+                ),
+                FHE.mul(projectImpact, weights.projectImpactWeight)
+            ),
+            weights.divisor
+        );
+    }
+    
+    function _shareWithViewers(uint256 idpId, euint32 value) private {
+        address[] storage viewers = viewerLists[idpId];
+        for (uint256 i = 0; i < viewers.length; i++) {
+            FHE.allow(value, viewers[i]);
+        }
+    }
+    
+    function _shareWithViewers(uint256 idpId, ebool value) private {
+        address[] storage viewers = viewerLists[idpId];
+        for (uint256 i = 0; i < viewers.length; i++) {
+            FHE.allow(value, viewers[i]);
+        }
     }
 }
\ No newline at end of file
@@ -0,0 +1,266 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import { FHE, euint32, ebool } from "@fhevm/solidity/lib/FHE.sol";
+import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
+import { CareerGrowthSim } from "./CareerGrowthSim.sol";
+import { CareerRoles } from "./CareerRoles.sol";
+
+/// @notice HR-managed career ladder, e.g. Engineer II -> Senior -> Staff. Requirements are plaintext so
+///         employees can plan against them; readiness results are encrypted for the IDP owner alone.
+contract CareerLadder is SepoliaConfig {
+    struct JobRole {
+        string name;
+        uint32 rank;                      // Position on the ladder, higher is more senior
+        uint32 version;                   // Bumped whenever the requirements change
+        bool exists;
+    }
+    
+    // Minimums on the revision metrics; 0 leaves a metric unconstrained
+    struct MetricMinimums {
+        uint32 skillLevel;
+        uint32 learningHours;
+        uint32 projectImpact;
+    }
+    
+    struct SkillRequirement {
+        uint256 skillId;
+        uint32 minLevel;
+    }
+    
+    struct ReadinessResult {
+        ebool encryptedReady;
+        euint32 encryptedUnmetCount;
+        uint32 revision;
+        uint32 jobRoleVersion;
+        bool isCalculated;
+    }
+    
+    // Shortfall per required skill, in the order of skillIds
+    struct SkillGapReport {
+        uint256[] skillIds;
+        euint32[] encryptedShortfalls;
+        uint32 revision;
+        uint32 jobRoleVersion;
+        bool isCalculated;
+    }
+    
+    // Mirrors CareerGrowthSim.MAX_IDP_SKILLS, so a role cannot ask for more skills than an IDP holds
+    uint8 public constant MAX_ROLE_SKILLS = 12;
+    
+    CareerRoles public immutable roles;
+    // The only contract allowed to record readiness, since it holds the IDPs' ciphertexts
+    address public simulator;
+    
+    uint256 public jobRoleCount;
+    mapping(uint256 => JobRole) public jobRoles;
+    mapping(uint256 => MetricMinimums) public metricMinimums;
+    mapping(uint256 => SkillRequirement[]) private skillRequirements;
+    
+    // Latest readiness check per IDP and job role
+    mapping(uint256 => mapping(uint256 => ReadinessResult)) public readinessResults;
+    mapping(uint256 => mapping(uint256 => SkillGapReport)) private skillGapReports;
+    
+    event JobRoleRegistered(uint256 indexed jobRoleId, string name, uint32 rank);
+    event JobRoleUpdated(uint256 indexed jobRoleId, uint32 version);
+    event ReadinessChecked(uint256 indexed idpId, uint256 indexed jobRoleId, uint32 revision);
+    event SkillGapReported(uint256 indexed idpId, uint256 indexed jobRoleId, uint32 revision);
+    
+    modifier onlyHRAdmin() {
+        require(roles.hasRole(CareerRoles.Role.HRAdmin, msg.sender), "Not HR admin");
+        _;
+    }
+    
+    modifier onlySimulator() {
+        require(msg.sender == simulator, "Not simulator");
+        _;
+    }
+    
+    constructor(CareerRoles rolesContract) {
+        roles = rolesContract;
+    }
+    
+    /// @notice Wires the simulator once, after it has been deployed against this contract.
+    function setSimulator(address simulatorAddress) public onlyHRAdmin {
+        require(simulator == address(0), "Simulator already set");
+        require(simulatorAddress != address(0), "Invalid simulator");
+        simulator = simulatorAddress;
+    }
+    
+    function registerJobRole(
+        string calldata name,
+        uint32 rank,
+        MetricMinimums calldata minimums,
+        uint256[] calldata skillIds,
+        uint32[] calldata minLevels
+    ) public onlyHRAdmin returns (uint256 jobRoleId) {
+        require(bytes(name).length > 0, "Empty role name");
+        
+        jobRoleCount += 1;
+        jobRoleId = jobRoleCount;
+        jobRoles[jobRoleId] = JobRole({ name: name, rank: rank, version: 1, exists: true });
+        _setRequirements(jobRoleId, minimums, skillIds, minLevels);
+        
+        emit JobRoleRegistered(jobRoleId, name, rank);
+    }
+    
+    /// @notice Replaces a role's requirements; earlier readiness results keep the version they were checked against.
+    function updateJobRole(
+        uint256 jobRoleId,
+        MetricMinimums calldata minimums,
+        uint256[] calldata skillIds,
+        uint32[] calldata minLevels
+    ) public onlyHRAdmin {
+        JobRole storage jobRole = jobRoles[jobRoleId];
+        require(jobRole.exists, "Unknown job role");
+        jobRole.version += 1;
+        _setRequirements(jobRoleId, minimums, skillIds, minLevels);
+        
+        emit JobRoleUpdated(jobRoleId, jobRole.version);
+    }
+    
+    function getSkillRequirements(uint256 jobRoleId) public view returns (SkillRequirement[] memory) {
+        return skillRequirements[jobRoleId];
+    }
+    
+    function _setRequirements(
+        uint256 jobRoleId,
+        MetricMinimums calldata minimums,
+        uint256[] calldata skillIds,
+        uint32[] calldata minLevels
+    ) private {
+        require(skillIds.length == minLevels.length, "Invalid skill requirements");
+        require(skillIds.length <= MAX_ROLE_SKILLS, "Too many skills");
+        require(simulator != address(0), "Simulator not set");
+        uint256 skillCount = CareerGrowthSim(simulator).skillCount();
+        
+        metricMinimums[jobRoleId] = minimums;
+        SkillRequirement[] storage requirements = skillRequirements[jobRoleId];
+        delete skillRequirements[jobRoleId];
+        for (uint256 i = 0; i < skillIds.length; i++) {
+            require(skillIds[i] > 0 && skillIds[i] <= skillCount, "Unknown skill");
+            // A repeated skill would count twice towards the unmet count and the gap report
+            for (uint256 j = 0; j < i; j++) {
+                require(skillIds[j] != skillIds[i], "Duplicate skill");
+            }
+            requirements.push(SkillRequirement({ skillId: skillIds[i], minLevel: minLevels[i] }));
+        }
+    }
+    
+    /// @dev The simulator grants transient access to every handle passed in. A required skill the IDP
+    ///      holds no level for counts as unmet; which skills an IDP holds is public anyway.
+    function recordReadiness(
+        uint256 idpId,
+        uint256 jobRoleId,
+        uint32 revision,
+        address owner,
+        uint256[] calldata skillIds,
+        euint32[] calldata skillLevels,
+        euint32 skillLevel,
+        euint32 learningHours,
+        euint32 projectImpact
+    ) external onlySimulator {
+        JobRole storage jobRole = jobRoles[jobRoleId];
+        require(jobRole.exists, "Unknown job role");
+        MetricMinimums storage minimums = metricMinimums[jobRoleId];
+        
+        euint32 unmet = FHE.asEuint32(0);
+        unmet = _countUnmet(unmet, skillLevel, minimums.skillLevel);
+        unmet = _countUnmet(unmet, learningHours, minimums.learningHours);
+        unmet = _countUnmet(unmet, projectImpact, minimums.projectImpact);
+        
+        SkillRequirement[] storage requirements = skillRequirements[jobRoleId];
+        for (uint256 i = 0; i < requirements.length; i++) {
+            (bool held, euint32 level) = _findSkillLevel(requirements[i].skillId, skillIds, skillLevels);
+            if (held) {
+                unmet = _countUnmet(unmet, level, requirements[i].minLevel);
+            } else if (requirements[i].minLevel > 0) {
+                unmet = FHE.add(unmet, 1);
+            }
+        }
+        
+        ebool ready = FHE.eq(unmet, 0);
+        FHE.allowThis(ready);
+        FHE.allow(ready, owner);
+        FHE.allowThis(unmet);
+        FHE.allow(unmet, owner);
+        readinessResults[idpId][jobRoleId] = ReadinessResult({
+            encryptedReady: ready,
+            encryptedUnmetCount: unmet,
+            revision: revision,
+            jobRoleVersion: jobRole.version,
+            isCalculated: true
+        });
+        
+        emit ReadinessChecked(idpId, jobRoleId, revision);
+    }
+    
+    /// @dev Shortfall is max(0, required - current), computed as max(current, required) - current so it
+    ///      never wraps. A required skill the IDP holds no level for falls short by the whole requirement.
+    function recordSkillGap(
+        uint256 idpId,
+        uint256 jobRoleId,
+        uint32 revision,
+        address owner,
+        uint256[] calldata skillIds,
+        euint32[] calldata skillLevels
+    ) external onlySimulator {
+        JobRole storage jobRole = jobRoles[jobRoleId];
+        require(jobRole.exists, "Unknown job role");
+        
+        SkillGapReport storage report = skillGapReports[idpId][jobRoleId];
+        delete report.skillIds;
+        delete report.encryptedShortfalls;
+        SkillRequirement[] storage requirements = skillRequirements[jobRoleId];
+        for (uint256 i = 0; i < requirements.length; i++) {
+            uint32 minLevel = requirements[i].minLevel;
+            (bool held, euint32 level) = _findSkillLevel(requirements[i].skillId, skillIds, skillLevels);
+            euint32 shortfall = held ? FHE.sub(FHE.max(level, minLevel), level) : FHE.asEuint32(minLevel);
+            FHE.allowThis(shortfall);
+            FHE.allow(shortfall, owner);
+            report.skillIds.push(requirements[i].skillId);
+            report.encryptedShortfalls.push(shortfall);
+        }
+        report.revision = revision;
+        report.jobRoleVersion = jobRole.version;
+        report.isCalculated = true;
+        
+        emit SkillGapReported(idpId, jobRoleId, revision);
+    }
+    
+    function getSkillGapReport(uint256 idpId, uint256 jobRoleId) public view returns (
+        uint256[] memory skillIds,
+        euint32[] memory encryptedShortfalls,
+        uint32 revision,
+        uint32 jobRoleVersion,
+        bool isCalculated
+    ) {
+        SkillGapReport storage report = skillGapReports[idpId][jobRoleId];
+        return (
+            report.skillIds,
+            report.encryptedShortfalls,
+            report.revision,
+            report.jobRoleVersion,
+            report.isCalculated
+        );
+    }
+    
+    function _countUnmet(euint32 unmet, euint32 value, uint32 minimum) private returns (euint32) {
+        if (minimum == 0) {
+            return unmet;
+        }
+        return FHE.add(unmet, FHE.select(FHE.lt(value, minimum), FHE.asEuint32(1), FHE.asEuint32(0)));
+    }
+    
+    function _findSkillLevel(
+        uint256 skillId,
+        uint256[] calldata skillIds,
+        euint32[] calldata skillLevels
+    ) private pure returns (bool held, euint32 level) {
+        for (uint256 i = 0; i < skillIds.length; i++) {
+            if (skillIds[i] == skillId) {
+                return (true, skillLevels[i]);
+            }
+        }
+    }
+}
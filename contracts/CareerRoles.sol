@@ -0,0 +1,103 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+/// @notice Role registry shared by CareerGrowthSim and CareerAnalytics. HR admins manage roles,
+///         scoring models, cohorts and aggregate decryption; employees submit IDPs; managers
+///         are the people employees report to.
+contract CareerRoles {
+    enum Role { HRAdmin, Manager, Employee }
+    
+    mapping(Role => address[]) private roleMembers;
+    // Position in roleMembers plus one, 0 when the role is not held
+    mapping(Role => mapping(address => uint256)) private memberIndex;
+    
+    // Employee => the manager who rates their project impact, address(0) if unassigned
+    mapping(address => address) public managerOf;
+    mapping(address => address[]) private reports;
+    // Position in their manager's reports plus one
+    mapping(address => uint256) private reportIndex;
+    
+    event RoleGranted(Role indexed role, address indexed account, address indexed sender);
+    event RoleRevoked(Role indexed role, address indexed account, address indexed sender);
+    event ManagerAssigned(address indexed employee, address indexed manager);
+    
+    modifier onlyHRAdmin() {
+        require(hasRole(Role.HRAdmin, msg.sender), "Not HR admin");
+        _;
+    }
+    
+    constructor() {
+        _grantRole(Role.HRAdmin, msg.sender);
+    }
+    
+    function hasRole(Role role, address account) public view returns (bool) {
+        return memberIndex[role][account] != 0;
+    }
+    
+    function grantRole(Role role, address account) public onlyHRAdmin {
+        require(account != address(0), "Invalid account");
+        require(!hasRole(role, account), "Role already granted");
+        _grantRole(role, account);
+    }
+    
+    /// @notice The last HR admin cannot be revoked, so the registry always stays manageable.
+    function revokeRole(Role role, address account) public onlyHRAdmin {
+        uint256 index = memberIndex[role][account];
+        require(index != 0, "Role not granted");
+        require(role != Role.HRAdmin || roleMembers[role].length > 1, "Last HR admin");
+        
+        address[] storage members = roleMembers[role];
+        address last = members[members.length - 1];
+        members[index - 1] = last;
+        memberIndex[role][last] = index;
+        members.pop();
+        delete memberIndex[role][account];
+        
+        emit RoleRevoked(role, account, msg.sender);
+    }
+    
+    function getRoleMembers(Role role) public view returns (address[] memory) {
+        return roleMembers[role];
+    }
+    
+    /// @notice Assigning address(0) leaves the employee without a manager.
+    function assignManager(address employee, address manager) public onlyHRAdmin {
+        require(hasRole(Role.Employee, employee), "Not employee");
+        require(manager == address(0) || hasRole(Role.Manager, manager), "Not manager");
+        require(manager != employee, "Invalid manager");
+        
+        address previous = managerOf[employee];
+        if (previous != address(0)) {
+            address[] storage previousReports = reports[previous];
+            uint256 index = reportIndex[employee];
+            address last = previousReports[previousReports.length - 1];
+            previousReports[index - 1] = last;
+            reportIndex[last] = index;
+            previousReports.pop();
+            delete reportIndex[employee];
+        }
+        if (manager != address(0)) {
+            reports[manager].push(employee);
+            reportIndex[employee] = reports[manager].length;
+        }
+        managerOf[employee] = manager;
+        
+        emit ManagerAssigned(employee, manager);
+    }
+    
+    /// @notice Losing the manager role also ends the right to rate former reports.
+    function isManagerOf(address manager, address employee) public view returns (bool) {
+        return manager != address(0) && managerOf[employee] == manager && hasRole(Role.Manager, manager);
+    }
+    
+    function getReports(address manager) public view returns (address[] memory) {
+        return reports[manager];
+    }
+    
+    function _grantRole(Role role, address account) private {
+        roleMembers[role].push(account);
+        memberIndex[role][account] = roleMembers[role].length;
+        
+        emit RoleGranted(role, account, msg.sender);
+    }
+}
@@ -1,22 +1,159 @@
 // App.tsx
 import React, { useEffect, useState } from "react";
 import { ethers } from "ethers";
-import { getContractReadOnly, getContractWithSigner } from "./contract";
+import {
+  Chart as ChartJS,
+  BarElement,
+  CategoryScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Tooltip,
+  Legend
+} from "chart.js";
+import { Bar, Line } from "react-chartjs-2";
+import {
+  getAnalyticsReadOnly,
+  getAnalyticsWithSigner,
+  getContractAddress,
+  getContractReadOnly,
+  getContractWithSigner,
+  getLadderReadOnly,
+  getLadderWithSigner,
+  getRolesReadOnly,
+  getRolesWithSigner
+} from "./contract";
+import { IDPStatus, statusName } from "./lifecycle";
+import { MilestoneMetric, metricLabels } from "./milestones";
+import { ROLES, Role } from "./roles";
+import type { CareerGrowthSim } from "./types";
+import { fetchOwnerPathIds, fetchPublishedPathIds, idRange, syncCareerPaths } from "./indexer";
+import type { IndexedPath } from "./indexer";
+import { encryptIDPInputs, encryptUint32Inputs, userDecryptHandles } from "./fhe";
+import type { IDPInputs } from "./fhe";
+import { loadPathLabels, savePathLabel } from "./pathLabels";
 import WalletManager from "./components/WalletManager";
 import WalletSelector from "./components/WalletSelector";
+import AdminConsole from "./components/AdminConsole";
+import type { JobRole, JobRoleRequirements, ModelWeights, TeamPath } from "./components/AdminConsole";
 import "./App.css";
 
-interface CareerPath {
-  id: string;
+ChartJS.register(BarElement, CategoryScale, LinearScale, PointElement, LineElement, Tooltip, Legend);
+
+const TRAJECTORY_PERIODS = 8;
+const chartColors = ["#667eea", "#764ba2", "#4caf50", "#ff9800", "#e91e63"];
+
+interface CareerPath extends IndexedPath {
   title: string;
-  encryptedData: string;
-  timestamp: number;
-  owner: string;
+  // Names of the taxonomy skills the IDP holds a level for
   skills: string[];
-  growthScore: number;
-  status: "active" | "completed" | "archived";
 }
 
+interface Cohort {
+  id: number;
+  name: string;
+}
+
+// Cleartexts decrypted for the connected account, kept in memory only
+interface PrivatePathData {
+  inputs: IDPInputs;
+  growthScore: number | null;
+  goalExceeded: boolean | null;
+  scenarioScores: Record<number, number>;
+  // Shared manager ratings by revision
+  impactRatings: Record<number, number>;
+  milestones: Record<number, { target: number; met: boolean }>;
+  // Current level by skill id
+  skillLevels: Record<number, number>;
+  // Readiness by job role id
+  readiness: Record<number, { ready: boolean; unmet: number }>;
+  // Shortfall per required skill by job role id, in the order of the report's skill ids
+  skillGaps: Record<number, number[]>;
+  trajectory: { periodScores: number[]; goalPeriod: number } | null;
+}
+
+interface CohortAggregates {
+  memberCount: number;
+  // Employees who joined or changed since the last snapshot; a new one needs minCohortSize of them
+  changedMembers: number;
+  // Encrypted totals only the requesting HR admin can decrypt
+  snapshot: {
+    handles: { totalLearningHours: string; totalProjectImpact: string; goalsExceeded: string };
+    memberCount: number;
+    requester: string;
+    timestamp: number;
+  } | null;
+}
+
+// Snapshot totals decrypted by their requester, kept in memory only
+interface AggregateTotals {
+  totalLearningHours: number;
+  totalProjectImpact: number;
+  goalsExceeded: number;
+  timestamp: number;
+}
+
+interface GrowthModel {
+  id: number;
+  name: string;
+  version: number;
+}
+
+interface Skill {
+  id: number;
+  name: string;
+  weight: number;
+}
+
+// Latest readiness check of an IDP against one job role, encrypted for the owner
+interface ReadinessResult {
+  jobRoleId: number;
+  readyHandle: string;
+  unmetHandle: string;
+  revision: number;
+  jobRoleVersion: number;
+}
+
+// Latest skill-gap report of an IDP against one job role, encrypted for the owner
+interface SkillGapReport {
+  jobRoleId: number;
+  skillIds: number[];
+  shortfallHandles: string[];
+  revision: number;
+  jobRoleVersion: number;
+}
+
+const emptyCareerPath = {
+  title: "",
+  description: "",
+  // Level by skill id; skills left blank are not part of the IDP
+  skillLevels: {} as Record<string, string>,
+  learningHours: "",
+  projectImpact: "",
+  careerGoal: "",
+  cohortId: "0"
+};
+
+const emptyRevision = {
+  learningHours: "",
+  projectImpact: "",
+  careerGoal: ""
+};
+
+const emptyScenario = {
+  label: "",
+  skillLevelDelta: "0",
+  learningHoursDelta: "0",
+  projectImpactDelta: "0"
+};
+
+const emptyMilestone = {
+  label: "",
+  metric: String(MilestoneMetric.SkillLevel),
+  target: "",
+  dueDate: ""
+};
+
 const App: React.FC = () => {
   const [account, setAccount] = useState("");
   const [loading, setLoading] = useState(true);
@@ -31,26 +168,70 @@ const App: React.FC = () => {
     status: "pending" | "success" | "error";
     message: string;
   }>({ visible: false, status: "pending", message: "" });
-  const [newCareerPath, setNewCareerPath] = useState({
-    title: "",
-    skills: "",
-    description: ""
-  });
+  const [newCareerPath, setNewCareerPath] = useState(emptyCareerPath);
   const [showTutorial, setShowTutorial] = useState(false);
   const [activeTab, setActiveTab] = useState("dashboard");
   const [searchQuery, setSearchQuery] = useState("");
+  const [growthModels, setGrowthModels] = useState<GrowthModel[]>([]);
+  const [selectedModelId, setSelectedModelId] = useState(1);
+  const [skillTaxonomy, setSkillTaxonomy] = useState<Skill[]>([]);
+  const [jobRoles, setJobRoles] = useState<JobRole[]>([]);
+  // Readiness results of the connected account's paths, by path id
+  const [readiness, setReadiness] = useState<Record<string, ReadinessResult[]>>({});
+  const [skillGaps, setSkillGaps] = useState<Record<string, SkillGapReport[]>>({});
+  const [targetJobRoles, setTargetJobRoles] = useState<Record<string, number>>({});
+  const [scenarioPathId, setScenarioPathId] = useState<string | null>(null);
+  const [newScenario, setNewScenario] = useState(emptyScenario);
+  const [milestonePathId, setMilestonePathId] = useState<string | null>(null);
+  const [newMilestone, setNewMilestone] = useState(emptyMilestone);
+  const [revisionPathId, setRevisionPathId] = useState<string | null>(null);
+  const [newRevision, setNewRevision] = useState(emptyRevision);
+  const [skillsPathId, setSkillsPathId] = useState<string | null>(null);
+  const [newSkillLevels, setNewSkillLevels] = useState<Record<string, string>>({});
+  const [targetRevisions, setTargetRevisions] = useState<Record<string, number>>({});
+  const [cohorts, setCohorts] = useState<Cohort[]>([]);
+  const [selectedCohortId, setSelectedCohortId] = useState(0);
+  const [cohortAggregates, setCohortAggregates] = useState<Record<number, CohortAggregates>>({});
+  const [aggregateTotals, setAggregateTotals] = useState<Record<number, AggregateTotals>>({});
+  const [minCohortSize, setMinCohortSize] = useState(0);
+  const [accountRoles, setAccountRoles] = useState<Role[]>([]);
+  const [roleMembers, setRoleMembers] = useState<Record<Role, string[]>>({
+    [Role.HRAdmin]: [],
+    [Role.Manager]: [],
+    [Role.Employee]: []
+  });
+  const [managerAssignments, setManagerAssignments] = useState<Record<string, string>>({});
+  const [reports, setReports] = useState<string[]>([]);
+  const [privateData, setPrivateData] = useState<Record<string, PrivatePathData>>({});
+  const [myPathIds, setMyPathIds] = useState<string[]>([]);
+  const [publishedPathIds, setPublishedPathIds] = useState<string[]>([]);
+
+  const isHRAdmin = accountRoles.includes(Role.HRAdmin);
+  const isManager = accountRoles.includes(Role.Manager);
+  const isEmployee = accountRoles.includes(Role.Employee);
+  // Employees have nothing to administer, so the console is for HR admins and managers only
+  const canAdminister = isHRAdmin || isManager;
 
   // Calculate statistics
-  const activeCount = careerPaths.filter(p => p.status === "active").length;
-  const completedCount = careerPaths.filter(p => p.status === "completed").length;
-  const averageScore = careerPaths.length > 0 
-    ? Math.round(careerPaths.reduce((sum, p) => sum + p.growthScore, 0) / careerPaths.length) 
+  const activeCount = careerPaths.filter(p => p.status === IDPStatus.Active).length;
+  const completedCount = careerPaths.filter(p => p.status === IDPStatus.Completed).length;
+  const decryptedScores = Object.values(privateData)
+    .map(data => data.growthScore)
+    .filter((score): score is number => score !== null);
+  const averageScore = decryptedScores.length > 0 
+    ? Math.round(decryptedScores.reduce((sum, score) => sum + score, 0) / decryptedScores.length) 
     : 0;
 
   useEffect(() => {
     loadCareerPaths().finally(() => setLoading(false));
   }, []);
 
+  useEffect(() => {
+    setPrivateData({});
+    loadMyPathIds().catch(e => console.error("Error loading own career paths:", e));
+    loadRoles().catch(e => console.error("Error loading roles:", e));
+  }, [account]);
+
   const onWalletSelect = async (wallet: any) => {
     if (!wallet.provider) return;
     try {
@@ -64,6 +245,8 @@ const App: React.FC = () => {
         const newAcc = accounts[0] || "";
         setAccount(newAcc);
       });
+      // Every contract address, provider and FHE instance depends on the chain, so start over
+      wallet.provider.on("chainChanged", () => window.location.reload());
     } catch (e) {
       alert("Failed to connect wallet");
     }
@@ -75,59 +258,203 @@ const App: React.FC = () => {
     setProvider(null);
   };
 
+  const loadAnalytics = async () => {
+    const analytics = await getAnalyticsReadOnly();
+    if (!analytics) return;
+    
+    const [cohortCount, minSize] = await Promise.all([
+      analytics.cohortCount().then(Number),
+      analytics.minCohortSize().then(Number)
+    ]);
+    const cohortList: Cohort[] = await Promise.all(idRange(cohortCount).map(async id => ({
+      id,
+      name: (await analytics.cohorts(id)).name
+    })));
+    setCohorts(cohortList);
+    setMinCohortSize(minSize);
+    
+    // Cohort 0 holds the organisation-wide totals
+    const aggregates: Record<number, CohortAggregates> = {};
+    await Promise.all([0, ...idRange(cohortCount)].map(async cohortId => {
+      const [snapshot, memberCount, changedMembers] = await Promise.all([
+        analytics.aggregateSnapshots(cohortId),
+        analytics.getAggregateMemberCount(cohortId).then(Number),
+        analytics.changedMembers(cohortId).then(Number)
+      ]);
+      aggregates[cohortId] = {
+        memberCount,
+        changedMembers,
+        snapshot: Number(snapshot.timestamp) === 0 ? null : {
+          handles: {
+            totalLearningHours: snapshot.totalLearningHours,
+            totalProjectImpact: snapshot.totalProjectImpact,
+            goalsExceeded: snapshot.goalsExceeded
+          },
+          memberCount: Number(snapshot.memberCount),
+          requester: snapshot.requester,
+          timestamp: Number(snapshot.timestamp)
+        }
+      };
+    }));
+    setCohortAggregates(aggregates);
+  };
+
+  // Role holder lists are only read for HR admins, who are the ones managing them
+  const loadRoles = async () => {
+    const roles = account ? await getRolesReadOnly() : null;
+    if (!roles) {
+      setAccountRoles([]);
+      setReports([]);
+      return;
+    }
+    
+    const holds = await Promise.all(ROLES.map(role => roles.hasRole(role, account)));
+    const held = ROLES.filter((_, i) => holds[i]);
+    setAccountRoles(held);
+    setReports(held.includes(Role.Manager) ? (await roles.getReports(account)).map(a => a.toLowerCase()) : []);
+    
+    if (held.includes(Role.HRAdmin)) {
+      const members = {} as Record<Role, string[]>;
+      const lists = await Promise.all(ROLES.map(role => roles.getRoleMembers(role)));
+      ROLES.forEach((role, i) => { members[role] = [...lists[i]]; });
+      setRoleMembers(members);
+      
+      const employees = members[Role.Employee];
+      const managers = await Promise.all(employees.map(employee => roles.managerOf(employee)));
+      const assignments: Record<string, string> = {};
+      employees.forEach((employee, i) => {
+        if (managers[i] !== ethers.ZeroAddress) assignments[employee.toLowerCase()] = managers[i];
+      });
+      setManagerAssignments(assignments);
+    }
+  };
+
+  const loadLadder = async () => {
+    const ladder = await getLadderReadOnly();
+    if (!ladder) return;
+    
+    const jobRoleCount = Number(await ladder.jobRoleCount());
+    const list: JobRole[] = await Promise.all(idRange(jobRoleCount).map(async id => {
+      const [jobRole, minimums, requirements] = await Promise.all([
+        ladder.jobRoles(id),
+        ladder.metricMinimums(id),
+        ladder.getSkillRequirements(id)
+      ]);
+      const skills: Record<number, number> = {};
+      for (const requirement of requirements) {
+        skills[Number(requirement.skillId)] = Number(requirement.minLevel);
+      }
+      return {
+        id,
+        name: jobRole.name,
+        rank: Number(jobRole.rank),
+        version: Number(jobRole.version),
+        requirements: {
+          skillLevel: Number(minimums.skillLevel),
+          learningHours: Number(minimums.learningHours),
+          projectImpact: Number(minimums.projectImpact),
+          skills
+        }
+      };
+    }));
+    list.sort((a, b) => a.rank - b.rank);
+    setJobRoles(list);
+  };
+
+  // Only the owner can decrypt ladder results, so they are read for the connected account's paths alone
+  const loadLadderResults = async (pathIds: string[]) => {
+    const ladder = await getLadderReadOnly();
+    if (!ladder) return;
+    
+    const jobRoleCount = Number(await ladder.jobRoleCount());
+    const results: Record<string, ReadinessResult[]> = {};
+    const reports: Record<string, SkillGapReport[]> = {};
+    await Promise.all(pathIds.map(async pathId => {
+      const reads = await Promise.all(idRange(jobRoleCount).map(jobRoleId => Promise.all([
+        ladder.readinessResults(pathId, jobRoleId),
+        ladder.getSkillGapReport(pathId, jobRoleId)
+      ])));
+      results[pathId] = [];
+      reports[pathId] = [];
+      reads.forEach(([result, report], i) => {
+        const jobRoleId = i + 1;
+        if (result.isCalculated) {
+          results[pathId].push({
+            jobRoleId,
+            readyHandle: result.encryptedReady,
+            unmetHandle: result.encryptedUnmetCount,
+            revision: Number(result.revision),
+            jobRoleVersion: Number(result.jobRoleVersion)
+          });
+        }
+        if (report.isCalculated) {
+          reports[pathId].push({
+            jobRoleId,
+            skillIds: report.skillIds.map(Number),
+            shortfallHandles: [...report.encryptedShortfalls],
+            revision: Number(report.revision),
+            jobRoleVersion: Number(report.jobRoleVersion)
+          });
+        }
+      });
+    }));
+    setReadiness(results);
+    setSkillGaps(reports);
+  };
+
+  // "My Paths" is served by the contract's per-owner registry rather than by filtering every path
+  const loadMyPathIds = async (contract?: CareerGrowthSim | null) => {
+    if (!account) {
+      setMyPathIds([]);
+      setReadiness({});
+      setSkillGaps({});
+      return;
+    }
+    const registry = contract ?? await getContractReadOnly();
+    if (!registry) return;
+    const pathIds = await fetchOwnerPathIds(registry, account);
+    setMyPathIds(pathIds);
+    await loadLadderResults(pathIds);
+  };
+
   const loadCareerPaths = async () => {
     setIsRefreshing(true);
     try {
       const contract = await getContractReadOnly();
       if (!contract) return;
       
-      // Check contract availability using FHE
-      const isAvailable = await contract.isAvailable();
-      if (!isAvailable) {
-        console.error("Contract is not available");
-        return;
-      }
-      
-      const keysBytes = await contract.getData("career_path_keys");
-      let keys: string[] = [];
-      
-      if (keysBytes.length > 0) {
-        try {
-          keys = JSON.parse(ethers.toUtf8String(keysBytes));
-        } catch (e) {
-          console.error("Error parsing career path keys:", e);
-        }
-      }
+      const [modelCount, skillCount] = await Promise.all([
+        contract.modelCount().then(Number),
+        contract.skillCount().then(Number)
+      ]);
+      const [models, taxonomy] = await Promise.all([
+        Promise.all(idRange(modelCount).map(async (id): Promise<GrowthModel> => {
+          const model = await contract.growthModels(id);
+          return { id, name: model.name, version: Number(model.version) };
+        })),
+        Promise.all(idRange(skillCount).map(async (id): Promise<Skill> => {
+          const skill = await contract.skills(id);
+          return { id, name: skill.name, weight: Number(skill.weight) };
+        })),
+        loadAnalytics(),
+        loadLadder()
+      ]);
+      setGrowthModels(models);
+      setSkillTaxonomy(taxonomy);
       
-      const list: CareerPath[] = [];
-      
-      for (const key of keys) {
-        try {
-          const pathBytes = await contract.getData(`career_path_${key}`);
-          if (pathBytes.length > 0) {
-            try {
-              const pathData = JSON.parse(ethers.toUtf8String(pathBytes));
-              list.push({
-                id: key,
-                title: pathData.title,
-                encryptedData: pathData.data,
-                timestamp: pathData.timestamp,
-                owner: pathData.owner,
-                skills: pathData.skills || [],
-                growthScore: pathData.growthScore || 0,
-                status: pathData.status || "active"
-              });
-            } catch (e) {
-              console.error(`Error parsing career path data for ${key}:`, e);
-            }
-          }
-        } catch (e) {
-          console.error(`Error loading career path ${key}:`, e);
-        }
-      }
+      const labels = loadPathLabels(await contract.getAddress());
+      const skillName = (skillId: number) => taxonomy.find(skill => skill.id === skillId)?.name || `Skill #${skillId}`;
+      const list: CareerPath[] = (await syncCareerPaths(contract)).map(path => ({
+        ...path,
+        title: labels[path.id]?.title || `IDP #${path.id}`,
+        skills: path.skillLevels.map(level => skillName(level.skillId))
+      }));
       
       list.sort((a, b) => b.timestamp - a.timestamp);
       setCareerPaths(list);
+      setPublishedPathIds(await fetchPublishedPathIds(contract));
+      await loadMyPathIds(contract);
+      await loadRoles();
     } catch (e) {
       console.error("Error loading career paths:", e);
     } finally {
@@ -150,50 +477,52 @@ const App: React.FC = () => {
     });
     
     try {
-      // Simulate FHE encryption for career data
-      const encryptedData = `FHE-${btoa(JSON.stringify(newCareerPath))}`;
+      const contractAddress = await getContractAddress();
+      const skillIds = Object.keys(newCareerPath.skillLevels).filter(id => newCareerPath.skillLevels[id] !== "");
+      const { handles, inputProof } = await encryptIDPInputs(contractAddress, account, {
+        learningHours: Number(newCareerPath.learningHours),
+        projectImpact: Number(newCareerPath.projectImpact),
+        careerGoal: Number(newCareerPath.careerGoal)
+      }, skillIds.map(id => Number(newCareerPath.skillLevels[id])));
       
       const contract = await getContractWithSigner();
       if (!contract) {
         throw new Error("Failed to get contract with signer");
       }
       
-      const pathId = `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
-
-      const pathData = {
-        title: newCareerPath.title,
-        data: encryptedData,
-        timestamp: Math.floor(Date.now() / 1000),
-        owner: account,
-        skills: newCareerPath.skills.split(',').map(s => s.trim()).filter(s => s),
-        growthScore: Math.floor(Math.random() * 50) + 50, // Simulated growth score
-        status: "active"
-      };
+      setTransactionStatus({
+        visible: true,
+        status: "pending",
+        message: "Submitting encrypted IDP..."
+      });
       
-      // Store encrypted data on-chain using FHE
-      await contract.setData(
-        `career_path_${pathId}`, 
-        ethers.toUtf8Bytes(JSON.stringify(pathData))
+      const count = skillIds.length;
+      const tx = await contract.submitEncryptedIDP(
+        skillIds,
+        handles.slice(0, count),
+        handles[count],
+        handles[count + 1],
+        handles[count + 2],
+        inputProof,
+        Number(newCareerPath.cohortId)
       );
+      const receipt = await tx.wait();
+      if (!receipt) throw new Error("Transaction dropped");
       
-      const keysBytes = await contract.getData("career_path_keys");
-      let keys: string[] = [];
+      const submitted = receipt.logs
+        .map((log: ethers.Log) => {
+          try {
+            return contract.interface.parseLog(log);
+          } catch (e) {
+            return null;
+          }
+        })
+        .find((event: ethers.LogDescription | null) => event?.name === "IDPSubmitted");
       
-      if (keysBytes.length > 0) {
-        try {
-          keys = JSON.parse(ethers.toUtf8String(keysBytes));
-        } catch (e) {
-          console.error("Error parsing keys:", e);
-        }
+      if (submitted) {
+        savePathLabel(contractAddress, submitted.args.id.toString(), { title: newCareerPath.title });
       }
       
-      keys.push(pathId);
-      
-      await contract.setData(
-        "career_path_keys", 
-        ethers.toUtf8Bytes(JSON.stringify(keys))
-      );
-      
       setTransactionStatus({
         visible: true,
         status: "success",
@@ -205,11 +534,7 @@ const App: React.FC = () => {
       setTimeout(() => {
         setTransactionStatus({ visible: false, status: "pending", message: "" });
         setShowCreateModal(false);
-        setNewCareerPath({
-          title: "",
-          skills: "",
-          description: ""
-        });
+        setNewCareerPath(emptyCareerPath);
       }, 2000);
     } catch (e: any) {
       const errorMessage = e.message.includes("user rejected transaction")
@@ -230,7 +555,12 @@ const App: React.FC = () => {
     }
   };
 
-  const simulateGrowth = async (pathId: string) => {
+  const sendPathTransaction = async (
+    pendingMessage: string,
+    successMessage: string,
+    errorPrefix: string,
+    send: (contract: CareerGrowthSim) => Promise<ethers.ContractTransactionResponse>
+  ) => {
     if (!provider) {
       alert("Please connect wallet first");
       return;
@@ -239,39 +569,22 @@ const App: React.FC = () => {
     setTransactionStatus({
       visible: true,
       status: "pending",
-      message: "Running FHE simulation on career path..."
+      message: pendingMessage
     });
 
     try {
-      // Simulate FHE computation time
-      await new Promise(resolve => setTimeout(resolve, 3000));
-      
       const contract = await getContractWithSigner();
       if (!contract) {
         throw new Error("Failed to get contract with signer");
       }
       
-      const pathBytes = await contract.getData(`career_path_${pathId}`);
-      if (pathBytes.length === 0) {
-        throw new Error("Career path not found");
-      }
-      
-      const pathData = JSON.parse(ethers.toUtf8String(pathBytes));
-      
-      const updatedPath = {
-        ...pathData,
-        growthScore: Math.min(100, pathData.growthScore + Math.floor(Math.random() * 15) + 5)
-      };
-      
-      await contract.setData(
-        `career_path_${pathId}`, 
-        ethers.toUtf8Bytes(JSON.stringify(updatedPath))
-      );
+      const tx = await send(contract);
+      await tx.wait();
       
       setTransactionStatus({
         visible: true,
         status: "success",
-        message: "FHE growth simulation completed!"
+        message: successMessage
       });
       
       await loadCareerPaths();
@@ -283,7 +596,7 @@ const App: React.FC = () => {
       setTransactionStatus({
         visible: true,
         status: "error",
-        message: "Simulation failed: " + (e.message || "Unknown error")
+        message: errorPrefix + (e.message || "Unknown error")
       });
       
       setTimeout(() => {
@@ -292,7 +605,341 @@ const App: React.FC = () => {
     }
   };
 
-  const archivePath = async (pathId: string) => {
+  const requestAggregateAccess = () => sendPathTransaction(
+    "Requesting aggregate access...",
+    "Snapshot taken, decrypt it to see the totals",
+    "Access request failed: ",
+    async () => (await getAnalyticsWithSigner()).requestAggregateAccess(selectedCohortId)
+  );
+
+  // Only the snapshot's requester holds the ACL grant, so the totals never leave their browser
+  const decryptAggregates = async (cohortId: number) => {
+    const snapshot = cohortAggregates[cohortId]?.snapshot;
+    if (!provider || !snapshot) return;
+
+    setTransactionStatus({
+      visible: true,
+      status: "pending",
+      message: "Decrypting locally, please sign the decryption request..."
+    });
+
+    try {
+      const analytics = await getAnalyticsReadOnly();
+      if (!analytics) throw new Error("Analytics contract not deployed");
+      const { handles } = snapshot;
+      const values = await userDecryptHandles(await analytics.getAddress(), await provider.getSigner(), [
+        handles.totalLearningHours,
+        handles.totalProjectImpact,
+        handles.goalsExceeded
+      ]);
+      const numberOf = (handle: string) => Number(values[handle.toLowerCase()] ?? 0);
+      setAggregateTotals(prev => ({
+        ...prev,
+        [cohortId]: {
+          totalLearningHours: numberOf(handles.totalLearningHours),
+          totalProjectImpact: numberOf(handles.totalProjectImpact),
+          goalsExceeded: numberOf(handles.goalsExceeded),
+          timestamp: snapshot.timestamp
+        }
+      }));
+      
+      setTransactionStatus({
+        visible: true,
+        status: "success",
+        message: "Decrypted in your browser, nothing was published on-chain"
+      });
+      setTimeout(() => {
+        setTransactionStatus({ visible: false, status: "pending", message: "" });
+      }, 2000);
+    } catch (e: any) {
+      setTransactionStatus({
+        visible: true,
+        status: "error",
+        message: "Decryption failed: " + (e.message || "Unknown error")
+      });
+      setTimeout(() => {
+        setTransactionStatus({ visible: false, status: "pending", message: "" });
+      }, 3000);
+    }
+  };
+
+  const grantRole = (role: Role, member: string) => sendPathTransaction(
+    "Granting role...",
+    "Role granted!",
+    "Grant failed: ",
+    async () => (await getRolesWithSigner()).grantRole(role, member)
+  );
+
+  const revokeRole = (role: Role, member: string) => sendPathTransaction(
+    "Revoking role...",
+    "Role revoked",
+    "Revoke failed: ",
+    async () => (await getRolesWithSigner()).revokeRole(role, member)
+  );
+
+  const assignManager = (employee: string, manager: string) => sendPathTransaction(
+    "Assigning manager...",
+    manager ? "Manager assigned!" : "Manager unassigned",
+    "Assignment failed: ",
+    async () => (await getRolesWithSigner()).assignManager(employee, manager || ethers.ZeroAddress)
+  );
+
+  const rateImpact = (pathId: string, revision: number, rating: number) => sendPathTransaction(
+    "Encrypting project impact rating...",
+    "Rating recorded, it stays hidden from the employee until shared",
+    "Rating failed: ",
+    async contract => {
+      const { handles, inputProof } = await encryptUint32Inputs(await contract.getAddress(), account, [rating]);
+      return contract.rateProjectImpact(pathId, revision, handles[0], inputProof);
+    }
+  );
+
+  const shareRating = (pathId: string, revision: number) => sendPathTransaction(
+    "Sharing rating with the employee...",
+    "Rating shared!",
+    "Sharing failed: ",
+    contract => contract.shareImpactRating(pathId, revision)
+  );
+
+  const registerCohort = (name: string) => sendPathTransaction(
+    "Registering cohort...",
+    "Cohort registered!",
+    "Cohort registration failed: ",
+    async () => (await getAnalyticsWithSigner()).registerCohort(name)
+  );
+
+  const updateMinCohortSize = (size: number) => sendPathTransaction(
+    "Updating minimum cohort size...",
+    "Minimum cohort size updated!",
+    "Update failed: ",
+    async () => (await getAnalyticsWithSigner()).setMinCohortSize(size)
+  );
+
+  const registerSkill = (name: string, weight: number) => sendPathTransaction(
+    "Adding skill to the taxonomy...",
+    "Skill registered!",
+    "Skill registration failed: ",
+    contract => contract.registerSkill(name, weight)
+  );
+
+  const updateSkillWeight = (skillId: number, weight: number) => sendPathTransaction(
+    "Updating skill weight...",
+    "Skill weight updated, it applies from each path's next revision",
+    "Update failed: ",
+    contract => contract.updateSkillWeight(skillId, weight)
+  );
+
+  const saveJobRole = (
+    jobRoleId: number | null,
+    name: string,
+    rank: number,
+    requirements: JobRoleRequirements
+  ) => sendPathTransaction(
+    jobRoleId === null ? "Adding role to the career ladder..." : "Updating role requirements...",
+    jobRoleId === null ? "Career ladder role registered!" : "Role requirements updated!",
+    "Saving role failed: ",
+    async () => {
+      const ladder = await getLadderWithSigner();
+      const { skills, ...minimums } = requirements;
+      const skillIds = Object.keys(skills);
+      const minLevels = skillIds.map(id => skills[Number(id)]);
+      return jobRoleId === null
+        ? ladder.registerJobRole(name, rank, minimums, skillIds, minLevels)
+        : ladder.updateJobRole(jobRoleId, minimums, skillIds, minLevels);
+    }
+  );
+
+  const saveGrowthModel = (modelId: number | null, name: string, weights: ModelWeights) => sendPathTransaction(
+    modelId === null ? "Registering scoring model..." : "Publishing new model version...",
+    modelId === null ? "Scoring model registered!" : "New model version published!",
+    "Saving model failed: ",
+    contract => modelId === null
+      ? contract.registerGrowthModel(name, weights)
+      : contract.updateGrowthModel(modelId, weights)
+  );
+
+  const cohortName = (cohortId: number) =>
+    cohortId === 0 ? "Whole organisation" : cohorts.find(c => c.id === cohortId)?.name || `Cohort #${cohortId}`;
+
+  const selectedAggregates = cohortAggregates[selectedCohortId];
+  // Totals decrypted from an older snapshot no longer match what is on-chain
+  const selectedTotals = selectedAggregates?.snapshot
+    && aggregateTotals[selectedCohortId]?.timestamp === selectedAggregates.snapshot.timestamp
+    ? aggregateTotals[selectedCohortId]
+    : null;
+
+  const targetRevision = (path: CareerPath) => targetRevisions[path.id] || path.latestRevision;
+
+  const submitRevision = async () => {
+    if (!revisionPathId) return;
+    const pathId = revisionPathId;
+    const revision = newRevision;
+    setRevisionPathId(null);
+    setNewRevision(emptyRevision);
+    
+    await sendPathTransaction(
+      "Encrypting and appending IDP revision...",
+      "New IDP revision stored!",
+      "Update failed: ",
+      async contract => {
+        const { handles, inputProof } = await encryptIDPInputs(await contract.getAddress(), account, {
+          learningHours: Number(revision.learningHours),
+          projectImpact: Number(revision.projectImpact),
+          careerGoal: Number(revision.careerGoal)
+        });
+        return contract.updateEncryptedIDP(pathId, handles[0], handles[1], handles[2], inputProof);
+      }
+    );
+    setTargetRevisions(prev => {
+      const { [pathId]: _, ...rest } = prev;
+      return rest;
+    });
+  };
+
+  // Sends only the skills given a level; the contract carries the other fields into a new revision
+  const submitSkillLevels = async () => {
+    if (!skillsPathId) return;
+    const pathId = skillsPathId;
+    const levels = newSkillLevels;
+    setSkillsPathId(null);
+    setNewSkillLevels({});
+    
+    const skillIds = Object.keys(levels).filter(id => levels[id] !== "");
+    await sendPathTransaction(
+      "Encrypting skill levels and appending IDP revision...",
+      "Skill levels updated!",
+      "Update failed: ",
+      async contract => {
+        const { handles, inputProof } = await encryptUint32Inputs(
+          await contract.getAddress(), account, skillIds.map(id => Number(levels[id]))
+        );
+        return contract.updateSkillLevels(pathId, skillIds, handles, inputProof);
+      }
+    );
+    setTargetRevisions(prev => {
+      const { [pathId]: _, ...rest } = prev;
+      return rest;
+    });
+  };
+
+  // A revision scored on self-reported impact can be simulated once more after the manager rates it
+  const awaitsRatedRun = (path: CareerPath) => !path.managerRated
+    && !!path.revisions.find(rev => rev.revision === path.simulatedRevision)?.rating?.shared;
+
+  const simulateGrowth = (path: CareerPath) => sendPathTransaction(
+    "Running FHE simulation on career path...",
+    "FHE growth simulation completed!",
+    "Simulation failed: ",
+    contract => contract.runEncryptedSimulation(path.id, selectedModelId, targetRevision(path))
+  );
+
+  const togglePublished = (path: CareerPath) => publishedPathIds.includes(path.id)
+    ? sendPathTransaction(
+        "Removing path from the community listing...",
+        "Path unpublished",
+        "Unpublish failed: ",
+        contract => contract.unpublishIDP(path.id)
+      )
+    : sendPathTransaction(
+        "Publishing path to the community listing...",
+        "Path published!",
+        "Publish failed: ",
+        contract => contract.publishIDP(path.id)
+      );
+
+  const changeStatus = (
+    path: CareerPath,
+    transition: "activateIDP" | "completeIDP" | "archiveIDP" | "reactivateIDP",
+    outcome: string
+  ) => sendPathTransaction(
+    "Updating path status...",
+    `Path ${outcome}`,
+    "Status change failed: ",
+    contract => contract[transition](path.id)
+  );
+
+  const runScenario = async () => {
+    const path = careerPaths.find(p => p.id === scenarioPathId);
+    if (!path) return;
+    const pathId = path.id;
+    const revision = targetRevision(path);
+    const scenario = newScenario;
+    setScenarioPathId(null);
+    setNewScenario(emptyScenario);
+    
+    await sendPathTransaction(
+      "Encrypting scenario and running FHE simulation...",
+      "What-if scenario simulated!",
+      "Scenario failed: ",
+      async contract => {
+        const { handles, inputProof } = await encryptUint32Inputs(await contract.getAddress(), account, [
+          Number(scenario.skillLevelDelta),
+          Number(scenario.learningHoursDelta),
+          Number(scenario.projectImpactDelta)
+        ]);
+        return contract.runScenarioSimulation(
+          pathId, scenario.label, handles[0], handles[1], handles[2], inputProof, selectedModelId, revision
+        );
+      }
+    );
+  };
+
+  const addMilestone = async () => {
+    if (!milestonePathId) return;
+    const pathId = milestonePathId;
+    const milestone = newMilestone;
+    setMilestonePathId(null);
+    setNewMilestone(emptyMilestone);
+    
+    await sendPathTransaction(
+      "Encrypting milestone target...",
+      "Milestone added and checked against the latest revision!",
+      "Adding milestone failed: ",
+      async contract => {
+        const { handles, inputProof } = await encryptUint32Inputs(await contract.getAddress(), account, [
+          Number(milestone.target)
+        ]);
+        // Due at the end of the chosen day
+        const dueDate = Math.floor(new Date(`${milestone.dueDate}T23:59:59`).getTime() / 1000);
+        return contract.addMilestone(
+          pathId, milestone.label, Number(milestone.metric), handles[0], inputProof, dueDate
+        );
+      }
+    );
+  };
+
+  const evaluateMilestone = (path: CareerPath, milestoneId: number) => sendPathTransaction(
+    "Checking milestone against the latest revision...",
+    "Milestone re-checked!",
+    "Milestone check failed: ",
+    contract => contract.evaluateMilestone(path.id, milestoneId)
+  );
+
+  const targetJobRole = (path: CareerPath) => targetJobRoles[path.id] || jobRoles[0]?.id;
+
+  const checkReadiness = (path: CareerPath) => sendPathTransaction(
+    "Checking encrypted promotion readiness...",
+    "Readiness checked, decrypt the path to see the result",
+    "Readiness check failed: ",
+    contract => contract.checkReadiness(path.id, targetJobRole(path))
+  );
+
+  const reportSkillGap = (path: CareerPath) => sendPathTransaction(
+    "Computing encrypted skill gap...",
+    "Skill gap computed, decrypt the path to see the chart",
+    "Skill gap report failed: ",
+    contract => contract.reportSkillGap(path.id, targetJobRole(path))
+  );
+
+  const projectTrajectory = (path: CareerPath) => sendPathTransaction(
+    "Projecting encrypted career trajectory...",
+    "Trajectory projected!",
+    "Projection failed: ",
+    contract => contract.projectTrajectory(path.id, selectedModelId, targetRevision(path), TRAJECTORY_PERIODS)
+  );
+
+  // Decrypts everything the connected account may read on this path, after one EIP-712 signature
+  const decryptPath = async (path: CareerPath) => {
     if (!provider) {
       alert("Please connect wallet first");
       return;
@@ -301,42 +948,103 @@ const App: React.FC = () => {
     setTransactionStatus({
       visible: true,
       status: "pending",
-      message: "Archiving with FHE..."
+      message: "Decrypting locally, please sign the decryption request..."
     });
 
     try {
-      await new Promise(resolve => setTimeout(resolve, 2000));
-      
-      const contract = await getContractWithSigner();
-      if (!contract) {
-        throw new Error("Failed to get contract with signer");
-      }
-      
-      const pathBytes = await contract.getData(`career_path_${pathId}`);
-      if (pathBytes.length === 0) {
-        throw new Error("Career path not found");
-      }
+      const signer = await provider.getSigner();
+      const sharedRatings = path.revisions.filter(rev => rev.rating?.shared);
+      const values = await userDecryptHandles(await getContractAddress(), signer, [
+        ...path.handles.revision,
+        ...path.skillLevels.map(level => level.handle),
+        path.handles.growthScore,
+        path.handles.goalExceeded,
+        ...path.scenarios.map(scenario => scenario.handle),
+        ...path.milestones.flatMap(milestone => [milestone.targetHandle, milestone.metHandle]),
+        ...sharedRatings.map(rev => rev.rating!.handle),
+        ...path.trajectory.periodHandles,
+        path.trajectory.goalPeriodHandle
+      ]);
+      const valueOf = (handle: string) => values[handle.toLowerCase()];
+      const numberOf = (handle: string) => valueOf(handle) === undefined ? null : Number(valueOf(handle));
       
-      const pathData = JSON.parse(ethers.toUtf8String(pathBytes));
+      const [skillLevel, learningHours, projectImpact, careerGoal] = path.handles.revision.map(h => numberOf(h) ?? 0);
+      const scenarioScores: Record<number, number> = {};
+      path.scenarios.forEach(scenario => {
+        const score = numberOf(scenario.handle);
+        if (score !== null) scenarioScores[scenario.id] = score;
+      });
+      const milestones: Record<number, { target: number; met: boolean }> = {};
+      path.milestones.forEach(milestone => {
+        const met = valueOf(milestone.metHandle);
+        if (met !== undefined) {
+          milestones[milestone.id] = { target: numberOf(milestone.targetHandle) ?? 0, met: Boolean(met) };
+        }
+      });
+      const skillLevels: Record<number, number> = {};
+      path.skillLevels.forEach(level => {
+        const value = numberOf(level.handle);
+        if (value !== null) skillLevels[level.skillId] = value;
+      });
+      const impactRatings: Record<number, number> = {};
+      sharedRatings.forEach(rev => {
+        const rating = numberOf(rev.rating!.handle);
+        if (rating !== null) impactRatings[rev.revision] = rating;
+      });
+      const goalExceeded = valueOf(path.handles.goalExceeded);
       
-      const updatedPath = {
-        ...pathData,
-        status: "archived"
-      };
+      // Ladder results live on the ladder contract, which needs its own decryption permit
+      const pathReadiness = readiness[path.id] || [];
+      const pathSkillGaps = skillGaps[path.id] || [];
+      const ladder = pathReadiness.length + pathSkillGaps.length > 0 ? await getLadderReadOnly() : null;
+      const ladderValues = ladder
+        ? await userDecryptHandles(await ladder.getAddress(), signer, [
+            ...pathReadiness.flatMap(result => [result.readyHandle, result.unmetHandle]),
+            ...pathSkillGaps.flatMap(report => report.shortfallHandles)
+          ])
+        : {};
+      const readinessValues: Record<number, { ready: boolean; unmet: number }> = {};
+      pathReadiness.forEach(result => {
+        const ready = ladderValues[result.readyHandle.toLowerCase()];
+        if (ready !== undefined) {
+          readinessValues[result.jobRoleId] = {
+            ready: Boolean(ready),
+            unmet: Number(ladderValues[result.unmetHandle.toLowerCase()] ?? 0)
+          };
+        }
+      });
+      const skillGapValues: Record<number, number[]> = {};
+      pathSkillGaps.forEach(report => {
+        const shortfalls = report.shortfallHandles.map(handle => ladderValues[handle.toLowerCase()]);
+        if (shortfalls.every(value => value !== undefined)) {
+          skillGapValues[report.jobRoleId] = shortfalls.map(Number);
+        }
+      });
       
-      await contract.setData(
-        `career_path_${pathId}`, 
-        ethers.toUtf8Bytes(JSON.stringify(updatedPath))
-      );
+      setPrivateData(prev => ({
+        ...prev,
+        [path.id]: {
+          inputs: { skillLevel, learningHours, projectImpact, careerGoal },
+          growthScore: numberOf(path.handles.growthScore),
+          goalExceeded: goalExceeded === undefined ? null : Boolean(goalExceeded),
+          scenarioScores,
+          impactRatings,
+          milestones,
+          skillLevels,
+          readiness: readinessValues,
+          skillGaps: skillGapValues,
+          trajectory: path.trajectory.isCalculated ? {
+            periodScores: path.trajectory.periodHandles.map(h => numberOf(h) ?? 0),
+            goalPeriod: numberOf(path.trajectory.goalPeriodHandle) ?? 0
+          } : null
+        }
+      }));
       
       setTransactionStatus({
         visible: true,
         status: "success",
-        message: "Career path archived!"
+        message: "Decrypted in your browser, nothing was published on-chain"
       });
-      
-      await loadCareerPaths();
-      
       setTimeout(() => {
         setTransactionStatus({ visible: false, status: "pending", message: "" });
       }, 2000);
@@ -344,9 +1052,8 @@ const App: React.FC = () => {
       setTransactionStatus({
         visible: true,
         status: "error",
-        message: "Archive failed: " + (e.message || "Unknown error")
+        message: "Decryption failed: " + (e.message || "Unknown error")
       });
-      
       setTimeout(() => {
         setTransactionStatus({ visible: false, status: "pending", message: "" });
       }, 3000);
@@ -381,30 +1088,102 @@ const App: React.FC = () => {
   ];
 
   const renderGrowthChart = () => {
+    const projected = careerPaths
+      .filter(p => privateData[p.id]?.trajectory)
+      .map(p => ({ id: p.id, title: p.title, trajectory: privateData[p.id].trajectory! }))
+      .slice(0, 5);
+    
+    if (projected.length === 0) {
+      return (
+        <div className="growth-chart empty">
+          <p>Project a career trajectory and decrypt it to see its growth curve.</p>
+        </div>
+      );
+    }
+    
+    const periods = Math.max(...projected.map(p => p.trajectory.periodScores.length));
+    const data = {
+      labels: Array.from({ length: periods }, (_, i) => `Q${i + 1}`),
+      datasets: projected.map((path, index) => ({
+        label: path.title,
+        data: path.trajectory.periodScores,
+        borderColor: chartColors[index % chartColors.length],
+        backgroundColor: chartColors[index % chartColors.length],
+        tension: 0.3
+      }))
+    };
+    
     return (
       <div className="growth-chart">
-        <div className="chart-bars">
-          {careerPaths.slice(0, 5).map((path, index) => (
-            <div key={path.id} className="chart-bar-container">
-              <div 
-                className="chart-bar" 
-                style={{ height: `${path.growthScore}%` }}
-                title={`${path.title}: ${path.growthScore}%`}
-              ></div>
-              <div className="chart-label">{path.title.substring(0, 8)}</div>
-            </div>
+        <div className="growth-chart-canvas">
+          <Line
+            data={data}
+            options={{
+              maintainAspectRatio: false,
+              plugins: { legend: { position: "bottom" } },
+              scales: { y: { beginAtZero: true } }
+            }}
+          />
+        </div>
+        <div className="goal-periods">
+          {projected.map(path => (
+            <span key={path.id} className="goal-period">
+              {path.title}: {path.trajectory.goalPeriod > 0 ? `goal reached in Q${path.trajectory.goalPeriod}` : "goal not reached"}
+            </span>
           ))}
         </div>
-        <div className="chart-axis">
-          <div className="axis-label">100%</div>
-          <div className="axis-label">50%</div>
-          <div className="axis-label">0%</div>
+      </div>
+    );
+  };
+
+  // Bar chart of how far the path is from the role picked on its card, shown beside the growth score
+  const renderSkillGapChart = (path: CareerPath) => {
+    const jobRoleId = targetJobRole(path);
+    const report = (skillGaps[path.id] || []).find(gap => gap.jobRoleId === jobRoleId);
+    if (!report) return null;
+    
+    const jobRole = jobRoles.find(role => role.id === jobRoleId);
+    const shortfalls = privateData[path.id]?.skillGaps[jobRoleId];
+    const stale = report.revision !== path.latestRevision || report.jobRoleVersion !== jobRole?.version;
+    if (!shortfalls) {
+      return (
+        <div className="skill-gap empty">
+          <p>🔒 Skill gap to {jobRole?.name}</p>
+        </div>
+      );
+    }
+    
+    const data = {
+      labels: report.skillIds.map(id => skillTaxonomy.find(skill => skill.id === id)?.name || `Skill #${id}`),
+      datasets: [{
+        label: "Levels short",
+        data: shortfalls,
+        backgroundColor: shortfalls.map(gap => gap === 0 ? "#4caf50" : chartColors[0])
+      }]
+    };
+    
+    return (
+      <div className="skill-gap">
+        <h4>Skill gap to {jobRole?.name}{stale && <span className="readiness-stale"> · rev {report.revision}</span>}</h4>
+        <div className="skill-gap-canvas">
+          <Bar
+            data={data}
+            options={{
+              indexAxis: "y",
+              maintainAspectRatio: false,
+              plugins: { legend: { display: false } },
+              scales: { x: { beginAtZero: true, ticks: { precision: 0 } } }
+            }}
+          />
         </div>
       </div>
     );
   };
 
-  const filteredPaths = careerPaths.filter(path => 
+  const myPaths = careerPaths.filter(path => myPathIds.includes(path.id));
+  const sharedPaths = careerPaths.filter(path => publishedPathIds.includes(path.id));
+  const teamPaths: TeamPath[] = careerPaths.filter(path => reports.includes(path.owner.toLowerCase()));
+  const filteredPaths = myPaths.filter(path => 
     path.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
     path.skills.some(skill => skill.toLowerCase().includes(searchQuery.toLowerCase()))
   );
@@ -437,6 +1216,8 @@ const App: React.FC = () => {
           <button 
             onClick={() => setShowCreateModal(true)} 
             className="create-path-btn"
+            disabled={!!account && !isEmployee}
+            title={account && !isEmployee ? "Ask an HR admin for the employee role to create paths" : undefined}
           >
             + New Path
           </button>
@@ -475,6 +1256,14 @@ const App: React.FC = () => {
         >
           Community
         </button>
+        {canAdminister && (
+          <button 
+            className={activeTab === "admin" ? "nav-btn active" : "nav-btn"}
+            onClick={() => setActiveTab("admin")}
+          >
+            Admin
+          </button>
+        )}
       </nav>
       
       <div className="main-content">
@@ -544,6 +1333,18 @@ const App: React.FC = () => {
             <div className="section-header">
               <h2>My Career Paths</h2>
               <div className="header-actions">
+                <select
+                  className="model-select"
+                  value={selectedModelId}
+                  onChange={(e) => setSelectedModelId(Number(e.target.value))}
+                  title="Scoring model used for new simulations"
+                >
+                  {growthModels.map(model => (
+                    <option key={model.id} value={model.id}>
+                      {model.name} (v{model.version})
+                    </option>
+                  ))}
+                </select>
                 <button 
                   onClick={loadCareerPaths}
                   className="refresh-btn"
@@ -558,7 +1359,7 @@ const App: React.FC = () => {
               {filteredPaths.length === 0 ? (
                 <div className="no-paths">
                   <div className="no-paths-icon">📊</div>
-                  <p>No career paths found</p>
+                  <p>{account ? "No career paths found" : "Connect your wallet to see your career paths"}</p>
                   <button 
                     className="primary-btn"
                     onClick={() => setShowCreateModal(true)}
@@ -568,47 +1369,280 @@ const App: React.FC = () => {
                 </div>
               ) : (
                 filteredPaths.map(path => (
-                  <div className={`path-card ${path.status}`} key={path.id}>
+                  <div className={`path-card ${statusName(path.status)}`} key={path.id}>
                     <div className="path-header">
                       <h3>{path.title}</h3>
-                      <span className={`status-badge ${path.status}`}>
-                        {path.status}
+                      <span className={`status-badge ${statusName(path.status)}`}>
+                        {statusName(path.status)}
                       </span>
                     </div>
                     <div className="path-details">
                       <div className="growth-score">
-                        <div className="score-value">{path.growthScore}%</div>
+                        <div className="score-value">
+                          {privateData[path.id]?.growthScore != null ? `${privateData[path.id].growthScore}%` : "🔒"}
+                        </div>
                         <div className="score-label">Growth Score</div>
+                        {privateData[path.id]?.goalExceeded != null && (
+                          <div className={privateData[path.id].goalExceeded ? "goal-result met" : "goal-result"}>
+                            {privateData[path.id].goalExceeded ? "Beats goal" : "Below goal"}
+                          </div>
+                        )}
+                        {path.isSimulated && (
+                          <div className="score-model">
+                            {growthModels.find(m => m.id === path.modelId)?.name || `Model #${path.modelId}`} v{path.modelVersion} · rev {path.simulatedRevision}
+                            {path.managerRated && " · manager-rated impact"}
+                          </div>
+                        )}
                       </div>
+                      {isOwner(path.owner) && renderSkillGapChart(path)}
+                      {privateData[path.id] && (
+                        <div className="idp-values">
+                          <span>Skill {privateData[path.id].inputs.skillLevel}</span>
+                          <span>Hours {privateData[path.id].inputs.learningHours}</span>
+                          <span>Impact {privateData[path.id].inputs.projectImpact}</span>
+                          {privateData[path.id].impactRatings[path.latestRevision] !== undefined && (
+                            <span>Rated impact {privateData[path.id].impactRatings[path.latestRevision]}</span>
+                          )}
+                          <span>Goal {privateData[path.id].inputs.careerGoal}</span>
+                        </div>
+                      )}
                       <div className="path-skills">
                         <h4>Skills</h4>
                         <div className="skills-list">
-                          {path.skills.map((skill, index) => (
-                            <span key={index} className="skill-tag">{skill}</span>
+                          {path.skillLevels.map((level, index) => (
+                            <span key={level.skillId} className="skill-tag">
+                              {path.skills[index]}
+                              {privateData[path.id]?.skillLevels[level.skillId] !== undefined
+                                && ` ${privateData[path.id].skillLevels[level.skillId]}`}
+                            </span>
                           ))}
                         </div>
                       </div>
                     </div>
+                    <div className="revision-timeline">
+                      <h4>Revisions</h4>
+                      <div className="revision-list">
+                        {path.revisions.map(rev => (
+                          <button 
+                            key={rev.revision}
+                            className={rev.revision === targetRevision(path) ? "revision-item selected" : "revision-item"}
+                            onClick={() => setTargetRevisions(prev => ({ ...prev, [path.id]: rev.revision }))}
+                            title="Target this revision in simulations"
+                          >
+                            <span className="revision-number">
+                              r{rev.revision}{rev.rating && <span title="Project impact rated by the manager"> ★</span>}
+                            </span>
+                            <span className="revision-date">{new Date(rev.timestamp * 1000).toLocaleDateString()}</span>
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                    {path.scenarios.length > 0 && (
+                      <div className="scenario-comparison">
+                        <h4>What-if Scenarios</h4>
+                        <div className="scenario-grid">
+                          {path.scenarios.map(scenario => (
+                            <div key={scenario.id} className="scenario-item">
+                              <div className="scenario-score">
+                                {privateData[path.id]?.scenarioScores[scenario.id] !== undefined
+                                  ? `${privateData[path.id].scenarioScores[scenario.id]}%`
+                                  : "🔒"}
+                              </div>
+                              <div className="scenario-label">{scenario.label}</div>
+                            </div>
+                          ))}
+                        </div>
+                      </div>
+                    )}
+                    {path.milestones.length > 0 && (
+                      <div className="milestone-checklist">
+                        <h4>Milestones</h4>
+                        <ul className="milestone-list">
+                          {path.milestones.map(milestone => {
+                            const decrypted = privateData[path.id]?.milestones[milestone.id];
+                            const overdue = !decrypted?.met && milestone.dueDate * 1000 < Date.now();
+                            const stale = milestone.evaluatedRevision !== path.latestRevision || (
+                              milestone.metric === MilestoneMetric.ProjectImpact && !milestone.ratingApplied &&
+                              !!path.revisions.find(rev => rev.revision === path.latestRevision)?.rating?.shared
+                            );
+                            return (
+                              <li key={milestone.id} className={decrypted?.met ? "milestone-item met" : "milestone-item"}>
+                                <span className="milestone-check">{decrypted ? (decrypted.met ? "✅" : "⬜") : "🔒"}</span>
+                                <div className="milestone-info">
+                                  <span className="milestone-label">{milestone.label}</span>
+                                  <span className="milestone-meta">
+                                    {metricLabels[milestone.metric]} ≥ {decrypted ? decrypted.target : "🔒"} · rev {milestone.evaluatedRevision}
+                                  </span>
+                                </div>
+                                <span className={overdue ? "milestone-due overdue" : "milestone-due"}>
+                                  Due {new Date(milestone.dueDate * 1000).toLocaleDateString()}
+                                </span>
+                                {stale && isOwner(path.owner) && path.status !== IDPStatus.Archived && (
+                                  <button 
+                                    className="action-btn info"
+                                    onClick={() => evaluateMilestone(path, milestone.id)}
+                                    title="Check against the latest revision"
+                                  >
+                                    Re-check
+                                  </button>
+                                )}
+                              </li>
+                            );
+                          })}
+                        </ul>
+                      </div>
+                    )}
+                    {isOwner(path.owner) && jobRoles.length > 0 && (
+                      <div className="readiness-panel">
+                        <h4>Promotion Readiness</h4>
+                        <ul className="readiness-list">
+                          {(readiness[path.id] || []).map(result => {
+                            const jobRole = jobRoles.find(role => role.id === result.jobRoleId);
+                            const decrypted = privateData[path.id]?.readiness[result.jobRoleId];
+                            const stale = result.revision !== path.latestRevision || result.jobRoleVersion !== jobRole?.version;
+                            return (
+                              <li key={result.jobRoleId} className={decrypted?.ready ? "readiness-item ready" : "readiness-item"}>
+                                <span className="readiness-role">{jobRole?.name || `Role #${result.jobRoleId}`}</span>
+                                <span>
+                                  {decrypted
+                                    ? (decrypted.ready ? "✅ Ready" : `${decrypted.unmet} requirement${decrypted.unmet === 1 ? "" : "s"} unmet`)
+                                    : "🔒"}
+                                </span>
+                                {stale && (
+                                  <span className="readiness-stale" title="Checked against an older revision or older requirements">
+                                    rev {result.revision} · v{result.jobRoleVersion}
+                                  </span>
+                                )}
+                              </li>
+                            );
+                          })}
+                        </ul>
+                        {path.status !== IDPStatus.Archived && (
+                          <div className="readiness-check">
+                            <select
+                              className="form-input"
+                              value={targetJobRole(path)}
+                              onChange={e => setTargetJobRoles(prev => ({ ...prev, [path.id]: Number(e.target.value) }))}
+                            >
+                              {jobRoles.map(role => (
+                                <option key={role.id} value={role.id}>{role.name}</option>
+                              ))}
+                            </select>
+                            <button 
+                              className="action-btn info"
+                              onClick={() => checkReadiness(path)}
+                            >
+                              Check Readiness
+                            </button>
+                            <button 
+                              className="action-btn info"
+                              onClick={() => reportSkillGap(path)}
+                            >
+                              Skill Gap
+                            </button>
+                          </div>
+                        )}
+                      </div>
+                    )}
                     <div className="path-actions">
-                      {isOwner(path.owner) && path.status === "active" && (
+                      {isOwner(path.owner) && (
                         <>
+                          {/* The contract refuses to simulate archived paths */}
+                          {path.status !== IDPStatus.Archived && (
+                            <>
+                              {(!path.isSimulated || path.simulatedRevision !== targetRevision(path) || awaitsRatedRun(path)) && (
+                                <button 
+                                  className="action-btn success"
+                                  onClick={() => simulateGrowth(path)}
+                                >
+                                  Simulate Growth
+                                </button>
+                              )}
+                              <button 
+                                className="action-btn info"
+                                onClick={() => setScenarioPathId(path.id)}
+                              >
+                                What-if
+                              </button>
+                              <button 
+                                className="action-btn info"
+                                onClick={() => projectTrajectory(path)}
+                              >
+                                Project Trajectory
+                              </button>
+                              <button 
+                                className="action-btn info"
+                                onClick={() => setMilestonePathId(path.id)}
+                              >
+                                Add Milestone
+                              </button>
+                            </>
+                          )}
+                          <button 
+                            className="action-btn info"
+                            onClick={() => setRevisionPathId(path.id)}
+                          >
+                            New Revision
+                          </button>
                           <button 
-                            className="action-btn success"
-                            onClick={() => simulateGrowth(path.id)}
+                            className="action-btn info"
+                            onClick={() => setSkillsPathId(path.id)}
                           >
-                            Simulate Growth
+                            Update Skills
                           </button>
                           <button 
                             className="action-btn warning"
-                            onClick={() => archivePath(path.id)}
+                            onClick={() => decryptPath(path)}
+                            title="Decrypt with an EIP-712 signature; values stay in this browser"
+                          >
+                            Decrypt Privately
+                          </button>
+                          <button 
+                            className="action-btn"
+                            onClick={() => togglePublished(path)}
+                            title="Shared paths list that this IDP exists; its values stay encrypted"
                           >
-                            Archive
+                            {publishedPathIds.includes(path.id) ? "Unpublish" : "Share"}
                           </button>
+                          {path.status === IDPStatus.Draft && (
+                            <button 
+                              className="action-btn success"
+                              onClick={() => changeStatus(path, "activateIDP", "activated")}
+                            >
+                              Activate
+                            </button>
+                          )}
+                          {path.status === IDPStatus.Active && (
+                            <button 
+                              className="action-btn success"
+                              onClick={() => changeStatus(path, "completeIDP", "completed")}
+                            >
+                              Mark Completed
+                            </button>
+                          )}
+                          {(path.status === IDPStatus.Completed || path.status === IDPStatus.Archived) && (
+                            <button 
+                              className="action-btn info"
+                              onClick={() => changeStatus(path, "reactivateIDP", "reactivated")}
+                            >
+                              Reactivate
+                            </button>
+                          )}
+                          {path.status !== IDPStatus.Archived && (
+                            <button 
+                              className="action-btn"
+                              onClick={() => changeStatus(path, "archiveIDP", "archived")}
+                              title="Archived paths keep their history but cannot be simulated"
+                            >
+                              Archive
+                            </button>
+                          )}
                         </>
                       )}
                     </div>
                     <div className="path-footer">
                       <span>Created: {new Date(path.timestamp * 1000).toLocaleDateString()}</span>
+                      {path.cohortId !== 0 && <span>{cohortName(path.cohortId)}</span>}
                       <span>By: {path.owner.substring(0, 6)}...{path.owner.substring(38)}</span>
                     </div>
                   </div>
@@ -623,10 +1657,77 @@ const App: React.FC = () => {
             <h2>Career Analytics</h2>
             <div className="analytics-content">
               <div className="analytics-card">
-                <h3>Skill Distribution</h3>
-                <div className="skill-cloud">
-                  {Array.from(new Set(careerPaths.flatMap(p => p.skills))).map(skill => (
-                    <span key={skill} className="skill-cloud-item">{skill}</span>
+                <h3>Cohort Aggregates</h3>
+                <select
+                  className="model-select"
+                  value={selectedCohortId}
+                  onChange={(e) => setSelectedCohortId(Number(e.target.value))}
+                >
+                  {[0, ...cohorts.map(c => c.id)].map(cohortId => (
+                    <option key={cohortId} value={cohortId}>{cohortName(cohortId)}</option>
+                  ))}
+                </select>
+                {selectedAggregates && (
+                  <div className="aggregate-panel">
+                    <p className="aggregate-members">
+                      {selectedAggregates.memberCount} employees in cohort (minimum {minCohortSize} to decrypt)
+                    </p>
+                    {selectedAggregates.snapshot && selectedTotals ? (
+                      <div className="aggregate-stats">
+                        <div className="aggregate-stat">
+                          <span className="aggregate-value">{selectedTotals.totalLearningHours}</span>
+                          <span className="aggregate-label">Learning hours</span>
+                        </div>
+                        <div className="aggregate-stat">
+                          <span className="aggregate-value">{selectedTotals.totalProjectImpact}</span>
+                          <span className="aggregate-label">Project impact</span>
+                        </div>
+                        <div className="aggregate-stat">
+                          <span className="aggregate-value">
+                            {selectedTotals.goalsExceeded}/{selectedAggregates.snapshot.memberCount}
+                          </span>
+                          <span className="aggregate-label">Beating their goal</span>
+                        </div>
+                      </div>
+                    ) : (
+                      <p className="aggregate-members">🔒 Not decrypted yet</p>
+                    )}
+                    {selectedAggregates.snapshot && (
+                      <p className="aggregate-updated">
+                        As of {new Date(selectedAggregates.snapshot.timestamp * 1000).toLocaleString()}, requested by{" "}
+                        {isOwner(selectedAggregates.snapshot.requester) ? "you" : "another HR admin"},{" "}
+                        {selectedAggregates.changedMembers} employees changed since
+                        (minimum {minCohortSize} for a new snapshot)
+                      </p>
+                    )}
+                    {selectedAggregates.snapshot && !selectedTotals && isOwner(selectedAggregates.snapshot.requester) && (
+                      <button 
+                        className="action-btn"
+                        onClick={() => decryptAggregates(selectedCohortId)}
+                      >
+                        Decrypt Snapshot
+                      </button>
+                    )}
+                    {isHRAdmin && (
+                      <button 
+                        className="action-btn success"
+                        onClick={requestAggregateAccess}
+                        disabled={
+                          selectedAggregates.memberCount < minCohortSize ||
+                          (selectedAggregates.snapshot !== null && selectedAggregates.changedMembers < minCohortSize)
+                        }
+                      >
+                        Take Snapshot
+                      </button>
+                    )}
+                  </div>
+                )}
+              </div>
+              <div className="analytics-card">
+                <h3>Skill Distribution</h3>
+                <div className="skill-cloud">
+                  {Array.from(new Set(careerPaths.flatMap(p => p.skills))).map(skill => (
+                    <span key={skill} className="skill-cloud-item">{skill}</span>
                   ))}
                 </div>
               </div>
@@ -638,7 +1739,7 @@ const App: React.FC = () => {
                       <div className="timeline-marker"></div>
                       <div className="timeline-content">
                         <h4>{path.title}</h4>
-                        <p>Score: {path.growthScore}%</p>
+                        <p>Score: {privateData[path.id]?.growthScore != null ? `${privateData[path.id].growthScore}%` : "🔒"}</p>
                         <p>{new Date(path.timestamp * 1000).toLocaleDateString()}</p>
                       </div>
                     </div>
@@ -653,6 +1754,25 @@ const App: React.FC = () => {
           <div className="community-section">
             <h2>Career Community</h2>
             <div className="community-content">
+              <div className="community-card">
+                <h3>Shared Career Paths</h3>
+                <p>Paths their owners chose to publish. Their values stay encrypted for everyone else.</p>
+                {sharedPaths.length === 0 ? (
+                  <p className="no-shared-paths">No paths have been shared yet.</p>
+                ) : (
+                  <div className="shared-path-list">
+                    {sharedPaths.map(path => (
+                      <div className="shared-path" key={path.id}>
+                        <span className="shared-path-title">{path.title}</span>
+                        <span>r{path.latestRevision}</span>
+                        <span>{path.isSimulated ? "Simulated" : "Not simulated"}</span>
+                        {path.cohortId !== 0 && <span>{cohortName(path.cohortId)}</span>}
+                        <span>By: {path.owner.substring(0, 6)}...{path.owner.substring(38)}</span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
               <div className="community-card">
                 <h3>Success Stories</h3>
                 <p>Read how others have used FHE-powered career simulations to advance their professional journey.</p>
@@ -666,6 +1786,32 @@ const App: React.FC = () => {
             </div>
           </div>
         )}
+        
+        {activeTab === "admin" && canAdminister && (
+          <AdminConsole
+            account={account}
+            accountRoles={accountRoles}
+            roleMembers={roleMembers}
+            managerAssignments={managerAssignments}
+            teamPaths={teamPaths}
+            cohorts={cohorts}
+            minCohortSize={minCohortSize}
+            growthModels={growthModels}
+            skills={skillTaxonomy}
+            jobRoles={jobRoles}
+            onGrantRole={grantRole}
+            onRevokeRole={revokeRole}
+            onAssignManager={assignManager}
+            onRateImpact={rateImpact}
+            onShareRating={shareRating}
+            onRegisterCohort={registerCohort}
+            onSetMinCohortSize={updateMinCohortSize}
+            onSaveModel={saveGrowthModel}
+            onRegisterSkill={registerSkill}
+            onUpdateSkillWeight={updateSkillWeight}
+            onSaveJobRole={saveJobRole}
+          />
+        )}
       </div>
   
       {showCreateModal && (
@@ -675,6 +1821,45 @@ const App: React.FC = () => {
           creating={creating}
           pathData={newCareerPath}
           setPathData={setNewCareerPath}
+          cohorts={cohorts}
+          skills={skillTaxonomy}
+        />
+      )}
+      
+      {revisionPathId && (
+        <ModalRevision 
+          onSubmit={submitRevision} 
+          onClose={() => setRevisionPathId(null)} 
+          revisionData={newRevision}
+          setRevisionData={setNewRevision}
+        />
+      )}
+      
+      {skillsPathId && (
+        <ModalSkills 
+          onSubmit={submitSkillLevels} 
+          onClose={() => setSkillsPathId(null)} 
+          skills={skillTaxonomy}
+          levels={newSkillLevels}
+          setLevels={setNewSkillLevels}
+        />
+      )}
+      
+      {scenarioPathId && (
+        <ModalScenario 
+          onSubmit={runScenario} 
+          onClose={() => setScenarioPathId(null)} 
+          scenarioData={newScenario}
+          setScenarioData={setNewScenario}
+        />
+      )}
+      
+      {milestonePathId && (
+        <ModalMilestone 
+          onSubmit={addMilestone} 
+          onClose={() => setMilestonePathId(null)} 
+          milestoneData={newMilestone}
+          setMilestoneData={setNewMilestone}
         />
       )}
       
@@ -738,6 +1923,8 @@ interface ModalCreateProps {
   creating: boolean;
   pathData: any;
   setPathData: (data: any) => void;
+  cohorts: Cohort[];
+  skills: Skill[];
 }
 
 const ModalCreate: React.FC<ModalCreateProps> = ({ 
@@ -745,9 +1932,11 @@ const ModalCreate: React.FC<ModalCreateProps> = ({
   onClose, 
   creating,
   pathData,
-  setPathData
+  setPathData,
+  cohorts,
+  skills
 }) => {
-  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
     const { name, value } = e.target;
     setPathData({
       ...pathData,
@@ -756,10 +1945,15 @@ const ModalCreate: React.FC<ModalCreateProps> = ({
   };
 
   const handleSubmit = () => {
-    if (!pathData.title || !pathData.skills) {
+    if (!pathData.title || 
+        [pathData.learningHours, pathData.projectImpact, pathData.careerGoal].some(v => v === "")) {
       alert("Please fill required fields");
       return;
     }
+    if (!Object.values(pathData.skillLevels).some(v => v !== "")) {
+      alert("Please rate at least one skill");
+      return;
+    }
     
     onSubmit();
   };
@@ -790,18 +1984,66 @@ const ModalCreate: React.FC<ModalCreateProps> = ({
               />
             </div>
             
+            <SkillLevelFields
+              skills={skills}
+              levels={pathData.skillLevels}
+              setLevels={skillLevels => setPathData({ ...pathData, skillLevels })}
+            />
+            
             <div className="form-group">
-              <label>Skills (comma separated) *</label>
+              <label>Planned Learning Hours *</label>
               <input 
-                type="text"
-                name="skills"
-                value={pathData.skills} 
+                type="number"
+                name="learningHours"
+                min={0}
+                value={pathData.learningHours} 
+                onChange={handleChange}
+                placeholder="e.g., 40" 
+                className="form-input"
+              />
+            </div>
+            
+            <div className="form-group">
+              <label>Project Impact *</label>
+              <input 
+                type="number"
+                name="projectImpact"
+                min={0}
+                value={pathData.projectImpact} 
                 onChange={handleChange}
-                placeholder="e.g., React, Node.js, Leadership" 
+                placeholder="e.g., 70" 
                 className="form-input"
               />
             </div>
             
+            <div className="form-group">
+              <label>Career Goal Level *</label>
+              <input 
+                type="number"
+                name="careerGoal"
+                min={0}
+                value={pathData.careerGoal} 
+                onChange={handleChange}
+                placeholder="e.g., 80" 
+                className="form-input"
+              />
+            </div>
+            
+            <div className="form-group">
+              <label>Department / Cohort</label>
+              <select
+                name="cohortId"
+                value={pathData.cohortId}
+                onChange={handleChange}
+                className="form-input"
+              >
+                <option value="0">None</option>
+                {cohorts.map(cohort => (
+                  <option key={cohort.id} value={cohort.id}>{cohort.name}</option>
+                ))}
+              </select>
+            </div>
+            
             <div className="form-group full-width">
               <label>Description</label>
               <textarea 
@@ -840,4 +2082,418 @@ const ModalCreate: React.FC<ModalCreateProps> = ({
   );
 };
 
-export default App;
\ No newline at end of file
+interface ModalRevisionProps {
+  onSubmit: () => void; 
+  onClose: () => void; 
+  revisionData: typeof emptyRevision;
+  setRevisionData: (data: typeof emptyRevision) => void;
+}
+
+const ModalRevision: React.FC<ModalRevisionProps> = ({ 
+  onSubmit, 
+  onClose, 
+  revisionData,
+  setRevisionData
+}) => {
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setRevisionData({
+      ...revisionData,
+      [name]: value
+    });
+  };
+
+  const handleSubmit = () => {
+    if (Object.values(revisionData).some(v => v === "")) {
+      alert("Please fill required fields");
+      return;
+    }
+    
+    onSubmit();
+  };
+
+  return (
+    <div className="modal-overlay">
+      <div className="create-modal">
+        <div className="modal-header">
+          <h2>New IDP Revision</h2>
+          <button onClick={onClose} className="close-modal">&times;</button>
+        </div>
+        
+        <div className="modal-body">
+          <div className="fhe-notice">
+            <div className="key-icon">🔒</div> The revision is encrypted and appended; earlier revisions are kept
+          </div>
+          
+          <div className="form-grid">
+            <div className="form-group">
+              <label>Planned Learning Hours *</label>
+              <input 
+                type="number"
+                name="learningHours"
+                min={0}
+                value={revisionData.learningHours} 
+                onChange={handleChange}
+                className="form-input"
+              />
+            </div>
+            
+            <div className="form-group">
+              <label>Project Impact *</label>
+              <input 
+                type="number"
+                name="projectImpact"
+                min={0}
+                value={revisionData.projectImpact} 
+                onChange={handleChange}
+                className="form-input"
+              />
+            </div>
+            
+            <div className="form-group">
+              <label>Career Goal Level *</label>
+              <input 
+                type="number"
+                name="careerGoal"
+                min={0}
+                value={revisionData.careerGoal} 
+                onChange={handleChange}
+                className="form-input"
+              />
+            </div>
+          </div>
+        </div>
+        
+        <div className="modal-footer">
+          <button 
+            onClick={onClose}
+            className="cancel-btn"
+          >
+            Cancel
+          </button>
+          <button 
+            onClick={handleSubmit} 
+            className="submit-btn primary"
+          >
+            Save Revision
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+interface SkillLevelFieldsProps {
+  skills: Skill[];
+  levels: Record<string, string>;
+  setLevels: (levels: Record<string, string>) => void;
+}
+
+// One level input per taxonomy skill; blank skills are left out of the transaction
+const SkillLevelFields: React.FC<SkillLevelFieldsProps> = ({ skills, levels, setLevels }) => (
+  <>
+    {skills.map(skill => (
+      <div className="form-group" key={skill.id}>
+        <label>{skill.name} Level</label>
+        <input 
+          type="number"
+          min={0}
+          value={levels[skill.id] ?? ""} 
+          onChange={e => setLevels({ ...levels, [skill.id]: e.target.value })}
+          placeholder="Not assessed"
+          className="form-input"
+        />
+      </div>
+    ))}
+  </>
+);
+
+interface ModalSkillsProps {
+  onSubmit: () => void; 
+  onClose: () => void; 
+  skills: Skill[];
+  levels: Record<string, string>;
+  setLevels: (levels: Record<string, string>) => void;
+}
+
+const ModalSkills: React.FC<ModalSkillsProps> = ({ 
+  onSubmit, 
+  onClose, 
+  skills,
+  levels,
+  setLevels
+}) => {
+  const handleSubmit = () => {
+    if (!Object.values(levels).some(v => v !== "")) {
+      alert("Please enter at least one skill level");
+      return;
+    }
+    
+    onSubmit();
+  };
+
+  return (
+    <div className="modal-overlay">
+      <div className="create-modal">
+        <div className="modal-header">
+          <h2>Update Skills</h2>
+          <button onClick={onClose} className="close-modal">&times;</button>
+        </div>
+        
+        <div className="modal-body">
+          <div className="fhe-notice">
+            <div className="key-icon">🔒</div> Only the skills you fill in change; a new revision records the weighted skill level
+          </div>
+          
+          <div className="form-grid">
+            <SkillLevelFields skills={skills} levels={levels} setLevels={setLevels} />
+          </div>
+        </div>
+        
+        <div className="modal-footer">
+          <button 
+            onClick={onClose}
+            className="cancel-btn"
+          >
+            Cancel
+          </button>
+          <button 
+            onClick={handleSubmit} 
+            className="submit-btn primary"
+          >
+            Save Skills
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+interface ModalScenarioProps {
+  onSubmit: () => void; 
+  onClose: () => void; 
+  scenarioData: typeof emptyScenario;
+  setScenarioData: (data: typeof emptyScenario) => void;
+}
+
+const ModalScenario: React.FC<ModalScenarioProps> = ({ 
+  onSubmit, 
+  onClose, 
+  scenarioData,
+  setScenarioData
+}) => {
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setScenarioData({
+      ...scenarioData,
+      [name]: value
+    });
+  };
+
+  const handleSubmit = () => {
+    if (!scenarioData.label) {
+      alert("Please name the scenario");
+      return;
+    }
+    
+    onSubmit();
+  };
+
+  return (
+    <div className="modal-overlay">
+      <div className="create-modal">
+        <div className="modal-header">
+          <h2>What-if Scenario</h2>
+          <button onClick={onClose} className="close-modal">&times;</button>
+        </div>
+        
+        <div className="modal-body">
+          <div className="fhe-notice">
+            <div className="key-icon">🔒</div> Scenario changes are encrypted and applied to your IDP on ciphertexts
+          </div>
+          
+          <div className="form-grid">
+            <div className="form-group full-width">
+              <label>Scenario *</label>
+              <input 
+                type="text"
+                name="label"
+                value={scenarioData.label} 
+                onChange={handleChange}
+                placeholder="e.g., Leadership, Technical depth, Role transition" 
+                className="form-input"
+              />
+            </div>
+            
+            <div className="form-group">
+              <label>Extra Skill Level</label>
+              <input 
+                type="number"
+                name="skillLevelDelta"
+                min={0}
+                value={scenarioData.skillLevelDelta} 
+                onChange={handleChange}
+                className="form-input"
+              />
+            </div>
+            
+            <div className="form-group">
+              <label>Extra Learning Hours</label>
+              <input 
+                type="number"
+                name="learningHoursDelta"
+                min={0}
+                value={scenarioData.learningHoursDelta} 
+                onChange={handleChange}
+                className="form-input"
+              />
+            </div>
+            
+            <div className="form-group">
+              <label>Extra Project Impact</label>
+              <input 
+                type="number"
+                name="projectImpactDelta"
+                min={0}
+                value={scenarioData.projectImpactDelta} 
+                onChange={handleChange}
+                className="form-input"
+              />
+            </div>
+          </div>
+        </div>
+        
+        <div className="modal-footer">
+          <button 
+            onClick={onClose}
+            className="cancel-btn"
+          >
+            Cancel
+          </button>
+          <button 
+            onClick={handleSubmit} 
+            className="submit-btn primary"
+          >
+            Run Scenario
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+interface ModalMilestoneProps {
+  onSubmit: () => void; 
+  onClose: () => void; 
+  milestoneData: typeof emptyMilestone;
+  setMilestoneData: (data: typeof emptyMilestone) => void;
+}
+
+const ModalMilestone: React.FC<ModalMilestoneProps> = ({ 
+  onSubmit, 
+  onClose, 
+  milestoneData,
+  setMilestoneData
+}) => {
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value } = e.target;
+    setMilestoneData({
+      ...milestoneData,
+      [name]: value
+    });
+  };
+
+  const handleSubmit = () => {
+    if (!milestoneData.label || !milestoneData.target || !milestoneData.dueDate) {
+      alert("Please fill the milestone, its target and due date");
+      return;
+    }
+    
+    onSubmit();
+  };
+
+  return (
+    <div className="modal-overlay">
+      <div className="create-modal">
+        <div className="modal-header">
+          <h2>New Milestone</h2>
+          <button onClick={onClose} className="close-modal">&times;</button>
+        </div>
+        
+        <div className="modal-body">
+          <div className="fhe-notice">
+            <div className="key-icon">🔒</div> The target is encrypted; only the milestone name and due date are public
+          </div>
+          
+          <div className="form-grid">
+            <div className="form-group full-width">
+              <label>Milestone *</label>
+              <input 
+                type="text"
+                name="label"
+                value={milestoneData.label} 
+                onChange={handleChange}
+                placeholder="e.g., Cloud certification, Promotion readiness" 
+                className="form-input"
+              />
+            </div>
+            
+            <div className="form-group">
+              <label>Measured On</label>
+              <select
+                name="metric"
+                value={milestoneData.metric}
+                onChange={handleChange}
+                className="form-input"
+              >
+                {Object.entries(metricLabels).map(([metric, label]) => (
+                  <option key={metric} value={metric}>{label}</option>
+                ))}
+              </select>
+            </div>
+            
+            <div className="form-group">
+              <label>Target *</label>
+              <input 
+                type="number"
+                name="target"
+                min={0}
+                value={milestoneData.target} 
+                onChange={handleChange}
+                className="form-input"
+              />
+            </div>
+            
+            <div className="form-group">
+              <label>Due Date *</label>
+              <input 
+                type="date"
+                name="dueDate"
+                value={milestoneData.dueDate} 
+                onChange={handleChange}
+                className="form-input"
+              />
+            </div>
+          </div>
+        </div>
+        
+        <div className="modal-footer">
+          <button 
+            onClick={onClose}
+            className="cancel-btn"
+          >
+            Cancel
+          </button>
+          <button 
+            onClick={handleSubmit} 
+            className="submit-btn primary"
+          >
+            Add Milestone
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default App;
@@ -0,0 +1,596 @@
+// AdminConsole.tsx
+// Role management and contract configuration. Every action is re-checked on-chain,
+// so hiding controls here is only a convenience.
+import React, { useState } from "react";
+import { ethers } from "ethers";
+import { ROLES, Role, roleLabels } from "../roles";
+import type { IDPRevision } from "../indexer";
+
+export interface ModelWeights {
+  skillWeight: number;
+  learningHoursWeight: number;
+  projectImpactWeight: number;
+  divisor: number;
+}
+
+// Plaintext minimums of a career ladder role; 0 leaves a metric unconstrained
+export interface JobRoleRequirements {
+  skillLevel: number;
+  learningHours: number;
+  projectImpact: number;
+  // Minimum level by skill id
+  skills: Record<number, number>;
+}
+
+export interface JobRole {
+  id: number;
+  name: string;
+  // Position on the ladder, higher is more senior
+  rank: number;
+  version: number;
+  requirements: JobRoleRequirements;
+}
+
+// An IDP owned by one of the connected manager's reports
+export interface TeamPath {
+  id: string;
+  title: string;
+  owner: string;
+  revisions: IDPRevision[];
+}
+
+interface AdminConsoleProps {
+  account: string;
+  accountRoles: Role[];
+  roleMembers: Record<Role, string[]>;
+  // Employee address (lowercase) => assigned manager
+  managerAssignments: Record<string, string>;
+  teamPaths: TeamPath[];
+  cohorts: { id: number; name: string }[];
+  minCohortSize: number;
+  growthModels: { id: number; name: string; version: number }[];
+  skills: { id: number; name: string; weight: number }[];
+  jobRoles: JobRole[];
+  onGrantRole: (role: Role, account: string) => void;
+  onRevokeRole: (role: Role, account: string) => void;
+  // An empty manager unassigns the employee
+  onAssignManager: (employee: string, manager: string) => void;
+  onRateImpact: (pathId: string, revision: number, rating: number) => void;
+  onShareRating: (pathId: string, revision: number) => void;
+  onRegisterCohort: (name: string) => void;
+  onSetMinCohortSize: (size: number) => void;
+  // A null model id registers a new model, otherwise the weights become its next version
+  onSaveModel: (modelId: number | null, name: string, weights: ModelWeights) => void;
+  onRegisterSkill: (name: string, weight: number) => void;
+  onUpdateSkillWeight: (skillId: number, weight: number) => void;
+  // A null job role id registers a new role, otherwise its requirements are replaced
+  onSaveJobRole: (jobRoleId: number | null, name: string, rank: number, requirements: JobRoleRequirements) => void;
+}
+
+const emptyWeights = {
+  skillWeight: "",
+  learningHoursWeight: "",
+  projectImpactWeight: "",
+  divisor: ""
+};
+
+const emptyJobRole = {
+  name: "",
+  rank: "",
+  skillLevel: "",
+  learningHours: "",
+  projectImpact: "",
+  // Minimum level by skill id, blank when the skill is not required
+  skills: {} as Record<string, string>
+};
+
+const shortAddress = (address: string) => `${address.substring(0, 6)}...${address.substring(38)}`;
+
+export default function AdminConsole({
+  account,
+  accountRoles,
+  roleMembers,
+  managerAssignments,
+  teamPaths,
+  cohorts,
+  minCohortSize,
+  growthModels,
+  skills,
+  jobRoles,
+  onGrantRole,
+  onRevokeRole,
+  onAssignManager,
+  onRateImpact,
+  onShareRating,
+  onRegisterCohort,
+  onSetMinCohortSize,
+  onSaveModel,
+  onRegisterSkill,
+  onUpdateSkillWeight,
+  onSaveJobRole
+}: AdminConsoleProps) {
+  const [grantRole, setGrantRole] = useState(Role.Employee);
+  const [grantAccount, setGrantAccount] = useState("");
+  const [assignEmployee, setAssignEmployee] = useState("");
+  const [assignManager, setAssignManager] = useState("");
+  // Draft ratings keyed by path id, applied to the revision picked for that path
+  const [ratingDrafts, setRatingDrafts] = useState<Record<string, { revision: string; rating: string }>>({});
+  const [cohortName, setCohortName] = useState("");
+  const [cohortSize, setCohortSize] = useState("");
+  const [modelId, setModelId] = useState("new");
+  const [modelName, setModelName] = useState("");
+  const [weights, setWeights] = useState(emptyWeights);
+  const [skillId, setSkillId] = useState("new");
+  const [skillName, setSkillName] = useState("");
+  const [skillWeight, setSkillWeight] = useState("");
+  const [jobRoleId, setJobRoleId] = useState("new");
+  const [jobRole, setJobRole] = useState(emptyJobRole);
+
+  const isHRAdmin = accountRoles.includes(Role.HRAdmin);
+  const isManager = accountRoles.includes(Role.Manager);
+
+  const submitGrant = () => {
+    if (!ethers.isAddress(grantAccount)) {
+      alert("Please enter a valid address");
+      return;
+    }
+    onGrantRole(grantRole, grantAccount);
+    setGrantAccount("");
+  };
+
+  const submitAssignment = () => {
+    if (!assignEmployee) return;
+    onAssignManager(assignEmployee, assignManager);
+  };
+
+  const submitRating = (path: TeamPath) => {
+    const draft = ratingDrafts[path.id];
+    const revision = Number(draft?.revision || path.revisions.length);
+    if (!draft?.rating) {
+      alert("Please enter a rating");
+      return;
+    }
+    onRateImpact(path.id, revision, Number(draft.rating));
+    setRatingDrafts(prev => {
+      const { [path.id]: _, ...rest } = prev;
+      return rest;
+    });
+  };
+
+  const updateDraft = (pathId: string, field: "revision" | "rating", value: string) => {
+    setRatingDrafts(prev => ({
+      ...prev,
+      [pathId]: { ...(prev[pathId] ?? { revision: "", rating: "" }), [field]: value }
+    }));
+  };
+
+  const submitCohort = () => {
+    if (!cohortName.trim()) return;
+    onRegisterCohort(cohortName.trim());
+    setCohortName("");
+  };
+
+  const submitCohortSize = () => {
+    const size = Number(cohortSize);
+    if (!Number.isInteger(size) || size < 1) {
+      alert("The minimum cohort size must be a positive whole number");
+      return;
+    }
+    onSetMinCohortSize(size);
+    setCohortSize("");
+  };
+
+  const submitModel = () => {
+    const values = {
+      skillWeight: Number(weights.skillWeight),
+      learningHoursWeight: Number(weights.learningHoursWeight),
+      projectImpactWeight: Number(weights.projectImpactWeight),
+      divisor: Number(weights.divisor)
+    };
+    if (Object.values(weights).some(w => w === "") || values.divisor === 0) {
+      alert("Please fill every weight and a non-zero divisor");
+      return;
+    }
+    if (modelId === "new" && !modelName.trim()) {
+      alert("Please name the model");
+      return;
+    }
+    onSaveModel(modelId === "new" ? null : Number(modelId), modelName.trim(), values);
+    setModelName("");
+    setWeights(emptyWeights);
+  };
+
+  const submitSkill = () => {
+    const weight = Number(skillWeight);
+    if (!Number.isInteger(weight) || weight < 1) {
+      alert("The skill weight must be a positive whole number");
+      return;
+    }
+    if (skillId === "new") {
+      if (!skillName.trim()) {
+        alert("Please name the skill");
+        return;
+      }
+      onRegisterSkill(skillName.trim(), weight);
+    } else {
+      onUpdateSkillWeight(Number(skillId), weight);
+    }
+    setSkillName("");
+    setSkillWeight("");
+  };
+
+  // Editing an existing role starts from its current requirements
+  const selectJobRole = (value: string) => {
+    setJobRoleId(value);
+    const existing = jobRoles.find(role => role.id === Number(value));
+    if (!existing) {
+      setJobRole(emptyJobRole);
+      return;
+    }
+    const { requirements } = existing;
+    setJobRole({
+      name: existing.name,
+      rank: String(existing.rank),
+      skillLevel: String(requirements.skillLevel),
+      learningHours: String(requirements.learningHours),
+      projectImpact: String(requirements.projectImpact),
+      skills: Object.fromEntries(Object.entries(requirements.skills).map(([id, level]) => [id, String(level)]))
+    });
+  };
+
+  const submitJobRole = () => {
+    if (jobRoleId === "new" && (!jobRole.name.trim() || jobRole.rank === "")) {
+      alert("Please name the role and give its rank");
+      return;
+    }
+    const requiredSkills: Record<number, number> = {};
+    Object.entries(jobRole.skills).forEach(([id, level]) => {
+      if (level !== "") requiredSkills[Number(id)] = Number(level);
+    });
+    onSaveJobRole(jobRoleId === "new" ? null : Number(jobRoleId), jobRole.name.trim(), Number(jobRole.rank), {
+      skillLevel: Number(jobRole.skillLevel),
+      learningHours: Number(jobRole.learningHours),
+      projectImpact: Number(jobRole.projectImpact),
+      skills: requiredSkills
+    });
+    setJobRoleId("new");
+    setJobRole(emptyJobRole);
+  };
+
+  const handleJobRoleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setJobRole({ ...jobRole, [name]: value });
+  };
+
+  const handleWeightChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setWeights({ ...weights, [name]: value });
+  };
+
+  return (
+    <div className="admin-section">
+      <h2>Admin Console</h2>
+      <div className="admin-content">
+        <div className="admin-card">
+          <h3>Your Roles</h3>
+          <div className="role-tags">
+            {accountRoles.map(role => (
+              <span key={role} className="skill-tag">{roleLabels[role]}</span>
+            ))}
+          </div>
+        </div>
+
+        {isManager && (
+          <div className="admin-card">
+            <h3>Team Impact Ratings</h3>
+            <p className="admin-note">
+              Ratings are encrypted and take effect only once you share them. Until then, simulations,
+              readiness checks and milestones keep using the employee's self-reported project impact.
+            </p>
+            {teamPaths.length === 0 ? (
+              <p className="admin-note">None of your reports have a career path yet.</p>
+            ) : (
+              teamPaths.map(path => (
+                <div key={path.id} className="role-group">
+                  <h4>{path.title} · {shortAddress(path.owner)}</h4>
+                  <ul className="role-member-list">
+                    {path.revisions.filter(rev => rev.rating).map(rev => (
+                      <li key={rev.revision} className="role-member">
+                        <span>r{rev.revision} rated {new Date(rev.rating!.timestamp * 1000).toLocaleDateString()}</span>
+                        {rev.rating!.shared ? (
+                          <span>Shared</span>
+                        ) : rev.rating!.manager.toLowerCase() === account.toLowerCase() && (
+                          <button className="action-btn" onClick={() => onShareRating(path.id, rev.revision)}>
+                            Share
+                          </button>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                  <div className="admin-form">
+                    <select
+                      className="form-input"
+                      value={ratingDrafts[path.id]?.revision || String(path.revisions.length)}
+                      onChange={e => updateDraft(path.id, "revision", e.target.value)}
+                    >
+                      {path.revisions.map(rev => (
+                        <option key={rev.revision} value={rev.revision}>Revision {rev.revision}</option>
+                      ))}
+                    </select>
+                    <input
+                      type="number"
+                      min={0}
+                      className="form-input"
+                      placeholder="Project impact"
+                      value={ratingDrafts[path.id]?.rating || ""}
+                      onChange={e => updateDraft(path.id, "rating", e.target.value)}
+                    />
+                    <button className="action-btn success" onClick={() => submitRating(path)}>Rate</button>
+                  </div>
+                </div>
+              ))
+            )}
+          </div>
+        )}
+
+        {isHRAdmin && (
+          <>
+            <div className="admin-card">
+              <h3>Role Holders</h3>
+              {ROLES.map(role => (
+                <div key={role} className="role-group">
+                  <h4>{roleLabels[role]}s</h4>
+                  {roleMembers[role].length === 0 ? (
+                    <p className="admin-note">Nobody yet</p>
+                  ) : (
+                    <ul className="role-member-list">
+                      {roleMembers[role].map(member => (
+                        <li key={member} className="role-member">
+                          <span title={member}>
+                            {shortAddress(member)}
+                            {role === Role.Employee && managerAssignments[member.toLowerCase()]
+                              && ` → ${shortAddress(managerAssignments[member.toLowerCase()])}`}
+                          </span>
+                          {!(role === Role.HRAdmin && member.toLowerCase() === account.toLowerCase()) && (
+                            <button className="action-btn" onClick={() => onRevokeRole(role, member)}>
+                              Revoke
+                            </button>
+                          )}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              ))}
+              <div className="admin-form">
+                <select
+                  className="form-input"
+                  value={grantRole}
+                  onChange={e => setGrantRole(Number(e.target.value) as Role)}
+                >
+                  {ROLES.map(role => (
+                    <option key={role} value={role}>{roleLabels[role]}</option>
+                  ))}
+                </select>
+                <input
+                  type="text"
+                  className="form-input"
+                  placeholder="0x..."
+                  value={grantAccount}
+                  onChange={e => setGrantAccount(e.target.value)}
+                />
+                <button className="action-btn success" onClick={submitGrant}>Grant</button>
+              </div>
+              <h4>Assign Manager</h4>
+              <div className="admin-form">
+                <select className="form-input" value={assignEmployee} onChange={e => setAssignEmployee(e.target.value)}>
+                  <option value="">Employee...</option>
+                  {roleMembers[Role.Employee].map(member => (
+                    <option key={member} value={member}>{shortAddress(member)}</option>
+                  ))}
+                </select>
+                <select className="form-input" value={assignManager} onChange={e => setAssignManager(e.target.value)}>
+                  <option value="">No manager</option>
+                  {roleMembers[Role.Manager].map(member => (
+                    <option key={member} value={member}>{shortAddress(member)}</option>
+                  ))}
+                </select>
+                <button className="action-btn success" onClick={submitAssignment}>Assign</button>
+              </div>
+            </div>
+
+            <div className="admin-card">
+              <h3>Cohorts</h3>
+              <ul className="role-member-list">
+                {cohorts.map(cohort => (
+                  <li key={cohort.id} className="role-member">#{cohort.id} {cohort.name}</li>
+                ))}
+              </ul>
+              <div className="admin-form">
+                <input
+                  type="text"
+                  className="form-input"
+                  placeholder="e.g., Engineering"
+                  value={cohortName}
+                  onChange={e => setCohortName(e.target.value)}
+                />
+                <button className="action-btn success" onClick={submitCohort}>Register</button>
+              </div>
+              <p className="admin-note">Aggregates need at least {minCohortSize} members before they can be decrypted.</p>
+              <div className="admin-form">
+                <input
+                  type="number"
+                  min={1}
+                  className="form-input"
+                  placeholder="Minimum cohort size"
+                  value={cohortSize}
+                  onChange={e => setCohortSize(e.target.value)}
+                />
+                <button className="action-btn info" onClick={submitCohortSize}>Update</button>
+              </div>
+            </div>
+
+            <div className="admin-card">
+              <h3>Scoring Models</h3>
+              <select className="form-input" value={modelId} onChange={e => setModelId(e.target.value)}>
+                <option value="new">New model</option>
+                {growthModels.map(model => (
+                  <option key={model.id} value={model.id}>
+                    New version of {model.name} (v{model.version})
+                  </option>
+                ))}
+              </select>
+              <div className="form-grid">
+                {modelId === "new" && (
+                  <div className="form-group full-width">
+                    <label>Name</label>
+                    <input
+                      type="text"
+                      className="form-input"
+                      value={modelName}
+                      onChange={e => setModelName(e.target.value)}
+                    />
+                  </div>
+                )}
+                <div className="form-group">
+                  <label>Skill Weight</label>
+                  <input type="number" min={0} name="skillWeight" className="form-input"
+                    value={weights.skillWeight} onChange={handleWeightChange} />
+                </div>
+                <div className="form-group">
+                  <label>Learning Hours Weight</label>
+                  <input type="number" min={0} name="learningHoursWeight" className="form-input"
+                    value={weights.learningHoursWeight} onChange={handleWeightChange} />
+                </div>
+                <div className="form-group">
+                  <label>Project Impact Weight</label>
+                  <input type="number" min={0} name="projectImpactWeight" className="form-input"
+                    value={weights.projectImpactWeight} onChange={handleWeightChange} />
+                </div>
+                <div className="form-group">
+                  <label>Divisor</label>
+                  <input type="number" min={1} name="divisor" className="form-input"
+                    value={weights.divisor} onChange={handleWeightChange} />
+                </div>
+              </div>
+              <button className="action-btn success" onClick={submitModel}>
+                {modelId === "new" ? "Register Model" : "Publish Version"}
+              </button>
+            </div>
+
+            <div className="admin-card">
+              <h3>Skill Taxonomy</h3>
+              <p className="admin-note">
+                An IDP's skill level is the weighted mean of its skills. Weight changes apply from each path's next revision.
+              </p>
+              <ul className="role-member-list">
+                {skills.map(skill => (
+                  <li key={skill.id} className="role-member">
+                    <span>#{skill.id} {skill.name}</span>
+                    <span>weight {skill.weight}</span>
+                  </li>
+                ))}
+              </ul>
+              <div className="admin-form">
+                <select className="form-input" value={skillId} onChange={e => setSkillId(e.target.value)}>
+                  <option value="new">New skill</option>
+                  {skills.map(skill => (
+                    <option key={skill.id} value={skill.id}>Reweight {skill.name}</option>
+                  ))}
+                </select>
+                {skillId === "new" && (
+                  <input
+                    type="text"
+                    className="form-input"
+                    placeholder="e.g., System design"
+                    value={skillName}
+                    onChange={e => setSkillName(e.target.value)}
+                  />
+                )}
+                <input
+                  type="number"
+                  min={1}
+                  className="form-input"
+                  placeholder="Weight"
+                  value={skillWeight}
+                  onChange={e => setSkillWeight(e.target.value)}
+                />
+                <button className="action-btn success" onClick={submitSkill}>
+                  {skillId === "new" ? "Register" : "Update"}
+                </button>
+              </div>
+            </div>
+
+            <div className="admin-card">
+              <h3>Career Ladder</h3>
+              <p className="admin-note">
+                Requirements are public so employees can plan against them; readiness results stay encrypted
+                for each employee. Blank minimums are not required.
+              </p>
+              <ul className="role-member-list">
+                {jobRoles.map(role => (
+                  <li key={role.id} className="role-member">
+                    <span>{role.rank}. {role.name} (v{role.version})</span>
+                    <span>{Object.keys(role.requirements.skills).length} required skills</span>
+                  </li>
+                ))}
+              </ul>
+              <select className="form-input" value={jobRoleId} onChange={e => selectJobRole(e.target.value)}>
+                <option value="new">New role</option>
+                {jobRoles.map(role => (
+                  <option key={role.id} value={role.id}>Update {role.name}</option>
+                ))}
+              </select>
+              <div className="form-grid">
+                {jobRoleId === "new" && (
+                  <>
+                    <div className="form-group">
+                      <label>Name</label>
+                      <input type="text" name="name" className="form-input" placeholder="e.g., Senior Engineer"
+                        value={jobRole.name} onChange={handleJobRoleChange} />
+                    </div>
+                    <div className="form-group">
+                      <label>Rank</label>
+                      <input type="number" min={0} name="rank" className="form-input"
+                        value={jobRole.rank} onChange={handleJobRoleChange} />
+                    </div>
+                  </>
+                )}
+                <div className="form-group">
+                  <label>Min Skill Level</label>
+                  <input type="number" min={0} name="skillLevel" className="form-input"
+                    value={jobRole.skillLevel} onChange={handleJobRoleChange} />
+                </div>
+                <div className="form-group">
+                  <label>Min Learning Hours</label>
+                  <input type="number" min={0} name="learningHours" className="form-input"
+                    value={jobRole.learningHours} onChange={handleJobRoleChange} />
+                </div>
+                <div className="form-group">
+                  <label>Min Project Impact</label>
+                  <input type="number" min={0} name="projectImpact" className="form-input"
+                    value={jobRole.projectImpact} onChange={handleJobRoleChange} />
+                </div>
+                {skills.map(skill => (
+                  <div className="form-group" key={skill.id}>
+                    <label>Min {skill.name}</label>
+                    <input
+                      type="number"
+                      min={0}
+                      className="form-input"
+                      value={jobRole.skills[skill.id] ?? ""}
+                      onChange={e => setJobRole({ ...jobRole, skills: { ...jobRole.skills, [skill.id]: e.target.value } })}
+                    />
+                  </div>
+                ))}
+              </div>
+              <button className="action-btn success" onClick={submitJobRole}>
+                {jobRoleId === "new" ? "Register Role" : "Update Requirements"}
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
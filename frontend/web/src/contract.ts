@@ -1,12 +1,63 @@
 // contract.ts
 import { ethers } from "ethers";
-import abiJson from "./abi/UniversalAdapter.json";
 import configJson from "./config.json";
+import { CareerAnalytics__factory, CareerGrowthSim__factory, CareerLadder__factory, CareerRoles__factory } from "./types";
+import type { CareerAnalytics, CareerGrowthSim, CareerLadder, CareerRoles } from "./types";
 
-export const ABI = (abiJson as any).abi || abiJson;
-export const config = configJson;
+export interface ChainConfig {
+  network: string;
+  contractAddress: string;
+  deployer: string;
+  // Block the contract was deployed in, where log indexing starts
+  deployBlock?: number;
+}
+
+export const SEPOLIA_CHAIN_ID = 11155111;
+// `npx hardhat node` with the FHEVM mock
+export const LOCAL_CHAIN_ID = 31337;
+
+// Deploy scripts key addresses by chain id
+const chainConfigs: Record<string, ChainConfig> = configJson;
+
+const envUrls = (value: string | undefined) => (value ? value.split(",").map(url => url.trim()).filter(Boolean) : []);
+
+// Comma-separated endpoints from the environment, tried in order; the public fallbacks need no API key
+const RPC_URLS: Record<number, string[]> = {
+  [SEPOLIA_CHAIN_ID]: envUrls(import.meta.env.VITE_SEPOLIA_RPC_URLS).concat([
+    "https://sepolia.drpc.org",
+    "https://ethereum-sepolia-rpc.publicnode.com"
+  ]),
+  [LOCAL_CHAIN_ID]: envUrls(import.meta.env.VITE_LOCAL_RPC_URLS).concat(["http://127.0.0.1:8545"])
+};
+
+// Used for read-only access when no wallet is injected
+export const DEFAULT_CHAIN_ID = Number(import.meta.env.VITE_DEFAULT_CHAIN_ID || SEPOLIA_CHAIN_ID);
+
+export function getChainConfig(chainId: number): ChainConfig | null {
+  return chainConfigs[String(chainId)] ?? null;
+}
+
+export function isLocalChain(chainId: number) {
+  return chainId === LOCAL_CHAIN_ID;
+}
+
+// The connected wallet's chain decides which deployment the app talks to
+export async function getChainId(): Promise<number> {
+  const ethereum = (window as any).ethereum;
+  if (!ethereum) return DEFAULT_CHAIN_ID;
+  return Number(await ethereum.request({ method: "eth_chainId" }));
+}
+
+export async function getContractAddress(chainId?: number): Promise<string> {
+  const id = chainId ?? await getChainId();
+  const chainConfig = getChainConfig(id);
+  if (!chainConfig) {
+    throw new Error(`CareerGrowthSim is not deployed on chain ${id}`);
+  }
+  return chainConfig.contractAddress;
+}
 
-const retry = async <T>(fn: () => Promise<T>, retries = 3, delay = 1000): Promise<T> => {
+export const retry = async <T>(fn: () => Promise<T>, retries = 3, delay = 1000): Promise<T> => {
   try {
     return await fn();
   } catch (e) {
@@ -18,23 +69,14 @@ const retry = async <T>(fn: () => Promise<T>, retries = 3, delay = 1000): Promis
   }
 };
 
-const getTestnetProvider = async () => {
-  const rpcUrls = [
-    "https://sepolia.infura.io/v3/96406da962744120afbe0cf64c8bd7b3",
-    "https://rpc.ankr.com/eth_sepolia/f5a86d4556184938f528d746ecfa1eabcf7e4b970fc86df257418084c9305ae4",
-    "https://rpc.sepolia.org",
-    "https://rpc2.sepolia.org",
-    "https://eth-sepolia.public.blastapi.io"
-  ];
+export const getRpcProvider = async (chainId: number) => {
+  const rpcUrls = RPC_URLS[chainId] ?? [];
   
   for (const url of rpcUrls) {
     try {
-      const provider = new ethers.JsonRpcProvider(url, {
-        name: "sepolia",
-        chainId: 11155111
-      });
+      const provider = new ethers.JsonRpcProvider(url, chainId, { staticNetwork: true });
       
-      const blockNumber = await Promise.race([
+      await Promise.race([
         provider.getBlockNumber(),
         new Promise((_, reject) => 
           setTimeout(() => reject(new Error("RPC timeout")), 10000)
@@ -46,15 +88,17 @@ const getTestnetProvider = async () => {
     }
   }
   
-  throw new Error("All RPC providers failed");
+  throw new Error(`No working RPC endpoint for chain ${chainId}`);
 };
 
-export async function getContractReadOnly() {
+export async function getContractReadOnly(): Promise<CareerGrowthSim | null> {
   try {
-    const provider = await getTestnetProvider();
-    const contract = new ethers.Contract(config.contractAddress, ABI, provider);
+    const chainId = await getChainId();
+    const contractAddress = await getContractAddress(chainId);
+    const provider = await getRpcProvider(chainId);
+    const contract = CareerGrowthSim__factory.connect(contractAddress, provider);
     
-    const code = await retry(() => provider.getCode(config.contractAddress));
+    const code = await retry(() => provider.getCode(contractAddress));
     if (code === "0x") {
       return null;
     }
@@ -66,14 +110,15 @@ export async function getContractReadOnly() {
   }
 }
 
-export async function getContractWithSigner() {
+export async function getContractWithSigner(): Promise<CareerGrowthSim> {
   if (!(window as any).ethereum) {
     throw new Error("No injected wallet");
   }
   try {
     const provider = new ethers.BrowserProvider((window as any).ethereum);
     const signer = await provider.getSigner();
-    const contract = new ethers.Contract(config.contractAddress, ABI, signer);
+    const { chainId } = await provider.getNetwork();
+    const contract = CareerGrowthSim__factory.connect(await getContractAddress(Number(chainId)), signer);
     return contract;
   } catch (error) {
     console.error("Failed to create contract with signer:", error);
@@ -81,6 +126,63 @@ export async function getContractWithSigner() {
   }
 }
 
+// The analytics contract address is read from the simulator, so config only tracks one address
+export async function getAnalyticsReadOnly(): Promise<CareerAnalytics | null> {
+  const contract = await getContractReadOnly();
+  if (!contract) return null;
+  try {
+    const address = await contract.analytics();
+    return CareerAnalytics__factory.connect(address, contract.runner);
+  } catch (error) {
+    console.error("Failed to create read-only analytics contract:", error);
+    return null;
+  }
+}
+
+export async function getAnalyticsWithSigner(): Promise<CareerAnalytics> {
+  const contract = await getContractWithSigner();
+  const address = await contract.analytics();
+  return CareerAnalytics__factory.connect(address, contract.runner);
+}
+
+// Like analytics, the role registry is found through the simulator
+export async function getRolesReadOnly(): Promise<CareerRoles | null> {
+  const contract = await getContractReadOnly();
+  if (!contract) return null;
+  try {
+    const address = await contract.roles();
+    return CareerRoles__factory.connect(address, contract.runner);
+  } catch (error) {
+    console.error("Failed to create read-only roles contract:", error);
+    return null;
+  }
+}
+
+export async function getRolesWithSigner(): Promise<CareerRoles> {
+  const contract = await getContractWithSigner();
+  const address = await contract.roles();
+  return CareerRoles__factory.connect(address, contract.runner);
+}
+
+// So is the career ladder, which holds readiness results for the IDP owner
+export async function getLadderReadOnly(): Promise<CareerLadder | null> {
+  const contract = await getContractReadOnly();
+  if (!contract) return null;
+  try {
+    const address = await contract.ladder();
+    return CareerLadder__factory.connect(address, contract.runner);
+  } catch (error) {
+    console.error("Failed to create read-only ladder contract:", error);
+    return null;
+  }
+}
+
+export async function getLadderWithSigner(): Promise<CareerLadder> {
+  const contract = await getContractWithSigner();
+  const address = await contract.ladder();
+  return CareerLadder__factory.connect(address, contract.runner);
+}
+
 export function normAddr(a: string) { 
   return a ? a.toLowerCase() : a; 
 }
\ No newline at end of file
@@ -0,0 +1,157 @@
+// fhe.ts
+import { initSDK, createInstance, SepoliaConfig } from "@zama-fhe/relayer-sdk/web";
+import type { FhevmInstance } from "@zama-fhe/relayer-sdk/web";
+import { ethers } from "ethers";
+import { getChainId, getRpcProvider, isLocalChain } from "./contract";
+
+export interface IDPInputs {
+  // Weighted mean of the IDP's skill vector, derived on-chain
+  skillLevel: number;
+  learningHours: number;
+  projectImpact: number;
+  careerGoal: number;
+}
+
+export type RevisionInputs = Omit<IDPInputs, "skillLevel">;
+
+export interface EncryptedInputs {
+  handles: string[];
+  inputProof: string;
+}
+
+export type DecryptedValues = Record<string, bigint | boolean | string>;
+
+interface DecryptionPermit {
+  publicKey: string;
+  privateKey: string;
+  signature: string;
+  startTimestamp: number;
+}
+
+const PERMIT_DURATION_DAYS = 1;
+// Gateway contracts the @fhevm/hardhat-plugin mock signs decryptions and input proofs for
+const LOCAL_DECRYPTION_ADDRESS = "0x5ffdaAB0373E62E2ea2944776209aEf29E631A64";
+const LOCAL_INPUT_VERIFICATION_ADDRESS = "0x812b06e1CDCE800494b79fFE4f925A504a9A9810";
+
+// One instance per chain, so switching the wallet between Sepolia and a local node needs no reload
+const instancePromises = new Map<number, Promise<FhevmInstance>>();
+// Signed EIP-712 permits kept in memory only, keyed by user and contract
+const permits = new Map<string, DecryptionPermit>();
+
+const toHex = (bytes: Uint8Array) =>
+  "0x" + Array.from(bytes, b => b.toString(16).padStart(2, "0")).join("");
+
+// A local hardhat node runs the FHEVM mock and reports its host contract addresses over RPC
+async function createLocalInstance(chainId: number): Promise<FhevmInstance> {
+  const provider = await getRpcProvider(chainId);
+  const metadata = await provider.send("fhevm_relayer_metadata", []);
+  const { MockFhevmInstance } = await import("@fhevm/mock-utils");
+  return MockFhevmInstance.create(provider, provider, {
+    aclContractAddress: metadata.ACLAddress,
+    inputVerifierContractAddress: metadata.InputVerifierAddress,
+    kmsContractAddress: metadata.KMSVerifierAddress,
+    verifyingContractAddressDecryption: LOCAL_DECRYPTION_ADDRESS,
+    verifyingContractAddressInputVerification: LOCAL_INPUT_VERIFICATION_ADDRESS,
+    chainId,
+    gatewayChainId: metadata.gatewayChainId
+  });
+}
+
+export async function getFhevmInstance(): Promise<FhevmInstance> {
+  const chainId = await getChainId();
+  let instancePromise = instancePromises.get(chainId);
+  if (!instancePromise) {
+    instancePromise = isLocalChain(chainId)
+      ? createLocalInstance(chainId)
+      : (async () => {
+          await initSDK();
+          return createInstance({ ...SepoliaConfig, network: (window as any).ethereum });
+        })();
+    instancePromises.set(chainId, instancePromise);
+    instancePromise.catch(() => { instancePromises.delete(chainId); });
+  }
+  return instancePromise;
+}
+
+// Encrypts plaintext values as euint32 inputs bound to the contract and the submitting account
+export async function encryptUint32Inputs(
+  contractAddress: string,
+  userAddress: string,
+  values: number[]
+): Promise<EncryptedInputs> {
+  const instance = await getFhevmInstance();
+  const input = instance.createEncryptedInput(contractAddress, userAddress);
+  values.forEach(value => input.add32(value));
+  const { handles, inputProof } = await input.encrypt();
+
+  return { handles: handles.map(toHex), inputProof: toHex(inputProof) };
+}
+
+// Skill levels come first, in the order submitEncryptedIDP reads them from the shared proof
+export function encryptIDPInputs(
+  contractAddress: string,
+  userAddress: string,
+  inputs: RevisionInputs,
+  skillLevels: number[] = []
+) {
+  return encryptUint32Inputs(contractAddress, userAddress, [
+    ...skillLevels,
+    inputs.learningHours,
+    inputs.projectImpact,
+    inputs.careerGoal
+  ]);
+}
+
+async function getDecryptionPermit(
+  instance: FhevmInstance,
+  contractAddress: string,
+  signer: ethers.Signer
+): Promise<DecryptionPermit> {
+  const userAddress = await signer.getAddress();
+  const key = `${userAddress.toLowerCase()}:${contractAddress.toLowerCase()}`;
+  const cached = permits.get(key);
+  const now = Math.floor(Date.now() / 1000);
+  if (cached && now < cached.startTimestamp + PERMIT_DURATION_DAYS * 86400) {
+    return cached;
+  }
+
+  const { publicKey, privateKey } = instance.generateKeypair();
+  const eip712 = instance.createEIP712(publicKey, [contractAddress], now, PERMIT_DURATION_DAYS);
+  const signature = await signer.signTypedData(
+    eip712.domain,
+    { UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification },
+    eip712.message
+  );
+
+  const permit = { publicKey, privateKey, signature, startTimestamp: now };
+  permits.set(key, permit);
+  return permit;
+}
+
+// Decrypts handles the signer is allowed on through the relayer; cleartexts never touch the chain
+export async function userDecryptHandles(
+  contractAddress: string,
+  signer: ethers.Signer,
+  handles: string[]
+): Promise<DecryptedValues> {
+  const pairs = Array.from(new Set(handles))
+    .filter(handle => handle && handle !== ethers.ZeroHash)
+    .map(handle => ({ handle, contractAddress }));
+  if (pairs.length === 0) return {};
+
+  const instance = await getFhevmInstance();
+  const permit = await getDecryptionPermit(instance, contractAddress, signer);
+
+  const results = await instance.userDecrypt(
+    pairs,
+    permit.privateKey,
+    permit.publicKey,
+    permit.signature.replace("0x", ""),
+    [contractAddress],
+    await signer.getAddress(),
+    permit.startTimestamp,
+    PERMIT_DURATION_DAYS
+  );
+  // Key by lowercase handle so lookups match what ethers returns for bytes32
+  return Object.fromEntries(Object.entries(results).map(([handle, value]) => [handle.toLowerCase(), value]));
+}
@@ -0,0 +1,321 @@
+// indexer.ts
+// Builds the career path list from contract logs instead of walking every IDP id on each load.
+// Paths are cached per chain and contract in IndexedDB, so a reload only scans blocks it has not seen
+// and re-reads just the IDPs those blocks touched.
+import { ZeroAddress } from "ethers";
+import type { CareerGrowthSim } from "./types";
+import { getChainConfig, retry } from "./contract";
+import type { IDPStatus } from "./lifecycle";
+import type { MilestoneMetric } from "./milestones";
+
+// Ciphertext handles; their values are only ever decrypted client-side
+export interface PathHandles {
+  // Latest revision: skill level, learning hours, project impact, career goal
+  revision: string[];
+  growthScore: string;
+  goalExceeded: string;
+}
+
+// Current encrypted level of one taxonomy skill
+export interface SkillLevel {
+  skillId: number;
+  handle: string;
+}
+
+// The manager's project impact rating of a revision; the owner can decrypt it once shared
+export interface ImpactRatingInfo {
+  manager: string;
+  timestamp: number;
+  handle: string;
+  shared: boolean;
+}
+
+export interface IDPRevision {
+  revision: number;
+  timestamp: number;
+  rating: ImpactRatingInfo | null;
+}
+
+export interface TrajectoryResult {
+  periodHandles: string[];
+  goalPeriodHandle: string;
+  isCalculated: boolean;
+}
+
+export interface ScenarioResult {
+  id: number;
+  label: string;
+  handle: string;
+}
+
+export interface MilestoneResult {
+  id: number;
+  label: string;
+  metric: MilestoneMetric;
+  dueDate: number;
+  targetHandle: string;
+  metHandle: string;
+  evaluatedRevision: number;
+  // A project impact target was checked against the shared manager rating
+  ratingApplied: boolean;
+}
+
+// Everything the dashboard shows about an IDP that lives on-chain
+export interface IndexedPath {
+  id: string;
+  timestamp: number;
+  owner: string;
+  cohortId: number;
+  status: IDPStatus;
+  handles: PathHandles;
+  skillLevels: SkillLevel[];
+  isSimulated: boolean;
+  simulatedRevision: number;
+  // The latest simulation used the manager's rating instead of the self-reported impact
+  managerRated: boolean;
+  latestRevision: number;
+  revisions: IDPRevision[];
+  modelId: number;
+  modelVersion: number;
+  scenarios: ScenarioResult[];
+  milestones: MilestoneResult[];
+  trajectory: TrajectoryResult;
+}
+
+interface IndexSnapshot {
+  version: number;
+  lastBlock: number;
+  paths: Record<string, IndexedPath>;
+}
+
+const DB_NAME = "careergrowthsim-indexer";
+const STORE_NAME = "snapshots";
+// Bump whenever IndexedPath changes shape, so stale caches are rebuilt instead of misread
+const SNAPSHOT_VERSION = 6;
+// Stays under the eth_getLogs range limit of public RPC endpoints
+const BLOCK_RANGE = 5000;
+// Recent blocks are scanned again on every sync in case they were reorganised
+const REORG_DEPTH = 12;
+// IDPs read concurrently; keeps a cold sync from flooding rate-limited RPC endpoints
+const FETCH_BATCH_SIZE = 10;
+
+// Events whose first argument is an IDP id and that change what IndexedPath holds
+const PATH_EVENTS = new Set([
+  "IDPSubmitted",
+  "IDPUpdated",
+  "IDPStatusChanged",
+  "SkillLevelsUpdated",
+  "ImpactRated",
+  "ImpactRatingShared",
+  "SimulationCompleted",
+  "ScenarioSimulated",
+  "MilestoneAdded",
+  "MilestoneEvaluated",
+  "TrajectoryProjected"
+]);
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function readSnapshot(key: string): Promise<IndexSnapshot | null> {
+  try {
+    const db = await openDatabase();
+    const snapshot = await new Promise<IndexSnapshot | undefined>((resolve, reject) => {
+      const request = db.transaction(STORE_NAME, "readonly").objectStore(STORE_NAME).get(key);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    db.close();
+    return snapshot && snapshot.version === SNAPSHOT_VERSION ? snapshot : null;
+  } catch (e) {
+    console.warn("Career path cache unavailable, indexing from scratch:", e);
+    return null;
+  }
+}
+
+async function writeSnapshot(key: string, snapshot: IndexSnapshot) {
+  try {
+    const db = await openDatabase();
+    await new Promise<void>((resolve, reject) => {
+      const tx = db.transaction(STORE_NAME, "readwrite");
+      tx.objectStore(STORE_NAME).put(snapshot, key);
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+    db.close();
+  } catch (e) {
+    console.warn("Failed to cache indexed career paths:", e);
+  }
+}
+
+// Independent reads go out together, so an IDP costs two rounds of RPC calls however long its history is
+async function fetchPath(contract: CareerGrowthSim, id: number): Promise<IndexedPath> {
+  const [idp, simulatedRevision, trajectory, skillIds, scenarioCount, milestoneCount, comparison] = await Promise.all([
+    contract.encryptedIDPs(id),
+    contract.latestSimulatedRevision(id),
+    contract.getTrajectory(id),
+    contract.getIDPSkills(id),
+    contract.scenarioCount(id).then(Number),
+    contract.milestoneCount(id).then(Number),
+    contract.goalComparisons(id)
+  ]);
+
+  const latestRevision = Number(idp.latestRevision);
+  const [result, revisionReads, skillLevels, scenarios, milestones] = await Promise.all([
+    contract.simulationResults(id, simulatedRevision),
+    Promise.all(idRange(latestRevision).map(revision => Promise.all([
+      contract.idpRevisions(id, revision),
+      contract.impactRatings(id, revision)
+    ]))),
+    Promise.all(skillIds.map(async (skillId): Promise<SkillLevel> => ({
+      skillId: Number(skillId),
+      handle: await contract.skillLevels(id, skillId)
+    }))),
+    Promise.all(idRange(scenarioCount).map(async (scenarioId): Promise<ScenarioResult> => {
+      const [scenario, scenarioResult] = await Promise.all([
+        contract.scenarios(id, scenarioId),
+        contract.scenarioResults(id, scenarioId)
+      ]);
+      return { id: scenarioId, label: scenario.label, handle: scenarioResult.encryptedGrowthScore };
+    })),
+    Promise.all(idRange(milestoneCount).map(async (milestoneId): Promise<MilestoneResult> => {
+      const milestone = await contract.milestones(id, milestoneId);
+      return {
+        id: milestoneId,
+        label: milestone.label,
+        metric: Number(milestone.metric) as MilestoneMetric,
+        dueDate: Number(milestone.dueDate),
+        targetHandle: milestone.encryptedTarget,
+        metHandle: milestone.encryptedMet,
+        evaluatedRevision: Number(milestone.evaluatedRevision),
+        ratingApplied: milestone.ratingApplied
+      };
+    }))
+  ]);
+
+  const revisions: IDPRevision[] = revisionReads.map(([rev, rating], i) => ({
+    revision: i + 1,
+    timestamp: Number(rev.timestamp),
+    rating: rating.manager === ZeroAddress ? null : {
+      manager: rating.manager,
+      timestamp: Number(rating.timestamp),
+      handle: rating.encryptedRating,
+      shared: rating.shared
+    }
+  }));
+  const latest = revisionReads.length > 0 ? revisionReads[revisionReads.length - 1][0] : null;
+
+  return {
+    id: id.toString(),
+    timestamp: Number(idp.timestamp),
+    owner: idp.owner,
+    cohortId: Number(idp.cohortId),
+    status: Number(idp.status) as IDPStatus,
+    handles: {
+      revision: latest ? [
+        latest.encryptedSkillLevel,
+        latest.encryptedLearningHours,
+        latest.encryptedProjectImpact,
+        latest.encryptedCareerGoal
+      ] : [],
+      growthScore: result.encryptedGrowthScore,
+      goalExceeded: comparison.encryptedGoalExceeded
+    },
+    skillLevels,
+    isSimulated: result.isCalculated,
+    simulatedRevision: Number(result.revision),
+    managerRated: result.managerRated,
+    latestRevision,
+    revisions,
+    modelId: Number(result.modelId),
+    modelVersion: Number(result.modelVersion),
+    scenarios,
+    milestones,
+    trajectory: {
+      periodHandles: [...trajectory.periodScores],
+      goalPeriodHandle: trajectory.goalPeriod,
+      isCalculated: trajectory.isCalculated
+    }
+  };
+}
+
+// Ids 1..count, the numbering every per-IDP list on the contract uses
+export function idRange(count: number): number[] {
+  return Array.from({ length: count }, (_, i) => i + 1);
+}
+
+const REGISTRY_PAGE_SIZE = 100;
+
+// Walks one of the contract's offset/limit registries until a short page
+async function readRegistry(page: (offset: number, limit: number) => Promise<bigint[]>): Promise<string[]> {
+  const ids: string[] = [];
+  for (let offset = 0; ; offset += REGISTRY_PAGE_SIZE) {
+    const chunk = await page(offset, REGISTRY_PAGE_SIZE);
+    ids.push(...chunk.map(id => id.toString()));
+    if (chunk.length < REGISTRY_PAGE_SIZE) return ids;
+  }
+}
+
+export function fetchOwnerPathIds(contract: CareerGrowthSim, owner: string) {
+  return readRegistry((offset, limit) => contract.getOwnerIDPs(owner, offset, limit));
+}
+
+export function fetchPublishedPathIds(contract: CareerGrowthSim) {
+  return readRegistry((offset, limit) => contract.getPublishedIDPs(offset, limit));
+}
+
+// Brings the cached index up to the latest block and returns every known path.
+export async function syncCareerPaths(contract: CareerGrowthSim): Promise<IndexedPath[]> {
+  const provider = contract.runner?.provider;
+  if (!provider) {
+    throw new Error("Indexing needs a contract connected to a provider");
+  }
+
+  const chainId = Number((await provider.getNetwork()).chainId);
+  const address = await contract.getAddress();
+  const deployBlock = getChainConfig(chainId)?.deployBlock ?? 0;
+  const key = `${chainId}:${address.toLowerCase()}`;
+
+  const snapshot = await readSnapshot(key);
+  const paths = snapshot ? snapshot.paths : {};
+  const startBlock = snapshot ? Math.max(deployBlock, snapshot.lastBlock - REORG_DEPTH + 1) : deployBlock;
+  const latestBlock = await provider.getBlockNumber();
+
+  const touched = new Set<number>();
+  for (let fromBlock = startBlock; fromBlock <= latestBlock; fromBlock += BLOCK_RANGE) {
+    const toBlock = Math.min(fromBlock + BLOCK_RANGE - 1, latestBlock);
+    const logs = await retry(() => provider.getLogs({ address, fromBlock, toBlock }));
+    for (const log of logs) {
+      const parsed = contract.interface.parseLog(log);
+      if (parsed && PATH_EVENTS.has(parsed.name)) {
+        touched.add(Number(parsed.args[0]));
+      }
+    }
+  }
+
+  let complete = true;
+  const ids = [...touched];
+  for (let i = 0; i < ids.length; i += FETCH_BATCH_SIZE) {
+    const batch = ids.slice(i, i + FETCH_BATCH_SIZE);
+    const fetched = await Promise.allSettled(batch.map(id => fetchPath(contract, id)));
+    fetched.forEach((outcome, j) => {
+      if (outcome.status === "fulfilled") {
+        paths[batch[j].toString()] = outcome.value;
+      } else {
+        complete = false;
+        console.error(`Error loading career path ${batch[j]}:`, outcome.reason);
+      }
+    });
+  }
+
+  // A path that failed to load keeps the cursor where it was, so the next sync retries it
+  const lastBlock = complete ? latestBlock : snapshot?.lastBlock ?? deployBlock - 1;
+  await writeSnapshot(key, { version: SNAPSHOT_VERSION, lastBlock, paths });
+  return Object.values(paths);
+}
@@ -0,0 +1,11 @@
+// lifecycle.ts
+// Mirrors CareerGrowthSim.IDPStatus; values match the uint8s returned on-chain
+export enum IDPStatus {
+  Draft,
+  Active,
+  Completed,
+  Archived
+}
+
+// Lowercase name, used both as the badge text and its CSS class
+export const statusName = (status: IDPStatus) => IDPStatus[status].toLowerCase();
@@ -0,0 +1,13 @@
+// milestones.ts
+// Mirrors CareerGrowthSim.MilestoneMetric; values match the uint8s returned on-chain
+export enum MilestoneMetric {
+  SkillLevel,
+  LearningHours,
+  ProjectImpact
+}
+
+export const metricLabels: Record<MilestoneMetric, string> = {
+  [MilestoneMetric.SkillLevel]: "Skill level",
+  [MilestoneMetric.LearningHours]: "Learning hours",
+  [MilestoneMetric.ProjectImpact]: "Project impact"
+};
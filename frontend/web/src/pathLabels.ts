@@ -0,0 +1,24 @@
+// pathLabels.ts
+// Titles are descriptive only, so they stay in the browser instead of going on-chain in plaintext.
+
+export interface PathLabel {
+  title: string;
+}
+
+const storageKey = (contractAddress: string) => `careergrowthsim:labels:${contractAddress.toLowerCase()}`;
+
+export function loadPathLabels(contractAddress: string): Record<string, PathLabel> {
+  try {
+    const raw = localStorage.getItem(storageKey(contractAddress));
+    return raw ? JSON.parse(raw) : {};
+  } catch (e) {
+    console.error("Error reading career path labels:", e);
+    return {};
+  }
+}
+
+export function savePathLabel(contractAddress: string, idpId: string, label: PathLabel) {
+  const labels = loadPathLabels(contractAddress);
+  labels[idpId] = label;
+  localStorage.setItem(storageKey(contractAddress), JSON.stringify(labels));
+}
@@ -0,0 +1,15 @@
+// roles.ts
+// Mirrors CareerRoles.Role; values match the uint8s returned on-chain
+export enum Role {
+  HRAdmin,
+  Manager,
+  Employee
+}
+
+export const ROLES = [Role.HRAdmin, Role.Manager, Role.Employee];
+
+export const roleLabels: Record<Role, string> = {
+  [Role.HRAdmin]: "HR admin",
+  [Role.Manager]: "Manager",
+  [Role.Employee]: "Employee"
+};
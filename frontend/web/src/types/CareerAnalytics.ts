@@ -0,0 +1,483 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "./common";
+
+export interface CareerAnalyticsInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "ORGANISATION"
+      | "addMember"
+      | "aggregateSnapshots"
+      | "changedMembers"
+      | "cohortCount"
+      | "cohorts"
+      | "getAggregateMemberCount"
+      | "minCohortSize"
+      | "protocolId"
+      | "recordGoalExceeded"
+      | "recordRevision"
+      | "registerCohort"
+      | "requestAggregateAccess"
+      | "roles"
+      | "setMinCohortSize"
+      | "setSimulator"
+      | "simulator"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "AggregateAccessGranted"
+      | "CohortRegistered"
+      | "MinCohortSizeUpdated"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "ORGANISATION",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "addMember",
+    values: [BigNumberish, AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "aggregateSnapshots",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "changedMembers",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "cohortCount",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "cohorts",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getAggregateMemberCount",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "minCohortSize",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "protocolId",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "recordGoalExceeded",
+    values: [BigNumberish, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "recordRevision",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "registerCohort",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "requestAggregateAccess",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(functionFragment: "roles", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "setMinCohortSize",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setSimulator",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(functionFragment: "simulator", values?: undefined): string;
+
+  decodeFunctionResult(
+    functionFragment: "ORGANISATION",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "addMember", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "aggregateSnapshots",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "changedMembers",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "cohortCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "cohorts", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "getAggregateMemberCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "minCohortSize",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "protocolId", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "recordGoalExceeded",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "recordRevision",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "registerCohort",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "requestAggregateAccess",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "roles", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "setMinCohortSize",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setSimulator",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "simulator", data: BytesLike): Result;
+}
+
+export namespace AggregateAccessGrantedEvent {
+  export type InputTuple = [
+    cohortId: BigNumberish,
+    requester: AddressLike,
+    memberCount: BigNumberish
+  ];
+  export type OutputTuple = [
+    cohortId: bigint,
+    requester: string,
+    memberCount: bigint
+  ];
+  export interface OutputObject {
+    cohortId: bigint;
+    requester: string;
+    memberCount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CohortRegisteredEvent {
+  export type InputTuple = [cohortId: BigNumberish, name: string];
+  export type OutputTuple = [cohortId: bigint, name: string];
+  export interface OutputObject {
+    cohortId: bigint;
+    name: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace MinCohortSizeUpdatedEvent {
+  export type InputTuple = [minCohortSize: BigNumberish];
+  export type OutputTuple = [minCohortSize: bigint];
+  export interface OutputObject {
+    minCohortSize: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface CareerAnalytics extends BaseContract {
+  connect(runner?: ContractRunner | null): CareerAnalytics;
+  waitForDeployment(): Promise<this>;
+
+  interface: CareerAnalyticsInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  ORGANISATION: TypedContractMethod<[], [bigint], "view">;
+
+  addMember: TypedContractMethod<
+    [idpId: BigNumberish, owner: AddressLike, cohortId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  aggregateSnapshots: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [string, string, string, bigint, string, bigint] & {
+        totalLearningHours: string;
+        totalProjectImpact: string;
+        goalsExceeded: string;
+        memberCount: bigint;
+        requester: string;
+        timestamp: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  changedMembers: TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+
+  cohortCount: TypedContractMethod<[], [bigint], "view">;
+
+  cohorts: TypedContractMethod<
+    [arg0: BigNumberish],
+    [[string, boolean] & { name: string; exists: boolean }],
+    "view"
+  >;
+
+  getAggregateMemberCount: TypedContractMethod<
+    [cohortId: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  minCohortSize: TypedContractMethod<[], [bigint], "view">;
+
+  protocolId: TypedContractMethod<[], [bigint], "view">;
+
+  recordGoalExceeded: TypedContractMethod<
+    [idpId: BigNumberish, exceeded: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  recordRevision: TypedContractMethod<
+    [idpId: BigNumberish, learningHours: BytesLike, projectImpact: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  registerCohort: TypedContractMethod<[name: string], [bigint], "nonpayable">;
+
+  requestAggregateAccess: TypedContractMethod<
+    [cohortId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  roles: TypedContractMethod<[], [string], "view">;
+
+  setMinCohortSize: TypedContractMethod<
+    [size: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  setSimulator: TypedContractMethod<
+    [simulatorAddress: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  simulator: TypedContractMethod<[], [string], "view">;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "ORGANISATION"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "addMember"
+  ): TypedContractMethod<
+    [idpId: BigNumberish, owner: AddressLike, cohortId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "aggregateSnapshots"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [string, string, string, bigint, string, bigint] & {
+        totalLearningHours: string;
+        totalProjectImpact: string;
+        goalsExceeded: string;
+        memberCount: bigint;
+        requester: string;
+        timestamp: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "changedMembers"
+  ): TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "cohortCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "cohorts"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [[string, boolean] & { name: string; exists: boolean }],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getAggregateMemberCount"
+  ): TypedContractMethod<[cohortId: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "minCohortSize"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "protocolId"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "recordGoalExceeded"
+  ): TypedContractMethod<
+    [idpId: BigNumberish, exceeded: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "recordRevision"
+  ): TypedContractMethod<
+    [idpId: BigNumberish, learningHours: BytesLike, projectImpact: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "registerCohort"
+  ): TypedContractMethod<[name: string], [bigint], "nonpayable">;
+  getFunction(
+    nameOrSignature: "requestAggregateAccess"
+  ): TypedContractMethod<[cohortId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "roles"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "setMinCohortSize"
+  ): TypedContractMethod<[size: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setSimulator"
+  ): TypedContractMethod<[simulatorAddress: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "simulator"
+  ): TypedContractMethod<[], [string], "view">;
+
+  getEvent(
+    key: "AggregateAccessGranted"
+  ): TypedContractEvent<
+    AggregateAccessGrantedEvent.InputTuple,
+    AggregateAccessGrantedEvent.OutputTuple,
+    AggregateAccessGrantedEvent.OutputObject
+  >;
+  getEvent(
+    key: "CohortRegistered"
+  ): TypedContractEvent<
+    CohortRegisteredEvent.InputTuple,
+    CohortRegisteredEvent.OutputTuple,
+    CohortRegisteredEvent.OutputObject
+  >;
+  getEvent(
+    key: "MinCohortSizeUpdated"
+  ): TypedContractEvent<
+    MinCohortSizeUpdatedEvent.InputTuple,
+    MinCohortSizeUpdatedEvent.OutputTuple,
+    MinCohortSizeUpdatedEvent.OutputObject
+  >;
+
+  filters: {
+    "AggregateAccessGranted(uint256,address,uint32)": TypedContractEvent<
+      AggregateAccessGrantedEvent.InputTuple,
+      AggregateAccessGrantedEvent.OutputTuple,
+      AggregateAccessGrantedEvent.OutputObject
+    >;
+    AggregateAccessGranted: TypedContractEvent<
+      AggregateAccessGrantedEvent.InputTuple,
+      AggregateAccessGrantedEvent.OutputTuple,
+      AggregateAccessGrantedEvent.OutputObject
+    >;
+
+    "CohortRegistered(uint256,string)": TypedContractEvent<
+      CohortRegisteredEvent.InputTuple,
+      CohortRegisteredEvent.OutputTuple,
+      CohortRegisteredEvent.OutputObject
+    >;
+    CohortRegistered: TypedContractEvent<
+      CohortRegisteredEvent.InputTuple,
+      CohortRegisteredEvent.OutputTuple,
+      CohortRegisteredEvent.OutputObject
+    >;
+
+    "MinCohortSizeUpdated(uint32)": TypedContractEvent<
+      MinCohortSizeUpdatedEvent.InputTuple,
+      MinCohortSizeUpdatedEvent.OutputTuple,
+      MinCohortSizeUpdatedEvent.OutputObject
+    >;
+    MinCohortSizeUpdated: TypedContractEvent<
+      MinCohortSizeUpdatedEvent.InputTuple,
+      MinCohortSizeUpdatedEvent.OutputTuple,
+      MinCohortSizeUpdatedEvent.OutputObject
+    >;
+  };
+}
@@ -0,0 +1,2149 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "./common";
+
+export declare namespace CareerGrowthSim {
+  export type ModelWeightsStruct = {
+    skillWeight: BigNumberish;
+    learningHoursWeight: BigNumberish;
+    projectImpactWeight: BigNumberish;
+    divisor: BigNumberish;
+  };
+
+  export type ModelWeightsStructOutput = [
+    skillWeight: bigint,
+    learningHoursWeight: bigint,
+    projectImpactWeight: bigint,
+    divisor: bigint
+  ] & {
+    skillWeight: bigint;
+    learningHoursWeight: bigint;
+    projectImpactWeight: bigint;
+    divisor: bigint;
+  };
+}
+
+export interface CareerGrowthSimInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "HOURS_PER_SKILL_POINT"
+      | "MAX_IDP_SKILLS"
+      | "MAX_TRAJECTORY_PERIODS"
+      | "MAX_VIEWERS"
+      | "activateIDP"
+      | "addMilestone"
+      | "analytics"
+      | "archiveIDP"
+      | "checkReadiness"
+      | "completeIDP"
+      | "encryptedIDPs"
+      | "evaluateMilestone"
+      | "getIDPIds"
+      | "getIDPSkills"
+      | "getOwnerIDPCount"
+      | "getOwnerIDPs"
+      | "getPublishedIDPCount"
+      | "getPublishedIDPs"
+      | "getTrajectory"
+      | "getViewers"
+      | "goalComparisons"
+      | "grantViewer"
+      | "growthModels"
+      | "idpCount"
+      | "idpRevisions"
+      | "idpViewers"
+      | "impactRatings"
+      | "isPublished"
+      | "ladder"
+      | "latestSimulatedRevision"
+      | "milestoneCount"
+      | "milestones"
+      | "modelCount"
+      | "modelWeights"
+      | "projectTrajectory"
+      | "protocolId"
+      | "publishIDP"
+      | "rateProjectImpact"
+      | "reactivateIDP"
+      | "registerGrowthModel"
+      | "registerSkill"
+      | "reportSkillGap"
+      | "revokeViewer"
+      | "roles"
+      | "runEncryptedSimulation"
+      | "runScenarioSimulation"
+      | "scenarioCount"
+      | "scenarioResults"
+      | "scenarios"
+      | "shareImpactRating"
+      | "shareRevision"
+      | "simulationResults"
+      | "skillCount"
+      | "skillLevels"
+      | "skills"
+      | "submitEncryptedIDP"
+      | "unpublishIDP"
+      | "updateEncryptedIDP"
+      | "updateGrowthModel"
+      | "updateSkillLevels"
+      | "updateSkillWeight"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "GrowthModelRegistered"
+      | "GrowthModelUpdated"
+      | "IDPPublished"
+      | "IDPStatusChanged"
+      | "IDPSubmitted"
+      | "IDPUnpublished"
+      | "IDPUpdated"
+      | "ImpactRated"
+      | "ImpactRatingShared"
+      | "MilestoneAdded"
+      | "MilestoneEvaluated"
+      | "ScenarioSimulated"
+      | "SimulationCompleted"
+      | "SkillLevelsUpdated"
+      | "SkillRegistered"
+      | "SkillWeightUpdated"
+      | "TrajectoryProjected"
+      | "ViewerGranted"
+      | "ViewerRevoked"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "HOURS_PER_SKILL_POINT",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_IDP_SKILLS",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_TRAJECTORY_PERIODS",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_VIEWERS",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "activateIDP",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "addMilestone",
+    values: [
+      BigNumberish,
+      string,
+      BigNumberish,
+      BytesLike,
+      BytesLike,
+      BigNumberish
+    ]
+  ): string;
+  encodeFunctionData(functionFragment: "analytics", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "archiveIDP",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "checkReadiness",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "completeIDP",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "encryptedIDPs",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "evaluateMilestone",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getIDPIds",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getIDPSkills",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getOwnerIDPCount",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getOwnerIDPs",
+    values: [AddressLike, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getPublishedIDPCount",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getPublishedIDPs",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getTrajectory",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getViewers",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "goalComparisons",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "grantViewer",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "growthModels",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(functionFragment: "idpCount", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "idpRevisions",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "idpViewers",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "impactRatings",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isPublished",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(functionFragment: "ladder", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "latestSimulatedRevision",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "milestoneCount",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "milestones",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "modelCount",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "modelWeights",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "projectTrajectory",
+    values: [BigNumberish, BigNumberish, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "protocolId",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "publishIDP",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "rateProjectImpact",
+    values: [BigNumberish, BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "reactivateIDP",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "registerGrowthModel",
+    values: [string, CareerGrowthSim.ModelWeightsStruct]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "registerSkill",
+    values: [string, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "reportSkillGap",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "revokeViewer",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(functionFragment: "roles", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "runEncryptedSimulation",
+    values: [BigNumberish, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "runScenarioSimulation",
+    values: [
+      BigNumberish,
+      string,
+      BytesLike,
+      BytesLike,
+      BytesLike,
+      BytesLike,
+      BigNumberish,
+      BigNumberish
+    ]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "scenarioCount",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "scenarioResults",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "scenarios",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "shareImpactRating",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "shareRevision",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "simulationResults",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "skillCount",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "skillLevels",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "skills",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "submitEncryptedIDP",
+    values: [
+      BigNumberish[],
+      BytesLike[],
+      BytesLike,
+      BytesLike,
+      BytesLike,
+      BytesLike,
+      BigNumberish
+    ]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "unpublishIDP",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "updateEncryptedIDP",
+    values: [BigNumberish, BytesLike, BytesLike, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "updateGrowthModel",
+    values: [BigNumberish, CareerGrowthSim.ModelWeightsStruct]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "updateSkillLevels",
+    values: [BigNumberish, BigNumberish[], BytesLike[], BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "updateSkillWeight",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "HOURS_PER_SKILL_POINT",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_IDP_SKILLS",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_TRAJECTORY_PERIODS",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_VIEWERS",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "activateIDP",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "addMilestone",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "analytics", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "archiveIDP", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "checkReadiness",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "completeIDP",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "encryptedIDPs",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "evaluateMilestone",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "getIDPIds", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "getIDPSkills",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getOwnerIDPCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getOwnerIDPs",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getPublishedIDPCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getPublishedIDPs",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getTrajectory",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "getViewers", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "goalComparisons",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "grantViewer",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "growthModels",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "idpCount", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "idpRevisions",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "idpViewers", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "impactRatings",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "isPublished",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "ladder", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "latestSimulatedRevision",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "milestoneCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "milestones", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "modelCount", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "modelWeights",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "projectTrajectory",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "protocolId", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "publishIDP", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "rateProjectImpact",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "reactivateIDP",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "registerGrowthModel",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "registerSkill",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "reportSkillGap",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "revokeViewer",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "roles", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "runEncryptedSimulation",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "runScenarioSimulation",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "scenarioCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "scenarioResults",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "scenarios", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "shareImpactRating",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "shareRevision",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "simulationResults",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "skillCount", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "skillLevels",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "skills", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "submitEncryptedIDP",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "unpublishIDP",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "updateEncryptedIDP",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "updateGrowthModel",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "updateSkillLevels",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "updateSkillWeight",
+    data: BytesLike
+  ): Result;
+}
+
+export namespace GrowthModelRegisteredEvent {
+  export type InputTuple = [modelId: BigNumberish, name: string];
+  export type OutputTuple = [modelId: bigint, name: string];
+  export interface OutputObject {
+    modelId: bigint;
+    name: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace GrowthModelUpdatedEvent {
+  export type InputTuple = [modelId: BigNumberish, version: BigNumberish];
+  export type OutputTuple = [modelId: bigint, version: bigint];
+  export interface OutputObject {
+    modelId: bigint;
+    version: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace IDPPublishedEvent {
+  export type InputTuple = [idpId: BigNumberish];
+  export type OutputTuple = [idpId: bigint];
+  export interface OutputObject {
+    idpId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace IDPStatusChangedEvent {
+  export type InputTuple = [
+    idpId: BigNumberish,
+    previousStatus: BigNumberish,
+    status: BigNumberish
+  ];
+  export type OutputTuple = [
+    idpId: bigint,
+    previousStatus: bigint,
+    status: bigint
+  ];
+  export interface OutputObject {
+    idpId: bigint;
+    previousStatus: bigint;
+    status: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace IDPSubmittedEvent {
+  export type InputTuple = [id: BigNumberish, timestamp: BigNumberish];
+  export type OutputTuple = [id: bigint, timestamp: bigint];
+  export interface OutputObject {
+    id: bigint;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace IDPUnpublishedEvent {
+  export type InputTuple = [idpId: BigNumberish];
+  export type OutputTuple = [idpId: bigint];
+  export interface OutputObject {
+    idpId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace IDPUpdatedEvent {
+  export type InputTuple = [
+    id: BigNumberish,
+    revision: BigNumberish,
+    timestamp: BigNumberish
+  ];
+  export type OutputTuple = [id: bigint, revision: bigint, timestamp: bigint];
+  export interface OutputObject {
+    id: bigint;
+    revision: bigint;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ImpactRatedEvent {
+  export type InputTuple = [
+    idpId: BigNumberish,
+    revision: BigNumberish,
+    manager: AddressLike
+  ];
+  export type OutputTuple = [idpId: bigint, revision: bigint, manager: string];
+  export interface OutputObject {
+    idpId: bigint;
+    revision: bigint;
+    manager: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ImpactRatingSharedEvent {
+  export type InputTuple = [idpId: BigNumberish, revision: BigNumberish];
+  export type OutputTuple = [idpId: bigint, revision: bigint];
+  export interface OutputObject {
+    idpId: bigint;
+    revision: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace MilestoneAddedEvent {
+  export type InputTuple = [
+    idpId: BigNumberish,
+    milestoneId: BigNumberish,
+    label: string,
+    dueDate: BigNumberish
+  ];
+  export type OutputTuple = [
+    idpId: bigint,
+    milestoneId: bigint,
+    label: string,
+    dueDate: bigint
+  ];
+  export interface OutputObject {
+    idpId: bigint;
+    milestoneId: bigint;
+    label: string;
+    dueDate: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace MilestoneEvaluatedEvent {
+  export type InputTuple = [
+    idpId: BigNumberish,
+    milestoneId: BigNumberish,
+    revision: BigNumberish
+  ];
+  export type OutputTuple = [
+    idpId: bigint,
+    milestoneId: bigint,
+    revision: bigint
+  ];
+  export interface OutputObject {
+    idpId: bigint;
+    milestoneId: bigint;
+    revision: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ScenarioSimulatedEvent {
+  export type InputTuple = [
+    idpId: BigNumberish,
+    scenarioId: BigNumberish,
+    label: string
+  ];
+  export type OutputTuple = [idpId: bigint, scenarioId: bigint, label: string];
+  export interface OutputObject {
+    idpId: bigint;
+    scenarioId: bigint;
+    label: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace SimulationCompletedEvent {
+  export type InputTuple = [idpId: BigNumberish, timestamp: BigNumberish];
+  export type OutputTuple = [idpId: bigint, timestamp: bigint];
+  export interface OutputObject {
+    idpId: bigint;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace SkillLevelsUpdatedEvent {
+  export type InputTuple = [
+    idpId: BigNumberish,
+    revision: BigNumberish,
+    skillIds: BigNumberish[]
+  ];
+  export type OutputTuple = [
+    idpId: bigint,
+    revision: bigint,
+    skillIds: bigint[]
+  ];
+  export interface OutputObject {
+    idpId: bigint;
+    revision: bigint;
+    skillIds: bigint[];
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace SkillRegisteredEvent {
+  export type InputTuple = [
+    skillId: BigNumberish,
+    name: string,
+    weight: BigNumberish
+  ];
+  export type OutputTuple = [skillId: bigint, name: string, weight: bigint];
+  export interface OutputObject {
+    skillId: bigint;
+    name: string;
+    weight: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace SkillWeightUpdatedEvent {
+  export type InputTuple = [skillId: BigNumberish, weight: BigNumberish];
+  export type OutputTuple = [skillId: bigint, weight: bigint];
+  export interface OutputObject {
+    skillId: bigint;
+    weight: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace TrajectoryProjectedEvent {
+  export type InputTuple = [idpId: BigNumberish, periods: BigNumberish];
+  export type OutputTuple = [idpId: bigint, periods: bigint];
+  export interface OutputObject {
+    idpId: bigint;
+    periods: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ViewerGrantedEvent {
+  export type InputTuple = [idpId: BigNumberish, viewer: AddressLike];
+  export type OutputTuple = [idpId: bigint, viewer: string];
+  export interface OutputObject {
+    idpId: bigint;
+    viewer: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ViewerRevokedEvent {
+  export type InputTuple = [idpId: BigNumberish, viewer: AddressLike];
+  export type OutputTuple = [idpId: bigint, viewer: string];
+  export interface OutputObject {
+    idpId: bigint;
+    viewer: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface CareerGrowthSim extends BaseContract {
+  connect(runner?: ContractRunner | null): CareerGrowthSim;
+  waitForDeployment(): Promise<this>;
+
+  interface: CareerGrowthSimInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  HOURS_PER_SKILL_POINT: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_IDP_SKILLS: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_TRAJECTORY_PERIODS: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_VIEWERS: TypedContractMethod<[], [bigint], "view">;
+
+  activateIDP: TypedContractMethod<[idpId: BigNumberish], [void], "nonpayable">;
+
+  addMilestone: TypedContractMethod<
+    [
+      idpId: BigNumberish,
+      label: string,
+      metric: BigNumberish,
+      targetInput: BytesLike,
+      inputProof: BytesLike,
+      dueDate: BigNumberish
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+
+  analytics: TypedContractMethod<[], [string], "view">;
+
+  archiveIDP: TypedContractMethod<[idpId: BigNumberish], [void], "nonpayable">;
+
+  checkReadiness: TypedContractMethod<
+    [idpId: BigNumberish, jobRoleId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  completeIDP: TypedContractMethod<[idpId: BigNumberish], [void], "nonpayable">;
+
+  encryptedIDPs: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, string, bigint, bigint, bigint, bigint] & {
+        id: bigint;
+        owner: string;
+        cohortId: bigint;
+        latestRevision: bigint;
+        timestamp: bigint;
+        status: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  evaluateMilestone: TypedContractMethod<
+    [idpId: BigNumberish, milestoneId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  getIDPIds: TypedContractMethod<
+    [offset: BigNumberish, limit: BigNumberish],
+    [bigint[]],
+    "view"
+  >;
+
+  getIDPSkills: TypedContractMethod<[idpId: BigNumberish], [bigint[]], "view">;
+
+  getOwnerIDPCount: TypedContractMethod<[owner: AddressLike], [bigint], "view">;
+
+  getOwnerIDPs: TypedContractMethod<
+    [owner: AddressLike, offset: BigNumberish, limit: BigNumberish],
+    [bigint[]],
+    "view"
+  >;
+
+  getPublishedIDPCount: TypedContractMethod<[], [bigint], "view">;
+
+  getPublishedIDPs: TypedContractMethod<
+    [offset: BigNumberish, limit: BigNumberish],
+    [bigint[]],
+    "view"
+  >;
+
+  getTrajectory: TypedContractMethod<
+    [idpId: BigNumberish],
+    [
+      [string[], string, bigint, bigint, bigint, boolean] & {
+        periodScores: string[];
+        goalPeriod: string;
+        modelId: bigint;
+        modelVersion: bigint;
+        revision: bigint;
+        isCalculated: boolean;
+      }
+    ],
+    "view"
+  >;
+
+  getViewers: TypedContractMethod<[idpId: BigNumberish], [string[]], "view">;
+
+  goalComparisons: TypedContractMethod<
+    [arg0: BigNumberish],
+    [[string, bigint] & { encryptedGoalExceeded: string; revision: bigint }],
+    "view"
+  >;
+
+  grantViewer: TypedContractMethod<
+    [idpId: BigNumberish, viewer: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  growthModels: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [string, bigint, boolean] & {
+        name: string;
+        version: bigint;
+        exists: boolean;
+      }
+    ],
+    "view"
+  >;
+
+  idpCount: TypedContractMethod<[], [bigint], "view">;
+
+  idpRevisions: TypedContractMethod<
+    [arg0: BigNumberish, arg1: BigNumberish],
+    [
+      [string, string, string, string, bigint] & {
+        encryptedSkillLevel: string;
+        encryptedLearningHours: string;
+        encryptedProjectImpact: string;
+        encryptedCareerGoal: string;
+        timestamp: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  idpViewers: TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [boolean],
+    "view"
+  >;
+
+  impactRatings: TypedContractMethod<
+    [arg0: BigNumberish, arg1: BigNumberish],
+    [
+      [string, string, bigint, boolean] & {
+        encryptedRating: string;
+        manager: string;
+        timestamp: bigint;
+        shared: boolean;
+      }
+    ],
+    "view"
+  >;
+
+  isPublished: TypedContractMethod<[idpId: BigNumberish], [boolean], "view">;
+
+  ladder: TypedContractMethod<[], [string], "view">;
+
+  latestSimulatedRevision: TypedContractMethod<
+    [arg0: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  milestoneCount: TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+
+  milestones: TypedContractMethod<
+    [arg0: BigNumberish, arg1: BigNumberish],
+    [
+      [string, bigint, string, bigint, string, bigint, boolean] & {
+        label: string;
+        metric: bigint;
+        encryptedTarget: string;
+        dueDate: bigint;
+        encryptedMet: string;
+        evaluatedRevision: bigint;
+        ratingApplied: boolean;
+      }
+    ],
+    "view"
+  >;
+
+  modelCount: TypedContractMethod<[], [bigint], "view">;
+
+  modelWeights: TypedContractMethod<
+    [arg0: BigNumberish, arg1: BigNumberish],
+    [
+      [bigint, bigint, bigint, bigint] & {
+        skillWeight: bigint;
+        learningHoursWeight: bigint;
+        projectImpactWeight: bigint;
+        divisor: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  projectTrajectory: TypedContractMethod<
+    [
+      idpId: BigNumberish,
+      modelId: BigNumberish,
+      revision: BigNumberish,
+      periods: BigNumberish
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  protocolId: TypedContractMethod<[], [bigint], "view">;
+
+  publishIDP: TypedContractMethod<[idpId: BigNumberish], [void], "nonpayable">;
+
+  rateProjectImpact: TypedContractMethod<
+    [
+      idpId: BigNumberish,
+      revision: BigNumberish,
+      ratingInput: BytesLike,
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  reactivateIDP: TypedContractMethod<
+    [idpId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  registerGrowthModel: TypedContractMethod<
+    [name: string, weights: CareerGrowthSim.ModelWeightsStruct],
+    [bigint],
+    "nonpayable"
+  >;
+
+  registerSkill: TypedContractMethod<
+    [name: string, weight: BigNumberish],
+    [bigint],
+    "nonpayable"
+  >;
+
+  reportSkillGap: TypedContractMethod<
+    [idpId: BigNumberish, jobRoleId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  revokeViewer: TypedContractMethod<
+    [idpId: BigNumberish, viewer: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  roles: TypedContractMethod<[], [string], "view">;
+
+  runEncryptedSimulation: TypedContractMethod<
+    [idpId: BigNumberish, modelId: BigNumberish, revision: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  runScenarioSimulation: TypedContractMethod<
+    [
+      idpId: BigNumberish,
+      label: string,
+      skillLevelDeltaInput: BytesLike,
+      learningHoursDeltaInput: BytesLike,
+      projectImpactDeltaInput: BytesLike,
+      inputProof: BytesLike,
+      modelId: BigNumberish,
+      revision: BigNumberish
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+
+  scenarioCount: TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+
+  scenarioResults: TypedContractMethod<
+    [arg0: BigNumberish, arg1: BigNumberish],
+    [
+      [string, boolean, bigint, bigint, bigint, boolean] & {
+        encryptedGrowthScore: string;
+        isCalculated: boolean;
+        modelId: bigint;
+        modelVersion: bigint;
+        revision: bigint;
+        managerRated: boolean;
+      }
+    ],
+    "view"
+  >;
+
+  scenarios: TypedContractMethod<
+    [arg0: BigNumberish, arg1: BigNumberish],
+    [
+      [string, string, string, string, bigint] & {
+        label: string;
+        skillLevelDelta: string;
+        learningHoursDelta: string;
+        projectImpactDelta: string;
+        timestamp: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  shareImpactRating: TypedContractMethod<
+    [idpId: BigNumberish, revision: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  shareRevision: TypedContractMethod<
+    [idpId: BigNumberish, revision: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  simulationResults: TypedContractMethod<
+    [arg0: BigNumberish, arg1: BigNumberish],
+    [
+      [string, boolean, bigint, bigint, bigint, boolean] & {
+        encryptedGrowthScore: string;
+        isCalculated: boolean;
+        modelId: bigint;
+        modelVersion: bigint;
+        revision: bigint;
+        managerRated: boolean;
+      }
+    ],
+    "view"
+  >;
+
+  skillCount: TypedContractMethod<[], [bigint], "view">;
+
+  skillLevels: TypedContractMethod<
+    [arg0: BigNumberish, arg1: BigNumberish],
+    [string],
+    "view"
+  >;
+
+  skills: TypedContractMethod<
+    [arg0: BigNumberish],
+    [[string, bigint] & { name: string; weight: bigint }],
+    "view"
+  >;
+
+  submitEncryptedIDP: TypedContractMethod<
+    [
+      skillIds: BigNumberish[],
+      skillLevelInputs: BytesLike[],
+      learningHoursInput: BytesLike,
+      projectImpactInput: BytesLike,
+      careerGoalInput: BytesLike,
+      inputProof: BytesLike,
+      cohortId: BigNumberish
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  unpublishIDP: TypedContractMethod<
+    [idpId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  updateEncryptedIDP: TypedContractMethod<
+    [
+      idpId: BigNumberish,
+      learningHoursInput: BytesLike,
+      projectImpactInput: BytesLike,
+      careerGoalInput: BytesLike,
+      inputProof: BytesLike
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+
+  updateGrowthModel: TypedContractMethod<
+    [modelId: BigNumberish, weights: CareerGrowthSim.ModelWeightsStruct],
+    [void],
+    "nonpayable"
+  >;
+
+  updateSkillLevels: TypedContractMethod<
+    [
+      idpId: BigNumberish,
+      skillIds: BigNumberish[],
+      skillLevelInputs: BytesLike[],
+      inputProof: BytesLike
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+
+  updateSkillWeight: TypedContractMethod<
+    [skillId: BigNumberish, weight: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "HOURS_PER_SKILL_POINT"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_IDP_SKILLS"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_TRAJECTORY_PERIODS"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_VIEWERS"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "activateIDP"
+  ): TypedContractMethod<[idpId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "addMilestone"
+  ): TypedContractMethod<
+    [
+      idpId: BigNumberish,
+      label: string,
+      metric: BigNumberish,
+      targetInput: BytesLike,
+      inputProof: BytesLike,
+      dueDate: BigNumberish
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "analytics"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "archiveIDP"
+  ): TypedContractMethod<[idpId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "checkReadiness"
+  ): TypedContractMethod<
+    [idpId: BigNumberish, jobRoleId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "completeIDP"
+  ): TypedContractMethod<[idpId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "encryptedIDPs"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, string, bigint, bigint, bigint, bigint] & {
+        id: bigint;
+        owner: string;
+        cohortId: bigint;
+        latestRevision: bigint;
+        timestamp: bigint;
+        status: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "evaluateMilestone"
+  ): TypedContractMethod<
+    [idpId: BigNumberish, milestoneId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "getIDPIds"
+  ): TypedContractMethod<
+    [offset: BigNumberish, limit: BigNumberish],
+    [bigint[]],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getIDPSkills"
+  ): TypedContractMethod<[idpId: BigNumberish], [bigint[]], "view">;
+  getFunction(
+    nameOrSignature: "getOwnerIDPCount"
+  ): TypedContractMethod<[owner: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getOwnerIDPs"
+  ): TypedContractMethod<
+    [owner: AddressLike, offset: BigNumberish, limit: BigNumberish],
+    [bigint[]],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getPublishedIDPCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getPublishedIDPs"
+  ): TypedContractMethod<
+    [offset: BigNumberish, limit: BigNumberish],
+    [bigint[]],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getTrajectory"
+  ): TypedContractMethod<
+    [idpId: BigNumberish],
+    [
+      [string[], string, bigint, bigint, bigint, boolean] & {
+        periodScores: string[];
+        goalPeriod: string;
+        modelId: bigint;
+        modelVersion: bigint;
+        revision: bigint;
+        isCalculated: boolean;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getViewers"
+  ): TypedContractMethod<[idpId: BigNumberish], [string[]], "view">;
+  getFunction(
+    nameOrSignature: "goalComparisons"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [[string, bigint] & { encryptedGoalExceeded: string; revision: bigint }],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "grantViewer"
+  ): TypedContractMethod<
+    [idpId: BigNumberish, viewer: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "growthModels"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [string, bigint, boolean] & {
+        name: string;
+        version: bigint;
+        exists: boolean;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "idpCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "idpRevisions"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: BigNumberish],
+    [
+      [string, string, string, string, bigint] & {
+        encryptedSkillLevel: string;
+        encryptedLearningHours: string;
+        encryptedProjectImpact: string;
+        encryptedCareerGoal: string;
+        timestamp: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "idpViewers"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "impactRatings"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: BigNumberish],
+    [
+      [string, string, bigint, boolean] & {
+        encryptedRating: string;
+        manager: string;
+        timestamp: bigint;
+        shared: boolean;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "isPublished"
+  ): TypedContractMethod<[idpId: BigNumberish], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "ladder"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "latestSimulatedRevision"
+  ): TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "milestoneCount"
+  ): TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "milestones"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: BigNumberish],
+    [
+      [string, bigint, string, bigint, string, bigint, boolean] & {
+        label: string;
+        metric: bigint;
+        encryptedTarget: string;
+        dueDate: bigint;
+        encryptedMet: string;
+        evaluatedRevision: bigint;
+        ratingApplied: boolean;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "modelCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "modelWeights"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: BigNumberish],
+    [
+      [bigint, bigint, bigint, bigint] & {
+        skillWeight: bigint;
+        learningHoursWeight: bigint;
+        projectImpactWeight: bigint;
+        divisor: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "projectTrajectory"
+  ): TypedContractMethod<
+    [
+      idpId: BigNumberish,
+      modelId: BigNumberish,
+      revision: BigNumberish,
+      periods: BigNumberish
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "protocolId"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "publishIDP"
+  ): TypedContractMethod<[idpId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "rateProjectImpact"
+  ): TypedContractMethod<
+    [
+      idpId: BigNumberish,
+      revision: BigNumberish,
+      ratingInput: BytesLike,
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "reactivateIDP"
+  ): TypedContractMethod<[idpId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "registerGrowthModel"
+  ): TypedContractMethod<
+    [name: string, weights: CareerGrowthSim.ModelWeightsStruct],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "registerSkill"
+  ): TypedContractMethod<
+    [name: string, weight: BigNumberish],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "reportSkillGap"
+  ): TypedContractMethod<
+    [idpId: BigNumberish, jobRoleId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "revokeViewer"
+  ): TypedContractMethod<
+    [idpId: BigNumberish, viewer: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "roles"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "runEncryptedSimulation"
+  ): TypedContractMethod<
+    [idpId: BigNumberish, modelId: BigNumberish, revision: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "runScenarioSimulation"
+  ): TypedContractMethod<
+    [
+      idpId: BigNumberish,
+      label: string,
+      skillLevelDeltaInput: BytesLike,
+      learningHoursDeltaInput: BytesLike,
+      projectImpactDeltaInput: BytesLike,
+      inputProof: BytesLike,
+      modelId: BigNumberish,
+      revision: BigNumberish
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "scenarioCount"
+  ): TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "scenarioResults"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: BigNumberish],
+    [
+      [string, boolean, bigint, bigint, bigint, boolean] & {
+        encryptedGrowthScore: string;
+        isCalculated: boolean;
+        modelId: bigint;
+        modelVersion: bigint;
+        revision: bigint;
+        managerRated: boolean;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "scenarios"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: BigNumberish],
+    [
+      [string, string, string, string, bigint] & {
+        label: string;
+        skillLevelDelta: string;
+        learningHoursDelta: string;
+        projectImpactDelta: string;
+        timestamp: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "shareImpactRating"
+  ): TypedContractMethod<
+    [idpId: BigNumberish, revision: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "shareRevision"
+  ): TypedContractMethod<
+    [idpId: BigNumberish, revision: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "simulationResults"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: BigNumberish],
+    [
+      [string, boolean, bigint, bigint, bigint, boolean] & {
+        encryptedGrowthScore: string;
+        isCalculated: boolean;
+        modelId: bigint;
+        modelVersion: bigint;
+        revision: bigint;
+        managerRated: boolean;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "skillCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "skillLevels"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: BigNumberish],
+    [string],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "skills"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [[string, bigint] & { name: string; weight: bigint }],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "submitEncryptedIDP"
+  ): TypedContractMethod<
+    [
+      skillIds: BigNumberish[],
+      skillLevelInputs: BytesLike[],
+      learningHoursInput: BytesLike,
+      projectImpactInput: BytesLike,
+      careerGoalInput: BytesLike,
+      inputProof: BytesLike,
+      cohortId: BigNumberish
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "unpublishIDP"
+  ): TypedContractMethod<[idpId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "updateEncryptedIDP"
+  ): TypedContractMethod<
+    [
+      idpId: BigNumberish,
+      learningHoursInput: BytesLike,
+      projectImpactInput: BytesLike,
+      careerGoalInput: BytesLike,
+      inputProof: BytesLike
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "updateGrowthModel"
+  ): TypedContractMethod<
+    [modelId: BigNumberish, weights: CareerGrowthSim.ModelWeightsStruct],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "updateSkillLevels"
+  ): TypedContractMethod<
+    [
+      idpId: BigNumberish,
+      skillIds: BigNumberish[],
+      skillLevelInputs: BytesLike[],
+      inputProof: BytesLike
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "updateSkillWeight"
+  ): TypedContractMethod<
+    [skillId: BigNumberish, weight: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  getEvent(
+    key: "GrowthModelRegistered"
+  ): TypedContractEvent<
+    GrowthModelRegisteredEvent.InputTuple,
+    GrowthModelRegisteredEvent.OutputTuple,
+    GrowthModelRegisteredEvent.OutputObject
+  >;
+  getEvent(
+    key: "GrowthModelUpdated"
+  ): TypedContractEvent<
+    GrowthModelUpdatedEvent.InputTuple,
+    GrowthModelUpdatedEvent.OutputTuple,
+    GrowthModelUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "IDPPublished"
+  ): TypedContractEvent<
+    IDPPublishedEvent.InputTuple,
+    IDPPublishedEvent.OutputTuple,
+    IDPPublishedEvent.OutputObject
+  >;
+  getEvent(
+    key: "IDPStatusChanged"
+  ): TypedContractEvent<
+    IDPStatusChangedEvent.InputTuple,
+    IDPStatusChangedEvent.OutputTuple,
+    IDPStatusChangedEvent.OutputObject
+  >;
+  getEvent(
+    key: "IDPSubmitted"
+  ): TypedContractEvent<
+    IDPSubmittedEvent.InputTuple,
+    IDPSubmittedEvent.OutputTuple,
+    IDPSubmittedEvent.OutputObject
+  >;
+  getEvent(
+    key: "IDPUnpublished"
+  ): TypedContractEvent<
+    IDPUnpublishedEvent.InputTuple,
+    IDPUnpublishedEvent.OutputTuple,
+    IDPUnpublishedEvent.OutputObject
+  >;
+  getEvent(
+    key: "IDPUpdated"
+  ): TypedContractEvent<
+    IDPUpdatedEvent.InputTuple,
+    IDPUpdatedEvent.OutputTuple,
+    IDPUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ImpactRated"
+  ): TypedContractEvent<
+    ImpactRatedEvent.InputTuple,
+    ImpactRatedEvent.OutputTuple,
+    ImpactRatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ImpactRatingShared"
+  ): TypedContractEvent<
+    ImpactRatingSharedEvent.InputTuple,
+    ImpactRatingSharedEvent.OutputTuple,
+    ImpactRatingSharedEvent.OutputObject
+  >;
+  getEvent(
+    key: "MilestoneAdded"
+  ): TypedContractEvent<
+    MilestoneAddedEvent.InputTuple,
+    MilestoneAddedEvent.OutputTuple,
+    MilestoneAddedEvent.OutputObject
+  >;
+  getEvent(
+    key: "MilestoneEvaluated"
+  ): TypedContractEvent<
+    MilestoneEvaluatedEvent.InputTuple,
+    MilestoneEvaluatedEvent.OutputTuple,
+    MilestoneEvaluatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ScenarioSimulated"
+  ): TypedContractEvent<
+    ScenarioSimulatedEvent.InputTuple,
+    ScenarioSimulatedEvent.OutputTuple,
+    ScenarioSimulatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "SimulationCompleted"
+  ): TypedContractEvent<
+    SimulationCompletedEvent.InputTuple,
+    SimulationCompletedEvent.OutputTuple,
+    SimulationCompletedEvent.OutputObject
+  >;
+  getEvent(
+    key: "SkillLevelsUpdated"
+  ): TypedContractEvent<
+    SkillLevelsUpdatedEvent.InputTuple,
+    SkillLevelsUpdatedEvent.OutputTuple,
+    SkillLevelsUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "SkillRegistered"
+  ): TypedContractEvent<
+    SkillRegisteredEvent.InputTuple,
+    SkillRegisteredEvent.OutputTuple,
+    SkillRegisteredEvent.OutputObject
+  >;
+  getEvent(
+    key: "SkillWeightUpdated"
+  ): TypedContractEvent<
+    SkillWeightUpdatedEvent.InputTuple,
+    SkillWeightUpdatedEvent.OutputTuple,
+    SkillWeightUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "TrajectoryProjected"
+  ): TypedContractEvent<
+    TrajectoryProjectedEvent.InputTuple,
+    TrajectoryProjectedEvent.OutputTuple,
+    TrajectoryProjectedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ViewerGranted"
+  ): TypedContractEvent<
+    ViewerGrantedEvent.InputTuple,
+    ViewerGrantedEvent.OutputTuple,
+    ViewerGrantedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ViewerRevoked"
+  ): TypedContractEvent<
+    ViewerRevokedEvent.InputTuple,
+    ViewerRevokedEvent.OutputTuple,
+    ViewerRevokedEvent.OutputObject
+  >;
+
+  filters: {
+    "GrowthModelRegistered(uint256,string)": TypedContractEvent<
+      GrowthModelRegisteredEvent.InputTuple,
+      GrowthModelRegisteredEvent.OutputTuple,
+      GrowthModelRegisteredEvent.OutputObject
+    >;
+    GrowthModelRegistered: TypedContractEvent<
+      GrowthModelRegisteredEvent.InputTuple,
+      GrowthModelRegisteredEvent.OutputTuple,
+      GrowthModelRegisteredEvent.OutputObject
+    >;
+
+    "GrowthModelUpdated(uint256,uint32)": TypedContractEvent<
+      GrowthModelUpdatedEvent.InputTuple,
+      GrowthModelUpdatedEvent.OutputTuple,
+      GrowthModelUpdatedEvent.OutputObject
+    >;
+    GrowthModelUpdated: TypedContractEvent<
+      GrowthModelUpdatedEvent.InputTuple,
+      GrowthModelUpdatedEvent.OutputTuple,
+      GrowthModelUpdatedEvent.OutputObject
+    >;
+
+    "IDPPublished(uint256)": TypedContractEvent<
+      IDPPublishedEvent.InputTuple,
+      IDPPublishedEvent.OutputTuple,
+      IDPPublishedEvent.OutputObject
+    >;
+    IDPPublished: TypedContractEvent<
+      IDPPublishedEvent.InputTuple,
+      IDPPublishedEvent.OutputTuple,
+      IDPPublishedEvent.OutputObject
+    >;
+
+    "IDPStatusChanged(uint256,uint8,uint8)": TypedContractEvent<
+      IDPStatusChangedEvent.InputTuple,
+      IDPStatusChangedEvent.OutputTuple,
+      IDPStatusChangedEvent.OutputObject
+    >;
+    IDPStatusChanged: TypedContractEvent<
+      IDPStatusChangedEvent.InputTuple,
+      IDPStatusChangedEvent.OutputTuple,
+      IDPStatusChangedEvent.OutputObject
+    >;
+
+    "IDPSubmitted(uint256,uint256)": TypedContractEvent<
+      IDPSubmittedEvent.InputTuple,
+      IDPSubmittedEvent.OutputTuple,
+      IDPSubmittedEvent.OutputObject
+    >;
+    IDPSubmitted: TypedContractEvent<
+      IDPSubmittedEvent.InputTuple,
+      IDPSubmittedEvent.OutputTuple,
+      IDPSubmittedEvent.OutputObject
+    >;
+
+    "IDPUnpublished(uint256)": TypedContractEvent<
+      IDPUnpublishedEvent.InputTuple,
+      IDPUnpublishedEvent.OutputTuple,
+      IDPUnpublishedEvent.OutputObject
+    >;
+    IDPUnpublished: TypedContractEvent<
+      IDPUnpublishedEvent.InputTuple,
+      IDPUnpublishedEvent.OutputTuple,
+      IDPUnpublishedEvent.OutputObject
+    >;
+
+    "IDPUpdated(uint256,uint32,uint256)": TypedContractEvent<
+      IDPUpdatedEvent.InputTuple,
+      IDPUpdatedEvent.OutputTuple,
+      IDPUpdatedEvent.OutputObject
+    >;
+    IDPUpdated: TypedContractEvent<
+      IDPUpdatedEvent.InputTuple,
+      IDPUpdatedEvent.OutputTuple,
+      IDPUpdatedEvent.OutputObject
+    >;
+
+    "ImpactRated(uint256,uint32,address)": TypedContractEvent<
+      ImpactRatedEvent.InputTuple,
+      ImpactRatedEvent.OutputTuple,
+      ImpactRatedEvent.OutputObject
+    >;
+    ImpactRated: TypedContractEvent<
+      ImpactRatedEvent.InputTuple,
+      ImpactRatedEvent.OutputTuple,
+      ImpactRatedEvent.OutputObject
+    >;
+
+    "ImpactRatingShared(uint256,uint32)": TypedContractEvent<
+      ImpactRatingSharedEvent.InputTuple,
+      ImpactRatingSharedEvent.OutputTuple,
+      ImpactRatingSharedEvent.OutputObject
+    >;
+    ImpactRatingShared: TypedContractEvent<
+      ImpactRatingSharedEvent.InputTuple,
+      ImpactRatingSharedEvent.OutputTuple,
+      ImpactRatingSharedEvent.OutputObject
+    >;
+
+    "MilestoneAdded(uint256,uint256,string,uint256)": TypedContractEvent<
+      MilestoneAddedEvent.InputTuple,
+      MilestoneAddedEvent.OutputTuple,
+      MilestoneAddedEvent.OutputObject
+    >;
+    MilestoneAdded: TypedContractEvent<
+      MilestoneAddedEvent.InputTuple,
+      MilestoneAddedEvent.OutputTuple,
+      MilestoneAddedEvent.OutputObject
+    >;
+
+    "MilestoneEvaluated(uint256,uint256,uint32)": TypedContractEvent<
+      MilestoneEvaluatedEvent.InputTuple,
+      MilestoneEvaluatedEvent.OutputTuple,
+      MilestoneEvaluatedEvent.OutputObject
+    >;
+    MilestoneEvaluated: TypedContractEvent<
+      MilestoneEvaluatedEvent.InputTuple,
+      MilestoneEvaluatedEvent.OutputTuple,
+      MilestoneEvaluatedEvent.OutputObject
+    >;
+
+    "ScenarioSimulated(uint256,uint256,string)": TypedContractEvent<
+      ScenarioSimulatedEvent.InputTuple,
+      ScenarioSimulatedEvent.OutputTuple,
+      ScenarioSimulatedEvent.OutputObject
+    >;
+    ScenarioSimulated: TypedContractEvent<
+      ScenarioSimulatedEvent.InputTuple,
+      ScenarioSimulatedEvent.OutputTuple,
+      ScenarioSimulatedEvent.OutputObject
+    >;
+
+    "SimulationCompleted(uint256,uint256)": TypedContractEvent<
+      SimulationCompletedEvent.InputTuple,
+      SimulationCompletedEvent.OutputTuple,
+      SimulationCompletedEvent.OutputObject
+    >;
+    SimulationCompleted: TypedContractEvent<
+      SimulationCompletedEvent.InputTuple,
+      SimulationCompletedEvent.OutputTuple,
+      SimulationCompletedEvent.OutputObject
+    >;
+
+    "SkillLevelsUpdated(uint256,uint32,uint256[])": TypedContractEvent<
+      SkillLevelsUpdatedEvent.InputTuple,
+      SkillLevelsUpdatedEvent.OutputTuple,
+      SkillLevelsUpdatedEvent.OutputObject
+    >;
+    SkillLevelsUpdated: TypedContractEvent<
+      SkillLevelsUpdatedEvent.InputTuple,
+      SkillLevelsUpdatedEvent.OutputTuple,
+      SkillLevelsUpdatedEvent.OutputObject
+    >;
+
+    "SkillRegistered(uint256,string,uint32)": TypedContractEvent<
+      SkillRegisteredEvent.InputTuple,
+      SkillRegisteredEvent.OutputTuple,
+      SkillRegisteredEvent.OutputObject
+    >;
+    SkillRegistered: TypedContractEvent<
+      SkillRegisteredEvent.InputTuple,
+      SkillRegisteredEvent.OutputTuple,
+      SkillRegisteredEvent.OutputObject
+    >;
+
+    "SkillWeightUpdated(uint256,uint32)": TypedContractEvent<
+      SkillWeightUpdatedEvent.InputTuple,
+      SkillWeightUpdatedEvent.OutputTuple,
+      SkillWeightUpdatedEvent.OutputObject
+    >;
+    SkillWeightUpdated: TypedContractEvent<
+      SkillWeightUpdatedEvent.InputTuple,
+      SkillWeightUpdatedEvent.OutputTuple,
+      SkillWeightUpdatedEvent.OutputObject
+    >;
+
+    "TrajectoryProjected(uint256,uint8)": TypedContractEvent<
+      TrajectoryProjectedEvent.InputTuple,
+      TrajectoryProjectedEvent.OutputTuple,
+      TrajectoryProjectedEvent.OutputObject
+    >;
+    TrajectoryProjected: TypedContractEvent<
+      TrajectoryProjectedEvent.InputTuple,
+      TrajectoryProjectedEvent.OutputTuple,
+      TrajectoryProjectedEvent.OutputObject
+    >;
+
+    "ViewerGranted(uint256,address)": TypedContractEvent<
+      ViewerGrantedEvent.InputTuple,
+      ViewerGrantedEvent.OutputTuple,
+      ViewerGrantedEvent.OutputObject
+    >;
+    ViewerGranted: TypedContractEvent<
+      ViewerGrantedEvent.InputTuple,
+      ViewerGrantedEvent.OutputTuple,
+      ViewerGrantedEvent.OutputObject
+    >;
+
+    "ViewerRevoked(uint256,address)": TypedContractEvent<
+      ViewerRevokedEvent.InputTuple,
+      ViewerRevokedEvent.OutputTuple,
+      ViewerRevokedEvent.OutputObject
+    >;
+    ViewerRevoked: TypedContractEvent<
+      ViewerRevokedEvent.InputTuple,
+      ViewerRevokedEvent.OutputTuple,
+      ViewerRevokedEvent.OutputObject
+    >;
+  };
+}
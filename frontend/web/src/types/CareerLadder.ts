@@ -0,0 +1,673 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "./common";
+
+export declare namespace CareerLadder {
+  export type SkillRequirementStruct = {
+    skillId: BigNumberish;
+    minLevel: BigNumberish;
+  };
+
+  export type SkillRequirementStructOutput = [
+    skillId: bigint,
+    minLevel: bigint
+  ] & { skillId: bigint; minLevel: bigint };
+
+  export type MetricMinimumsStruct = {
+    skillLevel: BigNumberish;
+    learningHours: BigNumberish;
+    projectImpact: BigNumberish;
+  };
+
+  export type MetricMinimumsStructOutput = [
+    skillLevel: bigint,
+    learningHours: bigint,
+    projectImpact: bigint
+  ] & { skillLevel: bigint; learningHours: bigint; projectImpact: bigint };
+}
+
+export interface CareerLadderInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "MAX_ROLE_SKILLS"
+      | "getSkillGapReport"
+      | "getSkillRequirements"
+      | "jobRoleCount"
+      | "jobRoles"
+      | "metricMinimums"
+      | "protocolId"
+      | "readinessResults"
+      | "recordReadiness"
+      | "recordSkillGap"
+      | "registerJobRole"
+      | "roles"
+      | "setSimulator"
+      | "simulator"
+      | "updateJobRole"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "JobRoleRegistered"
+      | "JobRoleUpdated"
+      | "ReadinessChecked"
+      | "SkillGapReported"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "MAX_ROLE_SKILLS",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getSkillGapReport",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getSkillRequirements",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "jobRoleCount",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "jobRoles",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "metricMinimums",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "protocolId",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "readinessResults",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "recordReadiness",
+    values: [
+      BigNumberish,
+      BigNumberish,
+      BigNumberish,
+      AddressLike,
+      BigNumberish[],
+      BytesLike[],
+      BytesLike,
+      BytesLike,
+      BytesLike
+    ]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "recordSkillGap",
+    values: [
+      BigNumberish,
+      BigNumberish,
+      BigNumberish,
+      AddressLike,
+      BigNumberish[],
+      BytesLike[]
+    ]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "registerJobRole",
+    values: [
+      string,
+      BigNumberish,
+      CareerLadder.MetricMinimumsStruct,
+      BigNumberish[],
+      BigNumberish[]
+    ]
+  ): string;
+  encodeFunctionData(functionFragment: "roles", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "setSimulator",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(functionFragment: "simulator", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "updateJobRole",
+    values: [
+      BigNumberish,
+      CareerLadder.MetricMinimumsStruct,
+      BigNumberish[],
+      BigNumberish[]
+    ]
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "MAX_ROLE_SKILLS",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getSkillGapReport",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getSkillRequirements",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "jobRoleCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "jobRoles", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "metricMinimums",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "protocolId", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "readinessResults",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "recordReadiness",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "recordSkillGap",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "registerJobRole",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "roles", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "setSimulator",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "simulator", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "updateJobRole",
+    data: BytesLike
+  ): Result;
+}
+
+export namespace JobRoleRegisteredEvent {
+  export type InputTuple = [
+    jobRoleId: BigNumberish,
+    name: string,
+    rank: BigNumberish
+  ];
+  export type OutputTuple = [jobRoleId: bigint, name: string, rank: bigint];
+  export interface OutputObject {
+    jobRoleId: bigint;
+    name: string;
+    rank: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace JobRoleUpdatedEvent {
+  export type InputTuple = [jobRoleId: BigNumberish, version: BigNumberish];
+  export type OutputTuple = [jobRoleId: bigint, version: bigint];
+  export interface OutputObject {
+    jobRoleId: bigint;
+    version: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ReadinessCheckedEvent {
+  export type InputTuple = [
+    idpId: BigNumberish,
+    jobRoleId: BigNumberish,
+    revision: BigNumberish
+  ];
+  export type OutputTuple = [
+    idpId: bigint,
+    jobRoleId: bigint,
+    revision: bigint
+  ];
+  export interface OutputObject {
+    idpId: bigint;
+    jobRoleId: bigint;
+    revision: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace SkillGapReportedEvent {
+  export type InputTuple = [
+    idpId: BigNumberish,
+    jobRoleId: BigNumberish,
+    revision: BigNumberish
+  ];
+  export type OutputTuple = [
+    idpId: bigint,
+    jobRoleId: bigint,
+    revision: bigint
+  ];
+  export interface OutputObject {
+    idpId: bigint;
+    jobRoleId: bigint;
+    revision: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface CareerLadder extends BaseContract {
+  connect(runner?: ContractRunner | null): CareerLadder;
+  waitForDeployment(): Promise<this>;
+
+  interface: CareerLadderInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  MAX_ROLE_SKILLS: TypedContractMethod<[], [bigint], "view">;
+
+  getSkillGapReport: TypedContractMethod<
+    [idpId: BigNumberish, jobRoleId: BigNumberish],
+    [
+      [bigint[], string[], bigint, bigint, boolean] & {
+        skillIds: bigint[];
+        encryptedShortfalls: string[];
+        revision: bigint;
+        jobRoleVersion: bigint;
+        isCalculated: boolean;
+      }
+    ],
+    "view"
+  >;
+
+  getSkillRequirements: TypedContractMethod<
+    [jobRoleId: BigNumberish],
+    [CareerLadder.SkillRequirementStructOutput[]],
+    "view"
+  >;
+
+  jobRoleCount: TypedContractMethod<[], [bigint], "view">;
+
+  jobRoles: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [string, bigint, bigint, boolean] & {
+        name: string;
+        rank: bigint;
+        version: bigint;
+        exists: boolean;
+      }
+    ],
+    "view"
+  >;
+
+  metricMinimums: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, bigint, bigint] & {
+        skillLevel: bigint;
+        learningHours: bigint;
+        projectImpact: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  protocolId: TypedContractMethod<[], [bigint], "view">;
+
+  readinessResults: TypedContractMethod<
+    [arg0: BigNumberish, arg1: BigNumberish],
+    [
+      [string, string, bigint, bigint, boolean] & {
+        encryptedReady: string;
+        encryptedUnmetCount: string;
+        revision: bigint;
+        jobRoleVersion: bigint;
+        isCalculated: boolean;
+      }
+    ],
+    "view"
+  >;
+
+  recordReadiness: TypedContractMethod<
+    [
+      idpId: BigNumberish,
+      jobRoleId: BigNumberish,
+      revision: BigNumberish,
+      owner: AddressLike,
+      skillIds: BigNumberish[],
+      skillLevels: BytesLike[],
+      skillLevel: BytesLike,
+      learningHours: BytesLike,
+      projectImpact: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  recordSkillGap: TypedContractMethod<
+    [
+      idpId: BigNumberish,
+      jobRoleId: BigNumberish,
+      revision: BigNumberish,
+      owner: AddressLike,
+      skillIds: BigNumberish[],
+      skillLevels: BytesLike[]
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  registerJobRole: TypedContractMethod<
+    [
+      name: string,
+      rank: BigNumberish,
+      minimums: CareerLadder.MetricMinimumsStruct,
+      skillIds: BigNumberish[],
+      minLevels: BigNumberish[]
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+
+  roles: TypedContractMethod<[], [string], "view">;
+
+  setSimulator: TypedContractMethod<
+    [simulatorAddress: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  simulator: TypedContractMethod<[], [string], "view">;
+
+  updateJobRole: TypedContractMethod<
+    [
+      jobRoleId: BigNumberish,
+      minimums: CareerLadder.MetricMinimumsStruct,
+      skillIds: BigNumberish[],
+      minLevels: BigNumberish[]
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "MAX_ROLE_SKILLS"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getSkillGapReport"
+  ): TypedContractMethod<
+    [idpId: BigNumberish, jobRoleId: BigNumberish],
+    [
+      [bigint[], string[], bigint, bigint, boolean] & {
+        skillIds: bigint[];
+        encryptedShortfalls: string[];
+        revision: bigint;
+        jobRoleVersion: bigint;
+        isCalculated: boolean;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getSkillRequirements"
+  ): TypedContractMethod<
+    [jobRoleId: BigNumberish],
+    [CareerLadder.SkillRequirementStructOutput[]],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "jobRoleCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "jobRoles"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [string, bigint, bigint, boolean] & {
+        name: string;
+        rank: bigint;
+        version: bigint;
+        exists: boolean;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "metricMinimums"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, bigint, bigint] & {
+        skillLevel: bigint;
+        learningHours: bigint;
+        projectImpact: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "protocolId"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "readinessResults"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: BigNumberish],
+    [
+      [string, string, bigint, bigint, boolean] & {
+        encryptedReady: string;
+        encryptedUnmetCount: string;
+        revision: bigint;
+        jobRoleVersion: bigint;
+        isCalculated: boolean;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "recordReadiness"
+  ): TypedContractMethod<
+    [
+      idpId: BigNumberish,
+      jobRoleId: BigNumberish,
+      revision: BigNumberish,
+      owner: AddressLike,
+      skillIds: BigNumberish[],
+      skillLevels: BytesLike[],
+      skillLevel: BytesLike,
+      learningHours: BytesLike,
+      projectImpact: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "recordSkillGap"
+  ): TypedContractMethod<
+    [
+      idpId: BigNumberish,
+      jobRoleId: BigNumberish,
+      revision: BigNumberish,
+      owner: AddressLike,
+      skillIds: BigNumberish[],
+      skillLevels: BytesLike[]
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "registerJobRole"
+  ): TypedContractMethod<
+    [
+      name: string,
+      rank: BigNumberish,
+      minimums: CareerLadder.MetricMinimumsStruct,
+      skillIds: BigNumberish[],
+      minLevels: BigNumberish[]
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "roles"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "setSimulator"
+  ): TypedContractMethod<[simulatorAddress: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "simulator"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "updateJobRole"
+  ): TypedContractMethod<
+    [
+      jobRoleId: BigNumberish,
+      minimums: CareerLadder.MetricMinimumsStruct,
+      skillIds: BigNumberish[],
+      minLevels: BigNumberish[]
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  getEvent(
+    key: "JobRoleRegistered"
+  ): TypedContractEvent<
+    JobRoleRegisteredEvent.InputTuple,
+    JobRoleRegisteredEvent.OutputTuple,
+    JobRoleRegisteredEvent.OutputObject
+  >;
+  getEvent(
+    key: "JobRoleUpdated"
+  ): TypedContractEvent<
+    JobRoleUpdatedEvent.InputTuple,
+    JobRoleUpdatedEvent.OutputTuple,
+    JobRoleUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ReadinessChecked"
+  ): TypedContractEvent<
+    ReadinessCheckedEvent.InputTuple,
+    ReadinessCheckedEvent.OutputTuple,
+    ReadinessCheckedEvent.OutputObject
+  >;
+  getEvent(
+    key: "SkillGapReported"
+  ): TypedContractEvent<
+    SkillGapReportedEvent.InputTuple,
+    SkillGapReportedEvent.OutputTuple,
+    SkillGapReportedEvent.OutputObject
+  >;
+
+  filters: {
+    "JobRoleRegistered(uint256,string,uint32)": TypedContractEvent<
+      JobRoleRegisteredEvent.InputTuple,
+      JobRoleRegisteredEvent.OutputTuple,
+      JobRoleRegisteredEvent.OutputObject
+    >;
+    JobRoleRegistered: TypedContractEvent<
+      JobRoleRegisteredEvent.InputTuple,
+      JobRoleRegisteredEvent.OutputTuple,
+      JobRoleRegisteredEvent.OutputObject
+    >;
+
+    "JobRoleUpdated(uint256,uint32)": TypedContractEvent<
+      JobRoleUpdatedEvent.InputTuple,
+      JobRoleUpdatedEvent.OutputTuple,
+      JobRoleUpdatedEvent.OutputObject
+    >;
+    JobRoleUpdated: TypedContractEvent<
+      JobRoleUpdatedEvent.InputTuple,
+      JobRoleUpdatedEvent.OutputTuple,
+      JobRoleUpdatedEvent.OutputObject
+    >;
+
+    "ReadinessChecked(uint256,uint256,uint32)": TypedContractEvent<
+      ReadinessCheckedEvent.InputTuple,
+      ReadinessCheckedEvent.OutputTuple,
+      ReadinessCheckedEvent.OutputObject
+    >;
+    ReadinessChecked: TypedContractEvent<
+      ReadinessCheckedEvent.InputTuple,
+      ReadinessCheckedEvent.OutputTuple,
+      ReadinessCheckedEvent.OutputObject
+    >;
+
+    "SkillGapReported(uint256,uint256,uint32)": TypedContractEvent<
+      SkillGapReportedEvent.InputTuple,
+      SkillGapReportedEvent.OutputTuple,
+      SkillGapReportedEvent.OutputObject
+    >;
+    SkillGapReported: TypedContractEvent<
+      SkillGapReportedEvent.InputTuple,
+      SkillGapReportedEvent.OutputTuple,
+      SkillGapReportedEvent.OutputObject
+    >;
+  };
+}
@@ -0,0 +1,399 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+
+import { Contract, Interface, type ContractRunner } from "ethers";
+import type {
+  CareerAnalytics,
+  CareerAnalyticsInterface,
+} from "../CareerAnalytics";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "contract CareerRoles",
+        name: "rolesContract",
+        type: "address",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "cohortId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "requester",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "memberCount",
+        type: "uint32",
+      },
+    ],
+    name: "AggregateAccessGranted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "cohortId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "name",
+        type: "string",
+      },
+    ],
+    name: "CohortRegistered",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "minCohortSize",
+        type: "uint32",
+      },
+    ],
+    name: "MinCohortSizeUpdated",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "ORGANISATION",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "idpId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "cohortId",
+        type: "uint256",
+      },
+    ],
+    name: "addMember",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "aggregateSnapshots",
+    outputs: [
+      {
+        internalType: "euint32",
+        name: "totalLearningHours",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "totalProjectImpact",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "goalsExceeded",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint32",
+        name: "memberCount",
+        type: "uint32",
+      },
+      {
+        internalType: "address",
+        name: "requester",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "changedMembers",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "cohortCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "cohorts",
+    outputs: [
+      {
+        internalType: "string",
+        name: "name",
+        type: "string",
+      },
+      {
+        internalType: "bool",
+        name: "exists",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "cohortId",
+        type: "uint256",
+      },
+    ],
+    name: "getAggregateMemberCount",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "minCohortSize",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "protocolId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "idpId",
+        type: "uint256",
+      },
+      {
+        internalType: "ebool",
+        name: "exceeded",
+        type: "bytes32",
+      },
+    ],
+    name: "recordGoalExceeded",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "idpId",
+        type: "uint256",
+      },
+      {
+        internalType: "euint32",
+        name: "learningHours",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "projectImpact",
+        type: "bytes32",
+      },
+    ],
+    name: "recordRevision",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "name",
+        type: "string",
+      },
+    ],
+    name: "registerCohort",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "cohortId",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "cohortId",
+        type: "uint256",
+      },
+    ],
+    name: "requestAggregateAccess",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "roles",
+    outputs: [
+      {
+        internalType: "contract CareerRoles",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint32",
+        name: "size",
+        type: "uint32",
+      },
+    ],
+    name: "setMinCohortSize",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "simulatorAddress",
+        type: "address",
+      },
+    ],
+    name: "setSimulator",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "simulator",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+] as const;
+
+export class CareerAnalytics__factory {
+  static readonly abi = _abi;
+  static createInterface(): CareerAnalyticsInterface {
+    return new Interface(_abi) as CareerAnalyticsInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): CareerAnalytics {
+    return new Contract(address, _abi, runner) as unknown as CareerAnalytics;
+  }
+}
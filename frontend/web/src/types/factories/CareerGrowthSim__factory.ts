@@ -0,0 +1,1966 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+
+import { Contract, Interface, type ContractRunner } from "ethers";
+import type {
+  CareerGrowthSim,
+  CareerGrowthSimInterface,
+} from "../CareerGrowthSim";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "contract CareerAnalytics",
+        name: "analyticsContract",
+        type: "address",
+      },
+      {
+        internalType: "contract CareerLadder",
+        name: "ladderContract",
+        type: "address",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "modelId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "name",
+        type: "string",
+      },
+    ],
+    name: "GrowthModelRegistered",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "modelId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "version",
+        type: "uint32",
+      },
+    ],
+    name: "GrowthModelUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "idpId",
+        type: "uint256",
+      },
+    ],
+    name: "IDPPublished",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "idpId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "enum CareerGrowthSim.IDPStatus",
+        name: "previousStatus",
+        type: "uint8",
+      },
+      {
+        indexed: false,
+        internalType: "enum CareerGrowthSim.IDPStatus",
+        name: "status",
+        type: "uint8",
+      },
+    ],
+    name: "IDPStatusChanged",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    name: "IDPSubmitted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "idpId",
+        type: "uint256",
+      },
+    ],
+    name: "IDPUnpublished",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "revision",
+        type: "uint32",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    name: "IDPUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "idpId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "revision",
+        type: "uint32",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "manager",
+        type: "address",
+      },
+    ],
+    name: "ImpactRated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "idpId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "revision",
+        type: "uint32",
+      },
+    ],
+    name: "ImpactRatingShared",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "idpId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "milestoneId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "label",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "dueDate",
+        type: "uint256",
+      },
+    ],
+    name: "MilestoneAdded",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "idpId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "milestoneId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "revision",
+        type: "uint32",
+      },
+    ],
+    name: "MilestoneEvaluated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "idpId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "scenarioId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "label",
+        type: "string",
+      },
+    ],
+    name: "ScenarioSimulated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "idpId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    name: "SimulationCompleted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "idpId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "revision",
+        type: "uint32",
+      },
+      {
+        indexed: false,
+        internalType: "uint256[]",
+        name: "skillIds",
+        type: "uint256[]",
+      },
+    ],
+    name: "SkillLevelsUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "skillId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "name",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "weight",
+        type: "uint32",
+      },
+    ],
+    name: "SkillRegistered",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "skillId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "weight",
+        type: "uint32",
+      },
+    ],
+    name: "SkillWeightUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "idpId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint8",
+        name: "periods",
+        type: "uint8",
+      },
+    ],
+    name: "TrajectoryProjected",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "idpId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "viewer",
+        type: "address",
+      },
+    ],
+    name: "ViewerGranted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "idpId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "viewer",
+        type: "address",
+      },
+    ],
+    name: "ViewerRevoked",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "HOURS_PER_SKILL_POINT",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_IDP_SKILLS",
+    outputs: [
+      {
+        internalType: "uint8",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_TRAJECTORY_PERIODS",
+    outputs: [
+      {
+        internalType: "uint8",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_VIEWERS",
+    outputs: [
+      {
+        internalType: "uint8",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "idpId",
+        type: "uint256",
+      },
+    ],
+    name: "activateIDP",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "idpId",
+        type: "uint256",
+      },
+      {
+        internalType: "string",
+        name: "label",
+        type: "string",
+      },
+      {
+        internalType: "enum CareerGrowthSim.MilestoneMetric",
+        name: "metric",
+        type: "uint8",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "targetInput",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+      {
+        internalType: "uint256",
+        name: "dueDate",
+        type: "uint256",
+      },
+    ],
+    name: "addMilestone",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "milestoneId",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "analytics",
+    outputs: [
+      {
+        internalType: "contract CareerAnalytics",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "idpId",
+        type: "uint256",
+      },
+    ],
+    name: "archiveIDP",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "idpId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "jobRoleId",
+        type: "uint256",
+      },
+    ],
+    name: "checkReadiness",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "idpId",
+        type: "uint256",
+      },
+    ],
+    name: "completeIDP",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "encryptedIDPs",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "cohortId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint32",
+        name: "latestRevision",
+        type: "uint32",
+      },
+      {
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+      {
+        internalType: "enum CareerGrowthSim.IDPStatus",
+        name: "status",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "idpId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "milestoneId",
+        type: "uint256",
+      },
+    ],
+    name: "evaluateMilestone",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "offset",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "limit",
+        type: "uint256",
+      },
+    ],
+    name: "getIDPIds",
+    outputs: [
+      {
+        internalType: "uint256[]",
+        name: "ids",
+        type: "uint256[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "idpId",
+        type: "uint256",
+      },
+    ],
+    name: "getIDPSkills",
+    outputs: [
+      {
+        internalType: "uint256[]",
+        name: "",
+        type: "uint256[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+    ],
+    name: "getOwnerIDPCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "offset",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "limit",
+        type: "uint256",
+      },
+    ],
+    name: "getOwnerIDPs",
+    outputs: [
+      {
+        internalType: "uint256[]",
+        name: "ids",
+        type: "uint256[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getPublishedIDPCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "offset",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "limit",
+        type: "uint256",
+      },
+    ],
+    name: "getPublishedIDPs",
+    outputs: [
+      {
+        internalType: "uint256[]",
+        name: "ids",
+        type: "uint256[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "idpId",
+        type: "uint256",
+      },
+    ],
+    name: "getTrajectory",
+    outputs: [
+      {
+        internalType: "euint32[]",
+        name: "periodScores",
+        type: "bytes32[]",
+      },
+      {
+        internalType: "euint32",
+        name: "goalPeriod",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint256",
+        name: "modelId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint32",
+        name: "modelVersion",
+        type: "uint32",
+      },
+      {
+        internalType: "uint32",
+        name: "revision",
+        type: "uint32",
+      },
+      {
+        internalType: "bool",
+        name: "isCalculated",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "idpId",
+        type: "uint256",
+      },
+    ],
+    name: "getViewers",
+    outputs: [
+      {
+        internalType: "address[]",
+        name: "",
+        type: "address[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "goalComparisons",
+    outputs: [
+      {
+        internalType: "ebool",
+        name: "encryptedGoalExceeded",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint32",
+        name: "revision",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "idpId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "viewer",
+        type: "address",
+      },
+    ],
+    name: "grantViewer",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "growthModels",
+    outputs: [
+      {
+        internalType: "string",
+        name: "name",
+        type: "string",
+      },
+      {
+        internalType: "uint32",
+        name: "version",
+        type: "uint32",
+      },
+      {
+        internalType: "bool",
+        name: "exists",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "idpCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    name: "idpRevisions",
+    outputs: [
+      {
+        internalType: "euint32",
+        name: "encryptedSkillLevel",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "encryptedLearningHours",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "encryptedProjectImpact",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "encryptedCareerGoal",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "idpViewers",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    name: "impactRatings",
+    outputs: [
+      {
+        internalType: "euint32",
+        name: "encryptedRating",
+        type: "bytes32",
+      },
+      {
+        internalType: "address",
+        name: "manager",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "shared",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "idpId",
+        type: "uint256",
+      },
+    ],
+    name: "isPublished",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "ladder",
+    outputs: [
+      {
+        internalType: "contract CareerLadder",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "latestSimulatedRevision",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "milestoneCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "milestones",
+    outputs: [
+      {
+        internalType: "string",
+        name: "label",
+        type: "string",
+      },
+      {
+        internalType: "enum CareerGrowthSim.MilestoneMetric",
+        name: "metric",
+        type: "uint8",
+      },
+      {
+        internalType: "euint32",
+        name: "encryptedTarget",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint256",
+        name: "dueDate",
+        type: "uint256",
+      },
+      {
+        internalType: "ebool",
+        name: "encryptedMet",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint32",
+        name: "evaluatedRevision",
+        type: "uint32",
+      },
+      {
+        internalType: "bool",
+        name: "ratingApplied",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "modelCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    name: "modelWeights",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "skillWeight",
+        type: "uint32",
+      },
+      {
+        internalType: "uint32",
+        name: "learningHoursWeight",
+        type: "uint32",
+      },
+      {
+        internalType: "uint32",
+        name: "projectImpactWeight",
+        type: "uint32",
+      },
+      {
+        internalType: "uint32",
+        name: "divisor",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "idpId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "modelId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint32",
+        name: "revision",
+        type: "uint32",
+      },
+      {
+        internalType: "uint8",
+        name: "periods",
+        type: "uint8",
+      },
+    ],
+    name: "projectTrajectory",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "protocolId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "idpId",
+        type: "uint256",
+      },
+    ],
+    name: "publishIDP",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "idpId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint32",
+        name: "revision",
+        type: "uint32",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "ratingInput",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "rateProjectImpact",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "idpId",
+        type: "uint256",
+      },
+    ],
+    name: "reactivateIDP",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "name",
+        type: "string",
+      },
+      {
+        components: [
+          {
+            internalType: "uint32",
+            name: "skillWeight",
+            type: "uint32",
+          },
+          {
+            internalType: "uint32",
+            name: "learningHoursWeight",
+            type: "uint32",
+          },
+          {
+            internalType: "uint32",
+            name: "projectImpactWeight",
+            type: "uint32",
+          },
+          {
+            internalType: "uint32",
+            name: "divisor",
+            type: "uint32",
+          },
+        ],
+        internalType: "struct CareerGrowthSim.ModelWeights",
+        name: "weights",
+        type: "tuple",
+      },
+    ],
+    name: "registerGrowthModel",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "name",
+        type: "string",
+      },
+      {
+        internalType: "uint32",
+        name: "weight",
+        type: "uint32",
+      },
+    ],
+    name: "registerSkill",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "idpId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "jobRoleId",
+        type: "uint256",
+      },
+    ],
+    name: "reportSkillGap",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "idpId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "viewer",
+        type: "address",
+      },
+    ],
+    name: "revokeViewer",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "roles",
+    outputs: [
+      {
+        internalType: "contract CareerRoles",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "idpId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "modelId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint32",
+        name: "revision",
+        type: "uint32",
+      },
+    ],
+    name: "runEncryptedSimulation",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "idpId",
+        type: "uint256",
+      },
+      {
+        internalType: "string",
+        name: "label",
+        type: "string",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "skillLevelDeltaInput",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "learningHoursDeltaInput",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "projectImpactDeltaInput",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+      {
+        internalType: "uint256",
+        name: "modelId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint32",
+        name: "revision",
+        type: "uint32",
+      },
+    ],
+    name: "runScenarioSimulation",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "scenarioId",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "scenarioCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "scenarioResults",
+    outputs: [
+      {
+        internalType: "euint32",
+        name: "encryptedGrowthScore",
+        type: "bytes32",
+      },
+      {
+        internalType: "bool",
+        name: "isCalculated",
+        type: "bool",
+      },
+      {
+        internalType: "uint256",
+        name: "modelId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint32",
+        name: "modelVersion",
+        type: "uint32",
+      },
+      {
+        internalType: "uint32",
+        name: "revision",
+        type: "uint32",
+      },
+      {
+        internalType: "bool",
+        name: "managerRated",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "scenarios",
+    outputs: [
+      {
+        internalType: "string",
+        name: "label",
+        type: "string",
+      },
+      {
+        internalType: "euint32",
+        name: "skillLevelDelta",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "learningHoursDelta",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "projectImpactDelta",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "idpId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint32",
+        name: "revision",
+        type: "uint32",
+      },
+    ],
+    name: "shareImpactRating",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "idpId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint32",
+        name: "revision",
+        type: "uint32",
+      },
+    ],
+    name: "shareRevision",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    name: "simulationResults",
+    outputs: [
+      {
+        internalType: "euint32",
+        name: "encryptedGrowthScore",
+        type: "bytes32",
+      },
+      {
+        internalType: "bool",
+        name: "isCalculated",
+        type: "bool",
+      },
+      {
+        internalType: "uint256",
+        name: "modelId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint32",
+        name: "modelVersion",
+        type: "uint32",
+      },
+      {
+        internalType: "uint32",
+        name: "revision",
+        type: "uint32",
+      },
+      {
+        internalType: "bool",
+        name: "managerRated",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "skillCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "skillLevels",
+    outputs: [
+      {
+        internalType: "euint32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "skills",
+    outputs: [
+      {
+        internalType: "string",
+        name: "name",
+        type: "string",
+      },
+      {
+        internalType: "uint32",
+        name: "weight",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256[]",
+        name: "skillIds",
+        type: "uint256[]",
+      },
+      {
+        internalType: "externalEuint32[]",
+        name: "skillLevelInputs",
+        type: "bytes32[]",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "learningHoursInput",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "projectImpactInput",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "careerGoalInput",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+      {
+        internalType: "uint256",
+        name: "cohortId",
+        type: "uint256",
+      },
+    ],
+    name: "submitEncryptedIDP",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "idpId",
+        type: "uint256",
+      },
+    ],
+    name: "unpublishIDP",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "idpId",
+        type: "uint256",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "learningHoursInput",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "projectImpactInput",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "careerGoalInput",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "updateEncryptedIDP",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "revision",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "modelId",
+        type: "uint256",
+      },
+      {
+        components: [
+          {
+            internalType: "uint32",
+            name: "skillWeight",
+            type: "uint32",
+          },
+          {
+            internalType: "uint32",
+            name: "learningHoursWeight",
+            type: "uint32",
+          },
+          {
+            internalType: "uint32",
+            name: "projectImpactWeight",
+            type: "uint32",
+          },
+          {
+            internalType: "uint32",
+            name: "divisor",
+            type: "uint32",
+          },
+        ],
+        internalType: "struct CareerGrowthSim.ModelWeights",
+        name: "weights",
+        type: "tuple",
+      },
+    ],
+    name: "updateGrowthModel",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "idpId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256[]",
+        name: "skillIds",
+        type: "uint256[]",
+      },
+      {
+        internalType: "externalEuint32[]",
+        name: "skillLevelInputs",
+        type: "bytes32[]",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "updateSkillLevels",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "revision",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "skillId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint32",
+        name: "weight",
+        type: "uint32",
+      },
+    ],
+    name: "updateSkillWeight",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+export class CareerGrowthSim__factory {
+  static readonly abi = _abi;
+  static createInterface(): CareerGrowthSimInterface {
+    return new Interface(_abi) as CareerGrowthSimInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): CareerGrowthSim {
+    return new Contract(address, _abi, runner) as unknown as CareerGrowthSim;
+  }
+}
@@ -0,0 +1,579 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+
+import { Contract, Interface, type ContractRunner } from "ethers";
+import type { CareerLadder, CareerLadderInterface } from "../CareerLadder";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "contract CareerRoles",
+        name: "rolesContract",
+        type: "address",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "jobRoleId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "name",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "rank",
+        type: "uint32",
+      },
+    ],
+    name: "JobRoleRegistered",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "jobRoleId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "version",
+        type: "uint32",
+      },
+    ],
+    name: "JobRoleUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "idpId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "jobRoleId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "revision",
+        type: "uint32",
+      },
+    ],
+    name: "ReadinessChecked",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "idpId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "jobRoleId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "revision",
+        type: "uint32",
+      },
+    ],
+    name: "SkillGapReported",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "MAX_ROLE_SKILLS",
+    outputs: [
+      {
+        internalType: "uint8",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "idpId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "jobRoleId",
+        type: "uint256",
+      },
+    ],
+    name: "getSkillGapReport",
+    outputs: [
+      {
+        internalType: "uint256[]",
+        name: "skillIds",
+        type: "uint256[]",
+      },
+      {
+        internalType: "euint32[]",
+        name: "encryptedShortfalls",
+        type: "bytes32[]",
+      },
+      {
+        internalType: "uint32",
+        name: "revision",
+        type: "uint32",
+      },
+      {
+        internalType: "uint32",
+        name: "jobRoleVersion",
+        type: "uint32",
+      },
+      {
+        internalType: "bool",
+        name: "isCalculated",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "jobRoleId",
+        type: "uint256",
+      },
+    ],
+    name: "getSkillRequirements",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "uint256",
+            name: "skillId",
+            type: "uint256",
+          },
+          {
+            internalType: "uint32",
+            name: "minLevel",
+            type: "uint32",
+          },
+        ],
+        internalType: "struct CareerLadder.SkillRequirement[]",
+        name: "",
+        type: "tuple[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "jobRoleCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "jobRoles",
+    outputs: [
+      {
+        internalType: "string",
+        name: "name",
+        type: "string",
+      },
+      {
+        internalType: "uint32",
+        name: "rank",
+        type: "uint32",
+      },
+      {
+        internalType: "uint32",
+        name: "version",
+        type: "uint32",
+      },
+      {
+        internalType: "bool",
+        name: "exists",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "metricMinimums",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "skillLevel",
+        type: "uint32",
+      },
+      {
+        internalType: "uint32",
+        name: "learningHours",
+        type: "uint32",
+      },
+      {
+        internalType: "uint32",
+        name: "projectImpact",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "protocolId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "readinessResults",
+    outputs: [
+      {
+        internalType: "ebool",
+        name: "encryptedReady",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "encryptedUnmetCount",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint32",
+        name: "revision",
+        type: "uint32",
+      },
+      {
+        internalType: "uint32",
+        name: "jobRoleVersion",
+        type: "uint32",
+      },
+      {
+        internalType: "bool",
+        name: "isCalculated",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "idpId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "jobRoleId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint32",
+        name: "revision",
+        type: "uint32",
+      },
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        internalType: "uint256[]",
+        name: "skillIds",
+        type: "uint256[]",
+      },
+      {
+        internalType: "euint32[]",
+        name: "skillLevels",
+        type: "bytes32[]",
+      },
+      {
+        internalType: "euint32",
+        name: "skillLevel",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "learningHours",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "projectImpact",
+        type: "bytes32",
+      },
+    ],
+    name: "recordReadiness",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "idpId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "jobRoleId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint32",
+        name: "revision",
+        type: "uint32",
+      },
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        internalType: "uint256[]",
+        name: "skillIds",
+        type: "uint256[]",
+      },
+      {
+        internalType: "euint32[]",
+        name: "skillLevels",
+        type: "bytes32[]",
+      },
+    ],
+    name: "recordSkillGap",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "name",
+        type: "string",
+      },
+      {
+        internalType: "uint32",
+        name: "rank",
+        type: "uint32",
+      },
+      {
+        components: [
+          {
+            internalType: "uint32",
+            name: "skillLevel",
+            type: "uint32",
+          },
+          {
+            internalType: "uint32",
+            name: "learningHours",
+            type: "uint32",
+          },
+          {
+            internalType: "uint32",
+            name: "projectImpact",
+            type: "uint32",
+          },
+        ],
+        internalType: "struct CareerLadder.MetricMinimums",
+        name: "minimums",
+        type: "tuple",
+      },
+      {
+        internalType: "uint256[]",
+        name: "skillIds",
+        type: "uint256[]",
+      },
+      {
+        internalType: "uint32[]",
+        name: "minLevels",
+        type: "uint32[]",
+      },
+    ],
+    name: "registerJobRole",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "jobRoleId",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "roles",
+    outputs: [
+      {
+        internalType: "contract CareerRoles",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "simulatorAddress",
+        type: "address",
+      },
+    ],
+    name: "setSimulator",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "simulator",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "jobRoleId",
+        type: "uint256",
+      },
+      {
+        components: [
+          {
+            internalType: "uint32",
+            name: "skillLevel",
+            type: "uint32",
+          },
+          {
+            internalType: "uint32",
+            name: "learningHours",
+            type: "uint32",
+          },
+          {
+            internalType: "uint32",
+            name: "projectImpact",
+            type: "uint32",
+          },
+        ],
+        internalType: "struct CareerLadder.MetricMinimums",
+        name: "minimums",
+        type: "tuple",
+      },
+      {
+        internalType: "uint256[]",
+        name: "skillIds",
+        type: "uint256[]",
+      },
+      {
+        internalType: "uint32[]",
+        name: "minLevels",
+        type: "uint32[]",
+      },
+    ],
+    name: "updateJobRole",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+export class CareerLadder__factory {
+  static readonly abi = _abi;
+  static createInterface(): CareerLadderInterface {
+    return new Interface(_abi) as CareerLadderInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): CareerLadder {
+    return new Contract(address, _abi, runner) as unknown as CareerLadder;
+  }
+}
@@ -0,0 +1,7 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export { CareerAnalytics__factory } from "./CareerAnalytics__factory";
+export { CareerGrowthSim__factory } from "./CareerGrowthSim__factory";
+export { CareerLadder__factory } from "./CareerLadder__factory";
+export { CareerRoles__factory } from "./CareerRoles__factory";
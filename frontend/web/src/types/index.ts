@@ -0,0 +1,12 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export type { CareerAnalytics } from "./CareerAnalytics";
+export type { CareerGrowthSim } from "./CareerGrowthSim";
+export type { CareerLadder } from "./CareerLadder";
+export type { CareerRoles } from "./CareerRoles";
+export * as factories from "./factories";
+export { CareerAnalytics__factory } from "./factories/CareerAnalytics__factory";
+export { CareerGrowthSim__factory } from "./factories/CareerGrowthSim__factory";
+export { CareerLadder__factory } from "./factories/CareerLadder__factory";
+export { CareerRoles__factory } from "./factories/CareerRoles__factory";
@@ -0,0 +1,11 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_DEFAULT_CHAIN_ID?: string;
+  readonly VITE_SEPOLIA_RPC_URLS?: string;
+  readonly VITE_LOCAL_RPC_URLS?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
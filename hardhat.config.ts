@@ -1,18 +1,40 @@
-import { HardhatUserConfig } from "hardhat/config";
+import { HardhatUserConfig, vars } from "hardhat/config";
 import "@nomicfoundation/hardhat-toolbox";
 import "@nomicfoundation/hardhat-ethers";
 import "@fhevm/hardhat-plugin";
+import "hardhat-deploy";
+
+// Environment variables take precedence over `npx hardhat vars set`
+function setting(name: string, defaultValue: string): string {
+  return process.env[name] ?? vars.get(name, defaultValue);
+}
+
+const MNEMONIC = setting("MNEMONIC", "test test test test test test test test test test test junk");
+const DEPLOYER_PRIVATE_KEY = setting("DEPLOYER_PRIVATE_KEY", "");
+const SEPOLIA_RPC_URL = setting("SEPOLIA_RPC_URL", "https://sepolia.drpc.org");
+
+const mnemonicAccounts = { mnemonic: MNEMONIC, path: "m/44'/60'/0'/0/", count: 10 };
 
 const config: HardhatUserConfig = {
   defaultNetwork: "hardhat",
+  namedAccounts: {
+    deployer: 0,
+  },
   networks: {
     hardhat: {
       chainId: 31337,
+      accounts: { mnemonic: MNEMONIC },
+    },
+    localhost: {
+      chainId: 31337,
+      url: "http://127.0.0.1:8545",
+      accounts: mnemonicAccounts,
     },
     sepolia: {
       chainId: 11155111,
-      url: "https://sepolia.drpc.org",
-      accounts: [],
+      url: SEPOLIA_RPC_URL,
+      // Never falls back to the public test mnemonic; without a key the network has no signer
+      accounts: DEPLOYER_PRIVATE_KEY ? [DEPLOYER_PRIVATE_KEY] : [],
     },
   },
   solidity: {
@@ -34,6 +56,8 @@ const config: HardhatUserConfig = {
     tests: "./test",
     cache: "./cache",
     artifacts: "./artifacts",
+    deploy: "./deploy",
+    deployments: "./deployments",
   },
   typechain: {
     outDir: "types",
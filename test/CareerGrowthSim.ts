@@ -0,0 +1,1135 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { CareerAnalytics, CareerGrowthSim, CareerLadder, CareerRoles } from "../types";
+
+type Signers = {
+  admin: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+  manager: HardhatEthersSigner;
+  hr: HardhatEthersSigner;
+};
+
+type IDPInputs = {
+  skillLevel: number;
+  learningHours: number;
+  projectImpact: number;
+  careerGoal: number;
+};
+
+const BALANCED_MODEL = 1;
+// Seeded taxonomy skill with weight 1, so a single-skill IDP's level is that skill's level
+const GENERAL_SKILL = 1;
+const ORGANISATION = 0;
+
+enum Role {
+  HRAdmin,
+  Manager,
+  Employee,
+}
+
+enum IDPStatus {
+  Draft,
+  Active,
+  Completed,
+  Archived,
+}
+
+enum MilestoneMetric {
+  SkillLevel,
+  LearningHours,
+  ProjectImpact,
+}
+
+// Balanced model: (50 * 2 + 40 + 30 * 3) / 6 = 38
+const ALICE_IDP: IDPInputs = { skillLevel: 50, learningHours: 40, projectImpact: 30, careerGoal: 40 };
+const ALICE_GROWTH_SCORE = 38n;
+// Manager-rated impact of 60: (50 * 2 + 40 + 60 * 3) / 6 = 53
+const MANAGER_IMPACT_RATING = 60;
+const RATED_GROWTH_SCORE = 53n;
+
+async function deployFixture() {
+  const rolesFactory = await ethers.getContractFactory("CareerRoles");
+  const roles = (await rolesFactory.deploy()) as CareerRoles;
+
+  const analyticsFactory = await ethers.getContractFactory("CareerAnalytics");
+  const analytics = (await analyticsFactory.deploy(await roles.getAddress())) as CareerAnalytics;
+  const analyticsAddress = await analytics.getAddress();
+
+  const ladderFactory = await ethers.getContractFactory("CareerLadder");
+  const ladder = (await ladderFactory.deploy(await roles.getAddress())) as CareerLadder;
+  const ladderAddress = await ladder.getAddress();
+
+  const simFactory = await ethers.getContractFactory("CareerGrowthSim");
+  const sim = (await simFactory.deploy(analyticsAddress, ladderAddress)) as CareerGrowthSim;
+  const simAddress = await sim.getAddress();
+
+  await (await analytics.setSimulator(simAddress)).wait();
+  await (await ladder.setSimulator(simAddress)).wait();
+
+  return { roles, analytics, analyticsAddress, ladder, ladderAddress, sim, simAddress };
+}
+
+describe("CareerGrowthSim", function () {
+  let signers: Signers;
+  let roles: CareerRoles;
+  let analytics: CareerAnalytics;
+  let analyticsAddress: string;
+  let ladder: CareerLadder;
+  let ladderAddress: string;
+  let sim: CareerGrowthSim;
+  let simAddress: string;
+
+  before(async function () {
+    const ethSigners = await ethers.getSigners();
+    signers = {
+      admin: ethSigners[0],
+      alice: ethSigners[1],
+      bob: ethSigners[2],
+      manager: ethSigners[3],
+      hr: ethSigners[4],
+    };
+  });
+
+  beforeEach(async function () {
+    // The suite relies on the mock coprocessor and oracle, it cannot run against Sepolia
+    if (!fhevm.isMock) {
+      console.warn("This hardhat test suite can only run on the FHEVM mock environment");
+      this.skip();
+    }
+
+    ({ roles, analytics, analyticsAddress, ladder, ladderAddress, sim, simAddress } = await deployFixture());
+    for (const employee of [signers.alice, signers.bob]) {
+      await (await roles.grantRole(Role.Employee, employee.address)).wait();
+    }
+  });
+
+  async function submitIDP(signer: HardhatEthersSigner, inputs: IDPInputs, cohortId: number = ORGANISATION) {
+    const encrypted = await fhevm
+      .createEncryptedInput(simAddress, signer.address)
+      .add32(inputs.skillLevel)
+      .add32(inputs.learningHours)
+      .add32(inputs.projectImpact)
+      .add32(inputs.careerGoal)
+      .encrypt();
+
+    const tx = await sim
+      .connect(signer)
+      .submitEncryptedIDP(
+        [GENERAL_SKILL],
+        [encrypted.handles[0]],
+        encrypted.handles[1],
+        encrypted.handles[2],
+        encrypted.handles[3],
+        encrypted.inputProof,
+        cohortId,
+      );
+    await tx.wait();
+    return await sim.idpCount();
+  }
+
+  async function updateIDP(signer: HardhatEthersSigner, idpId: bigint, inputs: Omit<IDPInputs, "skillLevel">) {
+    const encrypted = await fhevm
+      .createEncryptedInput(simAddress, signer.address)
+      .add32(inputs.learningHours)
+      .add32(inputs.projectImpact)
+      .add32(inputs.careerGoal)
+      .encrypt();
+
+    const tx = await sim
+      .connect(signer)
+      .updateEncryptedIDP(idpId, encrypted.handles[0], encrypted.handles[1], encrypted.handles[2], encrypted.inputProof);
+    await tx.wait();
+  }
+
+  async function updateSkills(signer: HardhatEthersSigner, idpId: bigint, levels: Record<number, number>) {
+    const skillIds = Object.keys(levels).map(Number);
+    const input = fhevm.createEncryptedInput(simAddress, signer.address);
+    for (const skillId of skillIds) {
+      input.add32(levels[skillId]);
+    }
+    const encrypted = await input.encrypt();
+
+    const tx = await sim.connect(signer).updateSkillLevels(idpId, skillIds, encrypted.handles, encrypted.inputProof);
+    await tx.wait();
+    return tx;
+  }
+
+  async function addMilestone(signer: HardhatEthersSigner, idpId: bigint, metric: MilestoneMetric, target: number) {
+    const encrypted = await fhevm.createEncryptedInput(simAddress, signer.address).add32(target).encrypt();
+    const dueDate = (await time.latest()) + 30 * 24 * 3600;
+
+    const tx = await sim
+      .connect(signer)
+      .addMilestone(idpId, "Milestone", metric, encrypted.handles[0], encrypted.inputProof, dueDate);
+    await tx.wait();
+    return await sim.milestoneCount(idpId);
+  }
+
+  async function rateImpact(signer: HardhatEthersSigner, idpId: bigint, revision: number, rating: number) {
+    const encrypted = await fhevm.createEncryptedInput(simAddress, signer.address).add32(rating).encrypt();
+    await (
+      await sim.connect(signer).rateProjectImpact(idpId, revision, encrypted.handles[0], encrypted.inputProof)
+    ).wait();
+  }
+
+  function decryptUint32(handle: string, signer: HardhatEthersSigner) {
+    return fhevm.userDecryptEuint(FhevmType.euint32, handle, simAddress, signer);
+  }
+
+  describe("submission", function () {
+    it("stores an encrypted IDP as revision 1", async function () {
+      const idpId = await submitIDP(signers.alice, ALICE_IDP);
+      expect(idpId).to.eq(1n);
+
+      const idp = await sim.encryptedIDPs(idpId);
+      expect(idp.owner).to.eq(signers.alice.address);
+      expect(idp.cohortId).to.eq(ORGANISATION);
+      expect(idp.latestRevision).to.eq(1);
+      expect(await analytics.getAggregateMemberCount(ORGANISATION)).to.eq(1);
+    });
+
+    it("lets the owner decrypt every IDP field", async function () {
+      const idpId = await submitIDP(signers.alice, ALICE_IDP);
+      const rev = await sim.idpRevisions(idpId, 1);
+
+      expect(await decryptUint32(rev.encryptedSkillLevel, signers.alice)).to.eq(ALICE_IDP.skillLevel);
+      expect(await decryptUint32(rev.encryptedLearningHours, signers.alice)).to.eq(ALICE_IDP.learningHours);
+      expect(await decryptUint32(rev.encryptedProjectImpact, signers.alice)).to.eq(ALICE_IDP.projectImpact);
+      expect(await decryptUint32(rev.encryptedCareerGoal, signers.alice)).to.eq(ALICE_IDP.careerGoal);
+    });
+
+    it("does not let another account decrypt the IDP", async function () {
+      const idpId = await submitIDP(signers.alice, ALICE_IDP);
+      const rev = await sim.idpRevisions(idpId, 1);
+
+      let decrypted = true;
+      try {
+        await decryptUint32(rev.encryptedSkillLevel, signers.bob);
+      } catch {
+        decrypted = false;
+      }
+      expect(decrypted).to.eq(false);
+    });
+
+    it("rejects an unknown cohort", async function () {
+      await expect(submitIDP(signers.alice, ALICE_IDP, 7)).to.be.revertedWith("Unknown cohort");
+    });
+  });
+
+  describe("roles", function () {
+    it("grants and revokes roles with events", async function () {
+      expect(await roles.hasRole(Role.HRAdmin, signers.admin.address)).to.eq(true);
+
+      await expect(roles.grantRole(Role.Manager, signers.manager.address))
+        .to.emit(roles, "RoleGranted")
+        .withArgs(Role.Manager, signers.manager.address, signers.admin.address);
+      expect(await roles.getRoleMembers(Role.Employee)).to.deep.eq([signers.alice.address, signers.bob.address]);
+
+      await expect(roles.revokeRole(Role.Employee, signers.alice.address))
+        .to.emit(roles, "RoleRevoked")
+        .withArgs(Role.Employee, signers.alice.address, signers.admin.address);
+      expect(await roles.hasRole(Role.Employee, signers.alice.address)).to.eq(false);
+      expect(await roles.getRoleMembers(Role.Employee)).to.deep.eq([signers.bob.address]);
+    });
+
+    it("restricts role management to HR admins and keeps the last one", async function () {
+      await expect(
+        roles.connect(signers.alice).grantRole(Role.HRAdmin, signers.alice.address),
+      ).to.be.revertedWith("Not HR admin");
+      await expect(roles.grantRole(Role.Employee, signers.alice.address)).to.be.revertedWith("Role already granted");
+      await expect(roles.revokeRole(Role.HRAdmin, signers.admin.address)).to.be.revertedWith("Last HR admin");
+
+      await (await roles.grantRole(Role.HRAdmin, signers.hr.address)).wait();
+      await (await roles.connect(signers.hr).revokeRole(Role.HRAdmin, signers.admin.address)).wait();
+      expect(await roles.getRoleMembers(Role.HRAdmin)).to.deep.eq([signers.hr.address]);
+    });
+
+    it("assigns managers and tracks their reports", async function () {
+      await (await roles.grantRole(Role.Manager, signers.manager.address)).wait();
+      await (await roles.grantRole(Role.Manager, signers.hr.address)).wait();
+
+      await expect(roles.assignManager(signers.alice.address, signers.manager.address))
+        .to.emit(roles, "ManagerAssigned")
+        .withArgs(signers.alice.address, signers.manager.address);
+      await (await roles.assignManager(signers.bob.address, signers.manager.address)).wait();
+      expect(await roles.getReports(signers.manager.address)).to.deep.eq([signers.alice.address, signers.bob.address]);
+
+      await (await roles.assignManager(signers.alice.address, signers.hr.address)).wait();
+      expect(await roles.managerOf(signers.alice.address)).to.eq(signers.hr.address);
+      expect(await roles.getReports(signers.manager.address)).to.deep.eq([signers.bob.address]);
+      expect(await roles.isManagerOf(signers.hr.address, signers.alice.address)).to.eq(true);
+
+      await expect(roles.assignManager(signers.manager.address, signers.hr.address)).to.be.revertedWith("Not employee");
+      await expect(roles.assignManager(signers.alice.address, signers.bob.address)).to.be.revertedWith("Not manager");
+    });
+
+    it("only lets employees submit IDPs", async function () {
+      await expect(submitIDP(signers.manager, ALICE_IDP)).to.be.revertedWith("Not employee");
+    });
+  });
+
+  describe("skill taxonomy", function () {
+    it("scores an IDP on the weighted mean of its skill levels", async function () {
+      await expect(sim.registerSkill("System design", 3))
+        .to.emit(sim, "SkillRegistered")
+        .withArgs(2, "System design", 3);
+
+      const idpId = await submitIDP(signers.alice, ALICE_IDP);
+      // (50 * 1 + 90 * 3) / 4 = 80
+      await expect(updateSkills(signers.alice, idpId, { 2: 90 }))
+        .to.emit(sim, "SkillLevelsUpdated")
+        .withArgs(idpId, 2, [2]);
+
+      expect(await sim.getIDPSkills(idpId)).to.deep.eq([BigInt(GENERAL_SKILL), 2n]);
+      expect(await decryptUint32(await sim.skillLevels(idpId, 2), signers.alice)).to.eq(90);
+      const rev = await sim.idpRevisions(idpId, 2);
+      expect(await decryptUint32(rev.encryptedSkillLevel, signers.alice)).to.eq(80);
+      expect(await decryptUint32(rev.encryptedLearningHours, signers.alice)).to.eq(ALICE_IDP.learningHours);
+      expect(await decryptUint32(rev.encryptedCareerGoal, signers.alice)).to.eq(ALICE_IDP.careerGoal);
+    });
+
+    it("updates an individual skill and applies new weights from the next revision", async function () {
+      await (await sim.registerSkill("System design", 1)).wait();
+      const idpId = await submitIDP(signers.alice, ALICE_IDP);
+      await updateSkills(signers.alice, idpId, { 2: 90 });
+
+      await (await sim.updateSkillWeight(2, 3)).wait();
+      await updateSkills(signers.alice, idpId, { [GENERAL_SKILL]: 30 });
+
+      expect(await sim.getIDPSkills(idpId)).to.deep.eq([BigInt(GENERAL_SKILL), 2n]);
+      // (50 + 90) / 2 = 70 before the weight change, (30 + 90 * 3) / 4 = 75 after
+      const before = await sim.idpRevisions(idpId, 2);
+      const after = await sim.idpRevisions(idpId, 3);
+      expect(await decryptUint32(before.encryptedSkillLevel, signers.alice)).to.eq(70);
+      expect(await decryptUint32(after.encryptedSkillLevel, signers.alice)).to.eq(75);
+    });
+
+    it("rejects unknown skills and restricts the taxonomy to HR admins", async function () {
+      const idpId = await submitIDP(signers.alice, ALICE_IDP);
+      await expect(updateSkills(signers.alice, idpId, { 5: 10 })).to.be.revertedWith("Unknown skill");
+      await expect(updateSkills(signers.bob, idpId, { [GENERAL_SKILL]: 10 })).to.be.revertedWith("Not IDP owner");
+
+      await expect(sim.connect(signers.alice).registerSkill("Mentoring", 1)).to.be.revertedWith("Not HR admin");
+      await expect(sim.connect(signers.alice).updateSkillWeight(GENERAL_SKILL, 2)).to.be.revertedWith("Not HR admin");
+      await expect(sim.registerSkill("Mentoring", 0)).to.be.revertedWith("Zero weight");
+    });
+  });
+
+  describe("registry", function () {
+    it("enumerates IDP ids per owner and globally", async function () {
+      await submitIDP(signers.alice, ALICE_IDP);
+      await submitIDP(signers.bob, ALICE_IDP);
+      await submitIDP(signers.alice, ALICE_IDP);
+
+      expect(await sim.getOwnerIDPCount(signers.alice.address)).to.eq(2n);
+      expect(await sim.getOwnerIDPs(signers.alice.address, 0, 10)).to.deep.eq([1n, 3n]);
+      expect(await sim.getOwnerIDPs(signers.bob.address, 0, 10)).to.deep.eq([2n]);
+      expect(await sim.getIDPIds(0, 10)).to.deep.eq([1n, 2n, 3n]);
+    });
+
+    it("pages with offset and limit", async function () {
+      for (let i = 0; i < 3; i++) {
+        await submitIDP(signers.alice, ALICE_IDP);
+      }
+
+      expect(await sim.getOwnerIDPs(signers.alice.address, 1, 1)).to.deep.eq([2n]);
+      expect(await sim.getOwnerIDPs(signers.alice.address, 2, 5)).to.deep.eq([3n]);
+      expect(await sim.getOwnerIDPs(signers.alice.address, 3, 5)).to.deep.eq([]);
+      expect(await sim.getIDPIds(1, 2)).to.deep.eq([2n, 3n]);
+      expect(await sim.getIDPIds(0, 0)).to.deep.eq([]);
+    });
+  });
+
+  describe("community listing", function () {
+    it("lists only IDPs their owners published", async function () {
+      const aliceId = await submitIDP(signers.alice, ALICE_IDP);
+      const bobId = await submitIDP(signers.bob, ALICE_IDP);
+      await submitIDP(signers.alice, ALICE_IDP);
+
+      await (await sim.connect(signers.alice).publishIDP(aliceId)).wait();
+      await (await sim.connect(signers.bob).publishIDP(bobId)).wait();
+
+      expect(await sim.isPublished(aliceId)).to.eq(true);
+      expect(await sim.getPublishedIDPCount()).to.eq(2n);
+      expect(await sim.getPublishedIDPs(0, 10)).to.deep.eq([aliceId, bobId]);
+    });
+
+    it("moves the last entry into an unpublished slot", async function () {
+      for (let i = 0; i < 3; i++) {
+        await submitIDP(signers.alice, ALICE_IDP);
+        await (await sim.connect(signers.alice).publishIDP(i + 1)).wait();
+      }
+
+      await (await sim.connect(signers.alice).unpublishIDP(1)).wait();
+
+      expect(await sim.isPublished(1)).to.eq(false);
+      expect(await sim.getPublishedIDPs(0, 10)).to.deep.eq([3n, 2n]);
+      await (await sim.connect(signers.alice).unpublishIDP(2)).wait();
+      expect(await sim.getPublishedIDPs(0, 10)).to.deep.eq([3n]);
+    });
+
+    it("restricts publishing to the owner and rejects repeats", async function () {
+      const idpId = await submitIDP(signers.alice, ALICE_IDP);
+
+      await expect(sim.connect(signers.bob).publishIDP(idpId)).to.be.revertedWith("Not IDP owner");
+      await expect(sim.connect(signers.alice).unpublishIDP(idpId)).to.be.revertedWith("Not published");
+      await (await sim.connect(signers.alice).publishIDP(idpId)).wait();
+      await expect(sim.connect(signers.alice).publishIDP(idpId)).to.be.revertedWith("Already published");
+    });
+  });
+
+  describe("lifecycle", function () {
+    it("moves an IDP from draft through completion and back", async function () {
+      const idpId = await submitIDP(signers.alice, ALICE_IDP);
+      expect((await sim.encryptedIDPs(idpId)).status).to.eq(IDPStatus.Draft);
+
+      await expect(sim.connect(signers.alice).activateIDP(idpId))
+        .to.emit(sim, "IDPStatusChanged")
+        .withArgs(idpId, IDPStatus.Draft, IDPStatus.Active);
+      await expect(sim.connect(signers.alice).completeIDP(idpId))
+        .to.emit(sim, "IDPStatusChanged")
+        .withArgs(idpId, IDPStatus.Active, IDPStatus.Completed);
+      await expect(sim.connect(signers.alice).reactivateIDP(idpId))
+        .to.emit(sim, "IDPStatusChanged")
+        .withArgs(idpId, IDPStatus.Completed, IDPStatus.Active);
+      expect((await sim.encryptedIDPs(idpId)).status).to.eq(IDPStatus.Active);
+    });
+
+    it("rejects transitions the current state does not allow", async function () {
+      const idpId = await submitIDP(signers.alice, ALICE_IDP);
+
+      await expect(sim.connect(signers.alice).completeIDP(idpId)).to.be.revertedWith("Invalid transition");
+      await expect(sim.connect(signers.alice).reactivateIDP(idpId)).to.be.revertedWith("Invalid transition");
+      await (await sim.connect(signers.alice).archiveIDP(idpId)).wait();
+      await expect(sim.connect(signers.alice).archiveIDP(idpId)).to.be.revertedWith("Invalid transition");
+      await expect(sim.connect(signers.alice).activateIDP(idpId)).to.be.revertedWith("Invalid transition");
+    });
+
+    it("restricts transitions to the owner", async function () {
+      const idpId = await submitIDP(signers.alice, ALICE_IDP);
+
+      await expect(sim.connect(signers.bob).activateIDP(idpId)).to.be.revertedWith("Not IDP owner");
+      await expect(sim.connect(signers.bob).archiveIDP(idpId)).to.be.revertedWith("Not IDP owner");
+    });
+
+    it("refuses to simulate an archived IDP until it is reactivated", async function () {
+      const idpId = await submitIDP(signers.alice, ALICE_IDP);
+      await (await sim.connect(signers.alice).archiveIDP(idpId)).wait();
+
+      await expect(
+        sim.connect(signers.alice).runEncryptedSimulation(idpId, BALANCED_MODEL, 1),
+      ).to.be.revertedWith("IDP archived");
+      await expect(
+        sim.connect(signers.alice).projectTrajectory(idpId, BALANCED_MODEL, 1, 2),
+      ).to.be.revertedWith("IDP archived");
+
+      await (await sim.connect(signers.alice).reactivateIDP(idpId)).wait();
+      await (await sim.connect(signers.alice).runEncryptedSimulation(idpId, BALANCED_MODEL, 1)).wait();
+      expect((await sim.simulationResults(idpId, 1)).isCalculated).to.eq(true);
+    });
+  });
+
+  describe("simulation", function () {
+    it("computes the growth score the owner can decrypt", async function () {
+      const idpId = await submitIDP(signers.alice, ALICE_IDP);
+      await (await sim.connect(signers.alice).runEncryptedSimulation(idpId, BALANCED_MODEL, 1)).wait();
+
+      const result = await sim.simulationResults(idpId, 1);
+      expect(result.isCalculated).to.eq(true);
+      expect(result.modelId).to.eq(BALANCED_MODEL);
+      expect(result.modelVersion).to.eq(1);
+      expect(result.revision).to.eq(1);
+      expect(await decryptUint32(result.encryptedGrowthScore, signers.alice)).to.eq(ALICE_GROWTH_SCORE);
+    });
+
+    it("compares the growth score with the career goal", async function () {
+      const idpId = await submitIDP(signers.alice, ALICE_IDP);
+      await (await sim.connect(signers.alice).runEncryptedSimulation(idpId, BALANCED_MODEL, 1)).wait();
+
+      const behind = await sim.goalComparisons(idpId);
+      expect(behind.revision).to.eq(1);
+      expect(await fhevm.userDecryptEbool(behind.encryptedGoalExceeded, simAddress, signers.alice)).to.eq(false);
+
+      // Lowering the goal below the score flips the comparison on the next revision
+      await updateIDP(signers.alice, idpId, { ...ALICE_IDP, careerGoal: 30 });
+      await (await sim.connect(signers.alice).runEncryptedSimulation(idpId, BALANCED_MODEL, 2)).wait();
+
+      const ahead = await sim.goalComparisons(idpId);
+      expect(ahead.revision).to.eq(2);
+      expect(await fhevm.userDecryptEbool(ahead.encryptedGoalExceeded, simAddress, signers.alice)).to.eq(true);
+    });
+
+    it("scores past revisions with the latest model version", async function () {
+      const idpId = await submitIDP(signers.alice, ALICE_IDP);
+      await updateSkills(signers.alice, idpId, { [GENERAL_SKILL]: 80 });
+      await (
+        await sim.connect(signers.admin).updateGrowthModel(BALANCED_MODEL, {
+          skillWeight: 1,
+          learningHoursWeight: 1,
+          projectImpactWeight: 1,
+          divisor: 3,
+        })
+      ).wait();
+      await (await sim.connect(signers.alice).runEncryptedSimulation(idpId, BALANCED_MODEL, 1)).wait();
+
+      const result = await sim.simulationResults(idpId, 1);
+      expect(result.modelVersion).to.eq(2);
+      expect(result.revision).to.eq(1);
+      // (50 + 40 + 30) / 3
+      expect(await decryptUint32(result.encryptedGrowthScore, signers.alice)).to.eq(40n);
+    });
+
+    it("reverts when the same revision is simulated twice", async function () {
+      const idpId = await submitIDP(signers.alice, ALICE_IDP);
+      await (await sim.connect(signers.alice).runEncryptedSimulation(idpId, BALANCED_MODEL, 1)).wait();
+
+      await expect(
+        sim.connect(signers.alice).runEncryptedSimulation(idpId, BALANCED_MODEL, 1),
+      ).to.be.revertedWith("Simulation already run");
+    });
+
+    it("keeps one result per revision and refuses to re-run an earlier one", async function () {
+      const idpId = await submitIDP(signers.alice, ALICE_IDP);
+      await updateIDP(signers.alice, idpId, { ...ALICE_IDP, careerGoal: 30 });
+      await (await sim.connect(signers.alice).runEncryptedSimulation(idpId, BALANCED_MODEL, 1)).wait();
+      await (await sim.connect(signers.alice).runEncryptedSimulation(idpId, BALANCED_MODEL, 2)).wait();
+      expect(await sim.latestSimulatedRevision(idpId)).to.eq(2);
+
+      await expect(
+        sim.connect(signers.alice).runEncryptedSimulation(idpId, BALANCED_MODEL, 1),
+      ).to.be.revertedWith("Simulation already run");
+      const first = await sim.simulationResults(idpId, 1);
+      expect(first.revision).to.eq(1);
+      expect(await decryptUint32(first.encryptedGrowthScore, signers.alice)).to.eq(ALICE_GROWTH_SCORE);
+    });
+
+    it("keeps the goal comparison on the newest revision when an older one is simulated", async function () {
+      const idpId = await submitIDP(signers.alice, ALICE_IDP);
+      await updateIDP(signers.alice, idpId, { ...ALICE_IDP, careerGoal: 30 });
+      await (await sim.connect(signers.alice).runEncryptedSimulation(idpId, BALANCED_MODEL, 2)).wait();
+      await (await sim.connect(signers.alice).runEncryptedSimulation(idpId, BALANCED_MODEL, 1)).wait();
+
+      expect(await sim.latestSimulatedRevision(idpId)).to.eq(2);
+      const comparison = await sim.goalComparisons(idpId);
+      expect(comparison.revision).to.eq(2);
+      expect(await fhevm.userDecryptEbool(comparison.encryptedGoalExceeded, simAddress, signers.alice)).to.eq(true);
+      expect((await sim.simulationResults(idpId, 1)).isCalculated).to.eq(true);
+    });
+
+    it("reverts on a revision that was never submitted", async function () {
+      const idpId = await submitIDP(signers.alice, ALICE_IDP);
+
+      await expect(
+        sim.connect(signers.alice).runEncryptedSimulation(idpId, BALANCED_MODEL, 2),
+      ).to.be.revertedWith("Unknown revision");
+      await expect(
+        sim.connect(signers.alice).projectTrajectory(idpId, BALANCED_MODEL, 0, 4),
+      ).to.be.revertedWith("Unknown revision");
+    });
+
+    it("reverts on an unknown model", async function () {
+      const idpId = await submitIDP(signers.alice, ALICE_IDP);
+
+      await expect(sim.connect(signers.alice).runEncryptedSimulation(idpId, 99, 1)).to.be.revertedWith(
+        "Unknown model",
+      );
+    });
+  });
+
+  describe("impact ratings", function () {
+    beforeEach(async function () {
+      await (await roles.grantRole(Role.Manager, signers.manager.address)).wait();
+      await (await roles.assignManager(signers.alice.address, signers.manager.address)).wait();
+    });
+
+    it("keeps an unshared rating out of everything the employee can decrypt", async function () {
+      const idpId = await submitIDP(signers.alice, ALICE_IDP);
+      await rateImpact(signers.manager, idpId, 1, MANAGER_IMPACT_RATING);
+
+      const rating = await sim.impactRatings(idpId, 1);
+      expect(rating.manager).to.eq(signers.manager.address);
+      expect(rating.shared).to.eq(false);
+      expect(await decryptUint32(rating.encryptedRating, signers.manager)).to.eq(BigInt(MANAGER_IMPACT_RATING));
+      let decrypted = true;
+      try {
+        await decryptUint32(rating.encryptedRating, signers.alice);
+      } catch {
+        decrypted = false;
+      }
+      expect(decrypted).to.eq(false);
+
+      // Scoring on the hidden rating would let the employee solve for it from the public weights
+      await (await sim.connect(signers.alice).runEncryptedSimulation(idpId, BALANCED_MODEL, 1)).wait();
+      const result = await sim.simulationResults(idpId, 1);
+      expect(result.managerRated).to.eq(false);
+      expect(await decryptUint32(result.encryptedGrowthScore, signers.alice)).to.eq(ALICE_GROWTH_SCORE);
+    });
+
+    it("lets the manager share the rating with the employee", async function () {
+      const idpId = await submitIDP(signers.alice, ALICE_IDP);
+      await rateImpact(signers.manager, idpId, 1, MANAGER_IMPACT_RATING);
+
+      await expect(sim.connect(signers.alice).shareImpactRating(idpId, 1)).to.be.revertedWith("Not rating manager");
+      await expect(sim.connect(signers.manager).shareImpactRating(idpId, 1))
+        .to.emit(sim, "ImpactRatingShared")
+        .withArgs(idpId, 1);
+      const rating = await sim.impactRatings(idpId, 1);
+      expect(await decryptUint32(rating.encryptedRating, signers.alice)).to.eq(BigInt(MANAGER_IMPACT_RATING));
+      await expect(sim.connect(signers.manager).shareImpactRating(idpId, 1)).to.be.revertedWith(
+        "Rating already shared",
+      );
+    });
+
+    it("allows one more simulation of a revision once its rating is shared", async function () {
+      const idpId = await submitIDP(signers.alice, ALICE_IDP);
+      await (await sim.connect(signers.alice).runEncryptedSimulation(idpId, BALANCED_MODEL, 1)).wait();
+      expect((await sim.simulationResults(idpId, 1)).managerRated).to.eq(false);
+
+      await rateImpact(signers.manager, idpId, 1, MANAGER_IMPACT_RATING);
+      await expect(
+        sim.connect(signers.alice).runEncryptedSimulation(idpId, BALANCED_MODEL, 1),
+      ).to.be.revertedWith("Simulation already run");
+
+      await (await sim.connect(signers.manager).shareImpactRating(idpId, 1)).wait();
+      await (await sim.connect(signers.alice).runEncryptedSimulation(idpId, BALANCED_MODEL, 1)).wait();
+      const result = await sim.simulationResults(idpId, 1);
+      expect(result.managerRated).to.eq(true);
+      expect(await decryptUint32(result.encryptedGrowthScore, signers.alice)).to.eq(RATED_GROWTH_SCORE);
+      await expect(
+        sim.connect(signers.alice).runEncryptedSimulation(idpId, BALANCED_MODEL, 1),
+      ).to.be.revertedWith("Simulation already run");
+    });
+
+    it("scores scenarios with the self-reported impact until the rating is shared", async function () {
+      const idpId = await submitIDP(signers.alice, ALICE_IDP);
+      await rateImpact(signers.manager, idpId, 1, MANAGER_IMPACT_RATING);
+
+      async function runUnchangedScenario() {
+        const encrypted = await fhevm
+          .createEncryptedInput(simAddress, signers.alice.address)
+          .add32(0)
+          .add32(0)
+          .add32(0)
+          .encrypt();
+        await (
+          await sim
+            .connect(signers.alice)
+            .runScenarioSimulation(
+              idpId,
+              "Unchanged",
+              encrypted.handles[0],
+              encrypted.handles[1],
+              encrypted.handles[2],
+              encrypted.inputProof,
+              BALANCED_MODEL,
+              1,
+            )
+        ).wait();
+        return sim.scenarioResults(idpId, await sim.scenarioCount(idpId));
+      }
+
+      const beforeSharing = await runUnchangedScenario();
+      expect(beforeSharing.managerRated).to.eq(false);
+      expect(await decryptUint32(beforeSharing.encryptedGrowthScore, signers.alice)).to.eq(ALICE_GROWTH_SCORE);
+
+      await (await sim.connect(signers.manager).shareImpactRating(idpId, 1)).wait();
+      const afterSharing = await runUnchangedScenario();
+      expect(afterSharing.managerRated).to.eq(true);
+      expect(await decryptUint32(afterSharing.encryptedGrowthScore, signers.alice)).to.eq(RATED_GROWTH_SCORE);
+    });
+
+    it("checks project impact milestones against the shared rating", async function () {
+      const idpId = await submitIDP(signers.alice, ALICE_IDP);
+      const milestoneId = await addMilestone(signers.alice, idpId, MilestoneMetric.ProjectImpact, 50);
+      await rateImpact(signers.manager, idpId, 1, MANAGER_IMPACT_RATING);
+      await expect(sim.connect(signers.alice).evaluateMilestone(idpId, milestoneId)).to.be.revertedWith(
+        "Milestone up to date",
+      );
+
+      await (await sim.connect(signers.manager).shareImpactRating(idpId, 1)).wait();
+      await (await sim.connect(signers.alice).evaluateMilestone(idpId, milestoneId)).wait();
+      const milestone = await sim.milestones(idpId, milestoneId);
+      expect(await fhevm.userDecryptEbool(milestone.encryptedMet, simAddress, signers.alice)).to.eq(true);
+    });
+
+    it("only accepts ratings from the employee's current manager", async function () {
+      const idpId = await submitIDP(signers.alice, ALICE_IDP);
+      const encrypted = await fhevm.createEncryptedInput(simAddress, signers.bob.address).add32(1).encrypt();
+
+      await expect(
+        sim.connect(signers.bob).rateProjectImpact(idpId, 1, encrypted.handles[0], encrypted.inputProof),
+      ).to.be.revertedWith("Not assigned manager");
+      await expect(rateImpact(signers.manager, idpId, 2, MANAGER_IMPACT_RATING)).to.be.revertedWith("Unknown revision");
+
+      await (await roles.revokeRole(Role.Manager, signers.manager.address)).wait();
+      await expect(rateImpact(signers.manager, idpId, 1, MANAGER_IMPACT_RATING)).to.be.revertedWith(
+        "Not assigned manager",
+      );
+    });
+  });
+
+  describe("scenarios and trajectories", function () {
+    it("scores a scenario without touching the stored IDP", async function () {
+      const idpId = await submitIDP(signers.alice, ALICE_IDP);
+      const encrypted = await fhevm
+        .createEncryptedInput(simAddress, signers.alice.address)
+        .add32(10)
+        .add32(20)
+        .add32(0)
+        .encrypt();
+
+      await (
+        await sim
+          .connect(signers.alice)
+          .runScenarioSimulation(
+            idpId,
+            "Technical depth",
+            encrypted.handles[0],
+            encrypted.handles[1],
+            encrypted.handles[2],
+            encrypted.inputProof,
+            BALANCED_MODEL,
+            1,
+          )
+      ).wait();
+
+      expect(await sim.scenarioCount(idpId)).to.eq(1n);
+      const scenario = await sim.scenarioResults(idpId, 1);
+      // (60 * 2 + 60 + 30 * 3) / 6
+      expect(await decryptUint32(scenario.encryptedGrowthScore, signers.alice)).to.eq(45n);
+
+      const rev = await sim.idpRevisions(idpId, 1);
+      expect(await decryptUint32(rev.encryptedSkillLevel, signers.alice)).to.eq(ALICE_IDP.skillLevel);
+    });
+
+    it("projects per-period scores and the period the goal is reached", async function () {
+      const idpId = await submitIDP(signers.alice, ALICE_IDP);
+      await (await sim.connect(signers.alice).projectTrajectory(idpId, BALANCED_MODEL, 1, 3)).wait();
+
+      const trajectory = await sim.getTrajectory(idpId);
+      expect(trajectory.isCalculated).to.eq(true);
+      expect(trajectory.revision).to.eq(1);
+      expect(trajectory.periodScores.length).to.eq(3);
+
+      // Each period adds (40 / 10) * 2 to the numerator of 230
+      const scores = [];
+      for (const handle of trajectory.periodScores) {
+        scores.push(await decryptUint32(handle, signers.alice));
+      }
+      expect(scores).to.deep.eq([39n, 41n, 42n]);
+      expect(await decryptUint32(trajectory.goalPeriod, signers.alice)).to.eq(2n);
+    });
+
+    it("rejects a period count outside the supported range", async function () {
+      const idpId = await submitIDP(signers.alice, ALICE_IDP);
+      const maxPeriods = await sim.MAX_TRAJECTORY_PERIODS();
+
+      await expect(
+        sim.connect(signers.alice).projectTrajectory(idpId, BALANCED_MODEL, 1, maxPeriods + 1n),
+      ).to.be.revertedWith("Invalid period count");
+    });
+  });
+
+  describe("career ladder", function () {
+    // Senior needs skill level 40, 30 learning hours, impact 50 and System design at 60
+    const SENIOR_MINIMUMS = { skillLevel: 40, learningHours: 30, projectImpact: 50 };
+    const SYSTEM_DESIGN = 2;
+
+    beforeEach(async function () {
+      await (await sim.registerSkill("System design", 1)).wait();
+      await expect(ladder.registerJobRole("Senior", 2, SENIOR_MINIMUMS, [SYSTEM_DESIGN], [60]))
+        .to.emit(ladder, "JobRoleRegistered")
+        .withArgs(1, "Senior", 2);
+    });
+
+    async function readiness(idpId: bigint, jobRoleId: number) {
+      const result = await ladder.readinessResults(idpId, jobRoleId);
+      return {
+        ready: await fhevm.userDecryptEbool(result.encryptedReady, ladderAddress, signers.alice),
+        unmet: await fhevm.userDecryptEuint(
+          FhevmType.euint32,
+          result.encryptedUnmetCount,
+          ladderAddress,
+          signers.alice,
+        ),
+        revision: result.revision,
+      };
+    }
+
+    it("flags readiness and counts unmet requirements for a job role", async function () {
+      const idpId = await submitIDP(signers.alice, ALICE_IDP);
+      // Impact 30 is below 50 and System design has no level yet
+      await expect(sim.connect(signers.alice).checkReadiness(idpId, 1))
+        .to.emit(ladder, "ReadinessChecked")
+        .withArgs(idpId, 1, 1);
+      expect(await readiness(idpId, 1)).to.deep.eq({ ready: false, unmet: 2n, revision: 1n });
+
+      await updateSkills(signers.alice, idpId, { [SYSTEM_DESIGN]: 70 });
+      await updateIDP(signers.alice, idpId, { ...ALICE_IDP, projectImpact: 50 });
+      await (await sim.connect(signers.alice).checkReadiness(idpId, 1)).wait();
+      expect(await readiness(idpId, 1)).to.deep.eq({ ready: true, unmet: 0n, revision: 3n });
+    });
+
+    it("re-checks against updated requirements", async function () {
+      const idpId = await submitIDP(signers.alice, ALICE_IDP);
+      await expect(ladder.updateJobRole(1, { ...SENIOR_MINIMUMS, projectImpact: 0 }, [], []))
+        .to.emit(ladder, "JobRoleUpdated")
+        .withArgs(1, 2);
+      await (await sim.connect(signers.alice).checkReadiness(idpId, 1)).wait();
+
+      expect((await ladder.readinessResults(idpId, 1)).jobRoleVersion).to.eq(2);
+      expect(await readiness(idpId, 1)).to.deep.eq({ ready: true, unmet: 0n, revision: 1n });
+    });
+
+    it("reports the saturating per-skill shortfall against a job role", async function () {
+      await (await sim.registerSkill("Mentoring", 1)).wait();
+      await (
+        await ladder.updateJobRole(1, SENIOR_MINIMUMS, [GENERAL_SKILL, SYSTEM_DESIGN, 3], [45, 60, 40])
+      ).wait();
+      const idpId = await submitIDP(signers.alice, ALICE_IDP);
+      await updateSkills(signers.alice, idpId, { [SYSTEM_DESIGN]: 45 });
+
+      await expect(sim.connect(signers.alice).reportSkillGap(idpId, 1))
+        .to.emit(ladder, "SkillGapReported")
+        .withArgs(idpId, 1, 2);
+      const report = await ladder.getSkillGapReport(idpId, 1);
+      expect(report.skillIds).to.deep.eq([BigInt(GENERAL_SKILL), BigInt(SYSTEM_DESIGN), 3n]);
+      expect(report.jobRoleVersion).to.eq(2);
+
+      // General 50 exceeds 45, System design 45 is 15 short and Mentoring has no level yet
+      const shortfalls = [];
+      for (const handle of report.encryptedShortfalls) {
+        shortfalls.push(await fhevm.userDecryptEuint(FhevmType.euint32, handle, ladderAddress, signers.alice));
+      }
+      expect(shortfalls).to.deep.eq([0n, 15n, 40n]);
+      await expect(sim.connect(signers.bob).reportSkillGap(idpId, 1)).to.be.revertedWith("Not IDP owner");
+    });
+
+    it("keeps results private to the owner and the ladder to HR admins", async function () {
+      const idpId = await submitIDP(signers.alice, ALICE_IDP);
+      await (await sim.connect(signers.alice).checkReadiness(idpId, 1)).wait();
+      const result = await ladder.readinessResults(idpId, 1);
+
+      let decrypted = true;
+      try {
+        await fhevm.userDecryptEbool(result.encryptedReady, ladderAddress, signers.bob);
+      } catch {
+        decrypted = false;
+      }
+      expect(decrypted).to.eq(false);
+
+      await expect(sim.connect(signers.bob).checkReadiness(idpId, 1)).to.be.revertedWith("Not IDP owner");
+      await expect(sim.connect(signers.alice).checkReadiness(idpId, 2)).to.be.revertedWith("Unknown job role");
+      await expect(
+        ladder.connect(signers.alice).registerJobRole("Staff", 3, SENIOR_MINIMUMS, [], []),
+      ).to.be.revertedWith("Not HR admin");
+      await expect(ladder.registerJobRole("Staff", 3, SENIOR_MINIMUMS, [9], [80])).to.be.revertedWith(
+        "Unknown skill",
+      );
+      await expect(
+        ladder.registerJobRole("Staff", 3, SENIOR_MINIMUMS, [SYSTEM_DESIGN, SYSTEM_DESIGN], [80, 60]),
+      ).to.be.revertedWith("Duplicate skill");
+      const unwired = await (await ethers.getContractFactory("CareerLadder")).deploy(await roles.getAddress());
+      await expect(unwired.registerJobRole("Staff", 3, SENIOR_MINIMUMS, [], [])).to.be.revertedWith(
+        "Simulator not set",
+      );
+      await expect(
+        ladder.recordReadiness(idpId, 1, 1, signers.alice.address, [], [], ethers.ZeroHash, ethers.ZeroHash, ethers.ZeroHash),
+      ).to.be.revertedWith("Not simulator");
+      await expect(ladder.setSimulator(simAddress)).to.be.revertedWith("Simulator already set");
+      expect(ladderAddress).to.eq(await sim.ladder());
+    });
+  });
+
+  describe("milestones", function () {
+    it("flags which milestones the latest revision meets", async function () {
+      const idpId = await submitIDP(signers.alice, ALICE_IDP);
+      const skillId = await addMilestone(signers.alice, idpId, MilestoneMetric.SkillLevel, 45);
+      const hoursId = await addMilestone(signers.alice, idpId, MilestoneMetric.LearningHours, 60);
+
+      const skill = await sim.milestones(idpId, skillId);
+      const hours = await sim.milestones(idpId, hoursId);
+      expect(skill.evaluatedRevision).to.eq(1);
+      expect(await decryptUint32(skill.encryptedTarget, signers.alice)).to.eq(45n);
+      expect(await fhevm.userDecryptEbool(skill.encryptedMet, simAddress, signers.alice)).to.eq(true);
+      expect(await fhevm.userDecryptEbool(hours.encryptedMet, simAddress, signers.alice)).to.eq(false);
+    });
+
+    it("re-evaluates a milestone against a newer revision", async function () {
+      const idpId = await submitIDP(signers.alice, ALICE_IDP);
+      const milestoneId = await addMilestone(signers.alice, idpId, MilestoneMetric.LearningHours, 60);
+      await expect(sim.connect(signers.alice).evaluateMilestone(idpId, milestoneId)).to.be.revertedWith(
+        "Milestone up to date",
+      );
+
+      await updateIDP(signers.alice, idpId, { ...ALICE_IDP, learningHours: 70 });
+      await expect(sim.connect(signers.alice).evaluateMilestone(idpId, milestoneId))
+        .to.emit(sim, "MilestoneEvaluated")
+        .withArgs(idpId, milestoneId, 2);
+
+      const milestone = await sim.milestones(idpId, milestoneId);
+      expect(await fhevm.userDecryptEbool(milestone.encryptedMet, simAddress, signers.alice)).to.eq(true);
+    });
+
+    it("rejects an unknown milestone or a due date in the past", async function () {
+      const idpId = await submitIDP(signers.alice, ALICE_IDP);
+      const encrypted = await fhevm.createEncryptedInput(simAddress, signers.alice.address).add32(1).encrypt();
+
+      await expect(sim.connect(signers.alice).evaluateMilestone(idpId, 1)).to.be.revertedWith("Unknown milestone");
+      await expect(
+        sim
+          .connect(signers.alice)
+          .addMilestone(idpId, "Late", MilestoneMetric.SkillLevel, encrypted.handles[0], encrypted.inputProof, 1),
+      ).to.be.revertedWith("Due date passed");
+    });
+  });
+
+  describe("ownership", function () {
+    it("restricts IDP operations to the owner", async function () {
+      const idpId = await submitIDP(signers.alice, ALICE_IDP);
+      const encrypted = await fhevm
+        .createEncryptedInput(simAddress, signers.bob.address)
+        .add32(1)
+        .add32(1)
+        .add32(1)
+        .add32(1)
+        .encrypt();
+
+      await expect(
+        sim.connect(signers.bob).runEncryptedSimulation(idpId, BALANCED_MODEL, 1),
+      ).to.be.revertedWith("Not IDP owner");
+      await expect(
+        sim.connect(signers.bob).projectTrajectory(idpId, BALANCED_MODEL, 1, 2),
+      ).to.be.revertedWith("Not IDP owner");
+      await expect(
+        sim
+          .connect(signers.bob)
+          .updateEncryptedIDP(idpId, encrypted.handles[0], encrypted.handles[1], encrypted.handles[2], encrypted.inputProof),
+      ).to.be.revertedWith("Not IDP owner");
+      await expect(sim.connect(signers.bob).grantViewer(idpId, signers.bob.address)).to.be.revertedWith(
+        "Not IDP owner",
+      );
+      await expect(sim.connect(signers.bob).evaluateMilestone(idpId, 1)).to.be.revertedWith("Not IDP owner");
+    });
+
+    it("restricts growth model changes to HR admins", async function () {
+      await expect(
+        sim.connect(signers.alice).registerGrowthModel("Custom", {
+          skillWeight: 1,
+          learningHoursWeight: 1,
+          projectImpactWeight: 1,
+          divisor: 3,
+        }),
+      ).to.be.revertedWith("Not HR admin");
+    });
+
+    it("shares existing and future results with a granted viewer", async function () {
+      const idpId = await submitIDP(signers.alice, ALICE_IDP);
+      await (await sim.connect(signers.alice).runEncryptedSimulation(idpId, BALANCED_MODEL, 1)).wait();
+      await (await sim.connect(signers.alice).grantViewer(idpId, signers.manager.address)).wait();
+
+      const result = await sim.simulationResults(idpId, 1);
+      expect(await decryptUint32(result.encryptedGrowthScore, signers.manager)).to.eq(ALICE_GROWTH_SCORE);
+
+      await (await sim.connect(signers.alice).projectTrajectory(idpId, BALANCED_MODEL, 1, 1)).wait();
+      const trajectory = await sim.getTrajectory(idpId);
+      expect(await decryptUint32(trajectory.periodScores[0], signers.manager)).to.eq(39n);
+      expect(await sim.getViewers(idpId)).to.deep.eq([signers.manager.address]);
+    });
+
+    it("shares only the latest revision on grant and earlier ones on request", async function () {
+      const idpId = await submitIDP(signers.alice, ALICE_IDP);
+      await updateIDP(signers.alice, idpId, { ...ALICE_IDP, careerGoal: 30 });
+      await (await sim.connect(signers.alice).grantViewer(idpId, signers.manager.address)).wait();
+
+      const first = await sim.idpRevisions(idpId, 1);
+      const second = await sim.idpRevisions(idpId, 2);
+      expect(await decryptUint32(second.encryptedCareerGoal, signers.manager)).to.eq(30n);
+      let decrypted = true;
+      try {
+        await decryptUint32(first.encryptedCareerGoal, signers.manager);
+      } catch {
+        decrypted = false;
+      }
+      expect(decrypted).to.eq(false);
+
+      await (await sim.connect(signers.alice).shareRevision(idpId, 1)).wait();
+      expect(await decryptUint32(first.encryptedCareerGoal, signers.manager)).to.eq(BigInt(ALICE_IDP.careerGoal));
+    });
+
+    it("caps the number of viewers per IDP", async function () {
+      const idpId = await submitIDP(signers.alice, ALICE_IDP);
+      const viewers = (await ethers.getSigners()).slice(5, 11);
+      for (const viewer of viewers.slice(0, 5)) {
+        await (await sim.connect(signers.alice).grantViewer(idpId, viewer.address)).wait();
+      }
+
+      await expect(sim.connect(signers.alice).grantViewer(idpId, viewers[5].address)).to.be.revertedWith(
+        "Too many viewers",
+      );
+    });
+  });
+
+  describe("aggregates", function () {
+    beforeEach(async function () {
+      await (await roles.grantRole(Role.HRAdmin, signers.hr.address)).wait();
+      await (await analytics.connect(signers.admin).setMinCohortSize(2)).wait();
+    });
+
+    async function decryptSnapshot(cohortId: number | bigint, signer: HardhatEthersSigner = signers.hr) {
+      const snapshot = await analytics.aggregateSnapshots(cohortId);
+      const decrypt = async (handle: string) =>
+        Number(await fhevm.userDecryptEuint(FhevmType.euint32, handle, analyticsAddress, signer));
+      return {
+        memberCount: Number(snapshot.memberCount),
+        totalLearningHours: await decrypt(snapshot.totalLearningHours),
+        totalProjectImpact: await decrypt(snapshot.totalProjectImpact),
+        goalsExceeded: await decrypt(snapshot.goalsExceeded),
+      };
+    }
+
+    it("lets the requesting HR admin decrypt organisation totals", async function () {
+      const aliceId = await submitIDP(signers.alice, ALICE_IDP);
+      await submitIDP(signers.bob, { skillLevel: 10, learningHours: 15, projectImpact: 5, careerGoal: 90 });
+      // Only the latest revision of an IDP counts towards the totals
+      await updateIDP(signers.alice, aliceId, { ...ALICE_IDP, learningHours: 60, careerGoal: 20 });
+      await (await sim.connect(signers.alice).runEncryptedSimulation(aliceId, BALANCED_MODEL, 2)).wait();
+
+      await expect(analytics.connect(signers.hr).requestAggregateAccess(ORGANISATION))
+        .to.emit(analytics, "AggregateAccessGranted")
+        .withArgs(ORGANISATION, signers.hr.address, 2);
+
+      expect((await analytics.aggregateSnapshots(ORGANISATION)).requester).to.eq(signers.hr.address);
+      expect(await decryptSnapshot(ORGANISATION)).to.deep.eq({
+        memberCount: 2,
+        totalLearningHours: 75,
+        totalProjectImpact: 35,
+        goalsExceeded: 1,
+      });
+    });
+
+    it("keeps snapshot totals from everyone but the requester", async function () {
+      await submitIDP(signers.alice, ALICE_IDP);
+      await submitIDP(signers.bob, ALICE_IDP);
+      await (await roles.grantRole(Role.HRAdmin, signers.manager.address)).wait();
+      await (await analytics.connect(signers.hr).requestAggregateAccess(ORGANISATION)).wait();
+
+      for (const signer of [signers.manager, signers.alice]) {
+        let decrypted = true;
+        try {
+          await decryptSnapshot(ORGANISATION, signer);
+        } catch {
+          decrypted = false;
+        }
+        expect(decrypted).to.eq(false);
+      }
+      await expect(
+        analytics.connect(signers.manager).requestAggregateAccess(ORGANISATION),
+      ).to.be.revertedWith("Too few changes since snapshot");
+    });
+
+    it("keeps cohort totals separate from the organisation", async function () {
+      await (await analytics.connect(signers.admin).registerCohort("Engineering")).wait();
+      const cohortId = await analytics.cohortCount();
+      await submitIDP(signers.alice, ALICE_IDP, Number(cohortId));
+      await submitIDP(signers.bob, ALICE_IDP, Number(cohortId));
+      await (await roles.grantRole(Role.Employee, signers.manager.address)).wait();
+      await submitIDP(signers.manager, ALICE_IDP);
+
+      await (await analytics.connect(signers.hr).requestAggregateAccess(cohortId)).wait();
+
+      const snapshot = await decryptSnapshot(cohortId);
+      expect(snapshot.memberCount).to.eq(2);
+      expect(snapshot.totalLearningHours).to.eq(2 * ALICE_IDP.learningHours);
+      expect(await analytics.getAggregateMemberCount(ORGANISATION)).to.eq(3);
+
+      // An employee belongs to the cohort of their latest IDP only
+      await submitIDP(signers.alice, ALICE_IDP);
+      expect(await analytics.getAggregateMemberCount(cohortId)).to.eq(1);
+      expect(await analytics.getAggregateMemberCount(ORGANISATION)).to.eq(3);
+    });
+
+    it("refuses organisation totals while too few members sit outside decryptable cohorts", async function () {
+      await (await analytics.connect(signers.admin).registerCohort("Engineering")).wait();
+      const cohortId = Number(await analytics.cohortCount());
+      await submitIDP(signers.alice, ALICE_IDP, cohortId);
+      await submitIDP(signers.bob, ALICE_IDP, cohortId);
+      await (await roles.grantRole(Role.Employee, signers.manager.address)).wait();
+      await submitIDP(signers.manager, { ...ALICE_IDP, learningHours: 7 });
+      await (await analytics.connect(signers.hr).requestAggregateAccess(cohortId)).wait();
+
+      // Organisation minus Engineering would be the manager's own learning hours
+      await expect(
+        analytics.connect(signers.hr).requestAggregateAccess(ORGANISATION),
+      ).to.be.revertedWith("Too few members outside cohorts");
+
+      await (await roles.grantRole(Role.Employee, signers.hr.address)).wait();
+      await submitIDP(signers.hr, ALICE_IDP);
+      await (await analytics.connect(signers.hr).requestAggregateAccess(ORGANISATION)).wait();
+      expect((await analytics.aggregateSnapshots(ORGANISATION)).memberCount).to.eq(4);
+    });
+
+    it("counts each employee once through their latest IDP", async function () {
+      const firstId = await submitIDP(signers.alice, { ...ALICE_IDP, careerGoal: 20 });
+      await (await sim.connect(signers.alice).runEncryptedSimulation(firstId, BALANCED_MODEL, 1)).wait();
+      await submitIDP(signers.alice, { skillLevel: 10, learningHours: 10, projectImpact: 20, careerGoal: 90 });
+      await submitIDP(signers.bob, ALICE_IDP);
+      // The replaced IDP no longer contributes, whatever its owner does with it
+      await updateIDP(signers.alice, firstId, { ...ALICE_IDP, learningHours: 100 });
+
+      await (await analytics.connect(signers.hr).requestAggregateAccess(ORGANISATION)).wait();
+
+      expect(await decryptSnapshot(ORGANISATION)).to.deep.eq({
+        memberCount: 2,
+        totalLearningHours: 10 + ALICE_IDP.learningHours,
+        totalProjectImpact: 20 + ALICE_IDP.projectImpact,
+        goalsExceeded: 0,
+      });
+    });
+
+    it("refuses to decrypt a cohort below the minimum size", async function () {
+      // Several IDPs from one employee still make a single member
+      await submitIDP(signers.alice, ALICE_IDP);
+      await submitIDP(signers.alice, ALICE_IDP);
+
+      await expect(
+        analytics.connect(signers.hr).requestAggregateAccess(ORGANISATION),
+      ).to.be.revertedWith("Cohort too small");
+    });
+
+    it("refuses a new snapshot until enough employees have changed", async function () {
+      const aliceId = await submitIDP(signers.alice, ALICE_IDP);
+      const bobId = await submitIDP(signers.bob, ALICE_IDP);
+      await (await analytics.connect(signers.hr).requestAggregateAccess(ORGANISATION)).wait();
+      expect(await analytics.changedMembers(ORGANISATION)).to.eq(0);
+
+      // One employee revising twice is still a single change
+      await updateIDP(signers.alice, aliceId, { ...ALICE_IDP, learningHours: 50 });
+      await updateIDP(signers.alice, aliceId, { ...ALICE_IDP, learningHours: 60 });
+      expect(await analytics.changedMembers(ORGANISATION)).to.eq(1);
+      await expect(
+        analytics.connect(signers.hr).requestAggregateAccess(ORGANISATION),
+      ).to.be.revertedWith("Too few changes since snapshot");
+
+      await updateIDP(signers.bob, bobId, { ...ALICE_IDP, projectImpact: 10 });
+      await (await analytics.connect(signers.hr).requestAggregateAccess(ORGANISATION)).wait();
+      expect((await decryptSnapshot(ORGANISATION)).totalLearningHours).to.eq(60 + ALICE_IDP.learningHours);
+    });
+
+    it("restricts aggregate access to HR admins and the simulator", async function () {
+      await expect(
+        analytics.connect(signers.alice).requestAggregateAccess(ORGANISATION),
+      ).to.be.revertedWith("Not HR admin");
+      await expect(analytics.connect(signers.alice).registerCohort("Sales")).to.be.revertedWith("Not HR admin");
+      await expect(analytics.connect(signers.alice).addMember(1, signers.alice.address, ORGANISATION)).to.be.revertedWith("Not simulator");
+      await expect(analytics.connect(signers.admin).setSimulator(simAddress)).to.be.revertedWith(
+        "Simulator already set",
+      );
+      expect(analyticsAddress).to.eq(await sim.analytics());
+    });
+  });
+});
@@ -1,4 +1,7 @@
 /* Autogenerated file. Do not edit manually. */
 /* tslint:disable */
 /* eslint-disable */
-export type { UniversalAdapter } from "./UniversalAdapter";
+export type { CareerAnalytics } from "./CareerAnalytics";
+export type { CareerGrowthSim } from "./CareerGrowthSim";
+export type { CareerLadder } from "./CareerLadder";
+export type { CareerRoles } from "./CareerRoles";
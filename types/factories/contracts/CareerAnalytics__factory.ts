@@ -0,0 +1,450 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type {
+  Signer,
+  AddressLike,
+  ContractDeployTransaction,
+  ContractRunner,
+} from "ethers";
+import type { NonPayableOverrides } from "../../common";
+import type {
+  CareerAnalytics,
+  CareerAnalyticsInterface,
+} from "../../contracts/CareerAnalytics";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "contract CareerRoles",
+        name: "rolesContract",
+        type: "address",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "cohortId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "requester",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "memberCount",
+        type: "uint32",
+      },
+    ],
+    name: "AggregateAccessGranted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "cohortId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "name",
+        type: "string",
+      },
+    ],
+    name: "CohortRegistered",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "minCohortSize",
+        type: "uint32",
+      },
+    ],
+    name: "MinCohortSizeUpdated",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "ORGANISATION",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "idpId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "cohortId",
+        type: "uint256",
+      },
+    ],
+    name: "addMember",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "aggregateSnapshots",
+    outputs: [
+      {
+        internalType: "euint32",
+        name: "totalLearningHours",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "totalProjectImpact",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "goalsExceeded",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint32",
+        name: "memberCount",
+        type: "uint32",
+      },
+      {
+        internalType: "address",
+        name: "requester",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "changedMembers",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "cohortCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "cohorts",
+    outputs: [
+      {
+        internalType: "string",
+        name: "name",
+        type: "string",
+      },
+      {
+        internalType: "bool",
+        name: "exists",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "cohortId",
+        type: "uint256",
+      },
+    ],
+    name: "getAggregateMemberCount",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "minCohortSize",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "protocolId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "idpId",
+        type: "uint256",
+      },
+      {
+        internalType: "ebool",
+        name: "exceeded",
+        type: "bytes32",
+      },
+    ],
+    name: "recordGoalExceeded",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "idpId",
+        type: "uint256",
+      },
+      {
+        internalType: "euint32",
+        name: "learningHours",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "projectImpact",
+        type: "bytes32",
+      },
+    ],
+    name: "recordRevision",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "name",
+        type: "string",
+      },
+    ],
+    name: "registerCohort",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "cohortId",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "cohortId",
+        type: "uint256",
+      },
+    ],
+    name: "requestAggregateAccess",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "roles",
+    outputs: [
+      {
+        internalType: "contract CareerRoles",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint32",
+        name: "size",
+        type: "uint32",
+      },
+    ],
+    name: "setMinCohortSize",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "simulatorAddress",
+        type: "address",
+      },
+    ],
+    name: "setSimulator",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "simulator",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x60a0346101d457601f62001b3f38819003918201601f19168301916001600160401b038311848410176101d8578084926020946040528339810103126101d457516001600160a01b03811681036101d4575f606061005b6101ec565b82815282602082015282604082015201526100746101ec565b60607350157cffd6bbfa2dece204a89ec419c23ef5755d9182815273cd3ab3bd6bcc0c0bf3e27912a92043e817b1cf6980602083015273a02cda4ca3a71d7c46997716f4283aa851c2881291826040820152731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac938491015260018060a01b0319937f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970090858254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970190848254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970290838254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970391825416179055600563ffffffff19600354161760035560805260405161193390816200020c823960805181818161060c015281816109c801528181610bf901528181610fea01526110fb0152f35b5f80fd5b634e487b7160e01b5f52604160045260245ffd5b60405190608082016001600160401b038111838210176101d85760405256fe6080604081815260049182361015610015575f80fd5b5f3560e01c908163011515e0146110a957508063242160651461107a57806326a708e0146110605780632ad6835514611019578063392f5f6414610fd65780634f88b61d14610fa95780636d90255b14610bbb57806374ed78d014610aa15780639198f0611461097c578063a2ba8e411461095e578063b0f4507e1461093a578063b68e299114610596578063be221358146102e0578063bf7b5d7a146102b9578063da1f12ab1461029d578063dafd751e146102325763e0699e78146100da575f80fd5b346101e157806003193601126101e1575f546001600160a01b039280359161010590851633146112ac565b815f526020600681525f848120925f805160206119078339815191529683818954166044895180968193639cd07acb60e01b83526001888401528760248401525af19283156102285790849392915f936101f5575b50905f6064926101686115a5565b9a541689519a8b958694637702dcff60e01b865260243590860152602485015260448401525af19384156101ec57505f936101b6575b506101b49350600360028201549101549161134e565b005b90925083813d83116101e5575b6101cd8183611223565b810103126101e1576101b49251915f61019e565b5f80fd5b503d6101c3565b513d5f823e3d90fd5b848193959294503d8311610221575b61020e8183611223565b810103126101e15751839290915f61015a565b503d610204565b87513d5f823e3d90fd5b5090346101e15760203660031901126101e15760c09181355f526005602052805f208054926001820154926002830154916003840154930154938151958652602086015284015263ffffffff8116606084015260018060a01b039060201c16608083015260a0820152f35b50346101e1575f3660031901126101e157602090516127118152f35b50346101e1575f3660031901126101e1575f5490516001600160a01b039091168152602090f35b50346101e15760603660031901126101e157602435906001600160a01b03808316918435918385036101e1576044359361031e825f541633146112ac565b8415918215928361057d575b610333906112e8565b845f5260209460068652866001865f20856bffffffffffffffffffffffff60a01b8254161781550155825f5260078652845f20908154915580155f1461045f5750505f80528684526003835f2001805463ffffffff610393818316611325565b169063ffffffff19161790555b5f805260098452825f2054906001820180921161044c575f8052600a8552835f20815f52855281845f20540361040a575b50506103d957005b6101b494600392845f52525f2001805463ffffffff6103f9818316611325565b169063ffffffff1916179055611517565b5f8052600a8552835f20905f528452825f20555f805260088352815f20805463ffffffff610439818316611325565b169063ffffffff19161790555f806103d1565b601188634e487b7160e01b5f525260245ffd5b5f5260068552835f20905f8052888652845f209081549061048660028501928354906116ac565b8355600260018401938454946104a260038801968754906116ac565b905501938454946104b88d8301968754906116ac565b90556104c68282541661148a565b60018101948c8a875495866104e4575b5050505050505050506103a0565b6105309761052693600293895f52526105048d5f209283549054906116ac565b8255610518600183019182549054906116ac565b9055019182549054906116ac565b9055541690611517565b545f528684526003835f2001805463ffffffff5f198183160181811161056a57169063ffffffff19161790555f80808080808c8a826104d6565b60118b634e487b7160e01b5f525260245ffd5b505f86815260026020528490206001015460ff1661032a565b5090346101e157602091826003193601126101e157813567ffffffffffffffff928382116101e157366023830112156101e15781810135908482116101e157602480840193818436920101116101e1578451634f4bdc7b60e11b81525f83820190815233602082015288908290819060400103817f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03165afa908115610930579061064f915f91610903575b50611271565b82156108cd5760018054968188018098116108bb5787825586519087820194828610828711176108a957858952601f199081601f890116966106938d890182611223565b888152888a60608701375f60608a8701015284528b8401958587528b5f5260028d528a5f209451918251948511610898575050928995928c95928c9998956106db84546111eb565b601f811161081f575b508791601f841160011461077657509488948a948486957f6dbc45f6c211bdc024d3eb16d6c6aa14e86d61fcc4946e7df11d4e31f1e67dac9e9f955f9a8b9261076b575b505081841b918a199060031b1c19161781555b019051151560ff80198354169116179055835198878a98895288015283870137840101528101030190a251908152f35b015190505f80610728565b5f858152898120959d9796959392918516905b8181106107ee57509c85857f6dbc45f6c211bdc024d3eb16d6c6aa14e86d61fcc4946e7df11d4e31f1e67dac9e9f958d99958f99958a995f9d99106107d6575b505050811b01815561073b565b01518b1960f88460031b161c191690555f80806107c9565b9496999c509194979a9c969950918b8881928786015181550195019301918e9b989593918e9a979d9b989593610789565b91949792959850928096999a505f52815f2090601f860160051c820192861061088e575b928c9895928f9895928f9c9b9895601f0160051c01905b81811061086757506106e4565b809295989b9c505f9194979a508699509592955501928c999895928c9895928f989561085a565b9091508190610843565b604190634e487b7160e01b5f52525ffd5b60418591634e487b7160e01b5f52525ffd5b82601185634e487b7160e01b5f52525ffd5b845162461bcd60e51b815291820187905260119082015270456d70747920636f686f7274206e616d6560781b6044820152606490fd5b6109239150893d8b11610929575b61091b8183611223565b810190611259565b5f610649565b503d610911565b86513d5f823e3d90fd5b50346101e1575f3660031901126101e15760209063ffffffff600354169051908152f35b50346101e1575f3660031901126101e1576020906001549051908152f35b5090346101e157602090816003193601126101e15780359063ffffffff82168092036101e1578351634f4bdc7b60e11b81525f82820190815233602082015284908290819060400103817f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03165afa8015610a9757610a08915f91610a805750611271565b8115610a4757507ff5aede77d54b40a4b1668bcd268985f888645f58cd299fe20a984397a630ac9b928163ffffffff19600354161760035551908152a1005b835162461bcd60e51b81529081018390526013602482015272496e76616c696420636f686f72742073697a6560681b6044820152606490fd5b6109239150853d87116109295761091b8183611223565b85513d5f823e3d90fd5b50346101e157602091826003193601126101e157355f5260028252805f2091815192835f8254610ad0816111eb565b90818452600190866001821691825f14610b98575050600114610b5b575b505091610b0560019260ff94979695970386611223565b015416908051938492828452845180938501525f945b838610610b425750606094505f858486010152151590830152601f80199101168101030190f35b8581018301518787016060015294820194869450610b1b565b90859250845f52825f20915f925b828410610b8057505050820101610b056001610aee565b8054848b018601528995508794909301928101610b69565b60ff19168187015292151560051b85019092019250610b05915060019050610aee565b50346101e1576020806003193601126101e1578151634f4bdc7b60e11b81525f818501908152336020820152843592919082908290819060400103817f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03165afa908115610f9f5790610c3b915f91610f885750611271565b811592838015610f70575b610c4f906112e8565b825f52848252805f2063ffffffff6003958160038401541696826003541691828910610f3a57875f526005875289865f200154158015610f27575b15610ee457610dfa575b50506002820190815415610de0575b610cae338454611631565b6001830192610cbe338554611631565b610cc9338454611631565b549254915484519360c0850185811067ffffffffffffffff821117610dcd57908a94939291875285528685019283528585019081526060850191898352608086019133835260a08701944286528a5f5260058a52885f209751885551600188015551600287015560038601925116825491640100000000600160c01b039051891b169167ffffffffffffffff60c01b16171790555191015560098252805f2080549060018201809211610dba577f66b06bd12099a44b3b22426fd2766059be8ac229f643a26fe02c3ffb73b3afc89495965055835f5260088252805f2063ffffffff198154169055519384523393a3005b601187634e487b7160e01b5f525260245ffd5b60418b634e487b7160e01b5f525260245ffd5b610df5610deb6115a5565b8084553090611631565b610ca3565b5f8080528987528590206003015460018054859392841692825b82811115610e88575050505016908115918215610e7d575b505015610e3a575f80610c94565b825162461bcd60e51b8152808801859052601f60248201527f546f6f20666577206d656d62657273206f75747369646520636f686f727473006044820152606490fd5b101590505f80610e2c565b809192939495505f528c8a5286828a5f200154168787821015610ed0575b50505f198114610ebd578301908694939291610e14565b60118d634e487b7160e01b5f525260245ffd5b9091951603868111610ebd57935f87610ea6565b855162461bcd60e51b8152808b01889052601e60248201527f546f6f20666577206368616e6765732073696e636520736e617073686f7400006044820152606490fd5b50600887528284875f2054161015610c8a565b855162461bcd60e51b8152808b01889052601060248201526f10dbda1bdc9d081d1bdbc81cdb585b1b60821b6044820152606490fd5b505f838152600283528190206001015460ff16610c46565b6109239150833d85116109295761091b8183611223565b84513d5f823e3d90fd5b50346101e15760203660031901126101e157602091355f526008825263ffffffff815f2054169051908152f35b50346101e1575f3660031901126101e157517f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03168152602090f35b50346101e15760603660031901126101e157816101b492359161104660018060a01b035f541633146112ac565b825f5260066020525f20015490604435906024359061134e565b50346101e1575f3660031901126101e157602090515f8152f35b50346101e15760203660031901126101e15781602092355f52825263ffffffff6003825f200154169051908152f35b905082346101e1576020806003193601126101e1576001600160a01b038235818116959194908690036101e157634f4bdc7b60e11b81525f8482019081523360208201528390829081906040010381887f0000000000000000000000000000000000000000000000000000000000000000165afa9081156111e15790611135915f916111c45750611271565b5f5493841661118b578415611156575050506001600160a01b031916175f55005b5162461bcd60e51b815291820152601160248201527024b73b30b634b21039b4b6bab630ba37b960791b604482015260649150fd5b5162461bcd60e51b815291820152601560248201527414da5b5d5b185d1bdc88185b1c9958591e481cd95d605a1b604482015260649150fd5b6111db9150843d86116109295761091b8183611223565b87610649565b82513d5f823e3d90fd5b90600182811c92168015611219575b602083101461120557565b634e487b7160e01b5f52602260045260245ffd5b91607f16916111fa565b90601f8019910116810190811067ffffffffffffffff82111761124557604052565b634e487b7160e01b5f52604160045260245ffd5b908160209103126101e1575180151581036101e15790565b1561127857565b60405162461bcd60e51b815260206004820152600c60248201526b2737ba1024291030b236b4b760a11b6044820152606490fd5b156112b357565b60405162461bcd60e51b815260206004820152600d60248201526c2737ba1039b4b6bab630ba37b960991b6044820152606490fd5b156112ef57565b60405162461bcd60e51b815260206004820152600e60248201526d155b9adb9bdddb8818dbda1bdc9d60921b6044820152606490fd5b90600163ffffffff8093160191821161133a57565b634e487b7160e01b5f52601160045260245ffd5b6113a5929184600461139e93805f52600660205260405f209060018060a01b03908183541690815f52600760205260405f2054146113ba575b505083600282015585600382015501553090611631565b3090611631565b806113ad5750565b6113b8903090611631565b565b6113c39061148a565b5f80528260205260405f20848154926113e3886002870195865490611762565b8355600260018401938454946114008d60038a0197885490611762565b905501938454946114178489890197885490611762565b90556001860154938461142e575b50505050611387565b61147d9461144160029489541682611517565b5f528760205261145a8a60405f20938454905490611762565b825561146f8c60018401928354905490611762565b905501928354905490611762565b90555f8084818080611425565b5f805260209060098252604091825f20546001810180911161133a575f808052600a83528481206001600160a01b03909416808252938352849020548190036114d4575b50505050565b6008925f8052600a8352845f20905f528252835f20555f8052525f20805463ffffffff611502818316611325565b169063ffffffff19161790555f8080806114ce565b90815f52602060098152604092835f20546001810180911161133a575f828152600a84528581206001600160a01b0390951680825294845285902054819003611562575b5050505050565b600893825f52600a8452855f20905f528352845f20555f52525f20805463ffffffff61158f818316611325565b169063ffffffff19161790555f8080808061155b565b5f8051602061190783398151915254604051639cd07acb60e01b81525f600480830182905260248301529091602091839160449183916001600160a01b03165af1908115611626575f916115f7575090565b90506020813d60201161161e575b8161161260209383611223565b810103126101e1575190565b3d9150611605565b6040513d5f823e3d90fd5b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700546001600160a01b0392908316803b156101e1575f92836044926040519687958694635ca4b5b160e11b865260048601521660248401525af18015611626576116985750565b67ffffffffffffffff811161124557604052565b90801561175e57811561174a575b602090606460018060a01b035f805160206119078339815191525416935f60405195869485936303056db360e31b8552600485015260248401528160448401525af1908115611626575f91611718575b506117153082611631565b90565b90506020813d602011611742575b8161173360209383611223565b810103126101e157515f61170a565b3d9150611726565b905060206117566115a5565b9190506116ba565b5090565b9091808314611900578015908115611847575b505090801590811561178e575b50506117153082611631565b908215611837575b611825575b602090606460018060a01b035f805160206119078339815191525416935f60405195869485936303056db360e31b8552600485015260248401528160448401525af1908115611626575f916117f3575b505f80611782565b90506020813d60201161181d575b8161180e60209383611223565b810103126101e157515f6117eb565b3d9150611801565b5060206118306115a5565b905061179b565b91506118416115a5565b91611796565b9082156118f0575b6118de575b602090606460018060a01b035f805160206119078339815191525416935f604051958694859363022f65e760e31b8552600485015260248401528160448401525af1908115611626575f916118ac575b505f80611775565b90506020813d6020116118d6575b816118c760209383611223565b810103126101e157515f6118a4565b3d91506118ba565b5060206118e96115a5565b9050611854565b91506118fa6115a5565b9161184f565b5090509056fe9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649701a164736f6c6343000818000a";
+
+type CareerAnalyticsConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: CareerAnalyticsConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class CareerAnalytics__factory extends ContractFactory {
+  constructor(...args: CareerAnalyticsConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    rolesContract: AddressLike,
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(rolesContract, overrides || {});
+  }
+  override deploy(
+    rolesContract: AddressLike,
+    overrides?: NonPayableOverrides & { from?: string }
+  ) {
+    return super.deploy(rolesContract, overrides || {}) as Promise<
+      CareerAnalytics & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): CareerAnalytics__factory {
+    return super.connect(runner) as CareerAnalytics__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): CareerAnalyticsInterface {
+    return new Interface(_abi) as CareerAnalyticsInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): CareerAnalytics {
+    return new Contract(address, _abi, runner) as unknown as CareerAnalytics;
+  }
+}
@@ -0,0 +1,2027 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type {
+  Signer,
+  AddressLike,
+  ContractDeployTransaction,
+  ContractRunner,
+} from "ethers";
+import type { NonPayableOverrides } from "../../common";
+import type {
+  CareerGrowthSim,
+  CareerGrowthSimInterface,
+} from "../../contracts/CareerGrowthSim";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "contract CareerAnalytics",
+        name: "analyticsContract",
+        type: "address",
+      },
+      {
+        internalType: "contract CareerLadder",
+        name: "ladderContract",
+        type: "address",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "modelId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "name",
+        type: "string",
+      },
+    ],
+    name: "GrowthModelRegistered",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "modelId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "version",
+        type: "uint32",
+      },
+    ],
+    name: "GrowthModelUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "idpId",
+        type: "uint256",
+      },
+    ],
+    name: "IDPPublished",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "idpId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "enum CareerGrowthSim.IDPStatus",
+        name: "previousStatus",
+        type: "uint8",
+      },
+      {
+        indexed: false,
+        internalType: "enum CareerGrowthSim.IDPStatus",
+        name: "status",
+        type: "uint8",
+      },
+    ],
+    name: "IDPStatusChanged",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    name: "IDPSubmitted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "idpId",
+        type: "uint256",
+      },
+    ],
+    name: "IDPUnpublished",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "revision",
+        type: "uint32",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    name: "IDPUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "idpId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "revision",
+        type: "uint32",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "manager",
+        type: "address",
+      },
+    ],
+    name: "ImpactRated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "idpId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "revision",
+        type: "uint32",
+      },
+    ],
+    name: "ImpactRatingShared",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "idpId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "milestoneId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "label",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "dueDate",
+        type: "uint256",
+      },
+    ],
+    name: "MilestoneAdded",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "idpId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "milestoneId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "revision",
+        type: "uint32",
+      },
+    ],
+    name: "MilestoneEvaluated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "idpId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "scenarioId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "label",
+        type: "string",
+      },
+    ],
+    name: "ScenarioSimulated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "idpId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    name: "SimulationCompleted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "idpId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "revision",
+        type: "uint32",
+      },
+      {
+        indexed: false,
+        internalType: "uint256[]",
+        name: "skillIds",
+        type: "uint256[]",
+      },
+    ],
+    name: "SkillLevelsUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "skillId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "name",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "weight",
+        type: "uint32",
+      },
+    ],
+    name: "SkillRegistered",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "skillId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "weight",
+        type: "uint32",
+      },
+    ],
+    name: "SkillWeightUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "idpId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint8",
+        name: "periods",
+        type: "uint8",
+      },
+    ],
+    name: "TrajectoryProjected",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "idpId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "viewer",
+        type: "address",
+      },
+    ],
+    name: "ViewerGranted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "idpId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "viewer",
+        type: "address",
+      },
+    ],
+    name: "ViewerRevoked",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "HOURS_PER_SKILL_POINT",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_IDP_SKILLS",
+    outputs: [
+      {
+        internalType: "uint8",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_TRAJECTORY_PERIODS",
+    outputs: [
+      {
+        internalType: "uint8",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_VIEWERS",
+    outputs: [
+      {
+        internalType: "uint8",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "idpId",
+        type: "uint256",
+      },
+    ],
+    name: "activateIDP",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "idpId",
+        type: "uint256",
+      },
+      {
+        internalType: "string",
+        name: "label",
+        type: "string",
+      },
+      {
+        internalType: "enum CareerGrowthSim.MilestoneMetric",
+        name: "metric",
+        type: "uint8",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "targetInput",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+      {
+        internalType: "uint256",
+        name: "dueDate",
+        type: "uint256",
+      },
+    ],
+    name: "addMilestone",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "milestoneId",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "analytics",
+    outputs: [
+      {
+        internalType: "contract CareerAnalytics",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "idpId",
+        type: "uint256",
+      },
+    ],
+    name: "archiveIDP",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "idpId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "jobRoleId",
+        type: "uint256",
+      },
+    ],
+    name: "checkReadiness",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "idpId",
+        type: "uint256",
+      },
+    ],
+    name: "completeIDP",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "encryptedIDPs",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "cohortId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint32",
+        name: "latestRevision",
+        type: "uint32",
+      },
+      {
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+      {
+        internalType: "enum CareerGrowthSim.IDPStatus",
+        name: "status",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "idpId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "milestoneId",
+        type: "uint256",
+      },
+    ],
+    name: "evaluateMilestone",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "offset",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "limit",
+        type: "uint256",
+      },
+    ],
+    name: "getIDPIds",
+    outputs: [
+      {
+        internalType: "uint256[]",
+        name: "ids",
+        type: "uint256[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "idpId",
+        type: "uint256",
+      },
+    ],
+    name: "getIDPSkills",
+    outputs: [
+      {
+        internalType: "uint256[]",
+        name: "",
+        type: "uint256[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+    ],
+    name: "getOwnerIDPCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "offset",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "limit",
+        type: "uint256",
+      },
+    ],
+    name: "getOwnerIDPs",
+    outputs: [
+      {
+        internalType: "uint256[]",
+        name: "ids",
+        type: "uint256[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getPublishedIDPCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "offset",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "limit",
+        type: "uint256",
+      },
+    ],
+    name: "getPublishedIDPs",
+    outputs: [
+      {
+        internalType: "uint256[]",
+        name: "ids",
+        type: "uint256[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "idpId",
+        type: "uint256",
+      },
+    ],
+    name: "getTrajectory",
+    outputs: [
+      {
+        internalType: "euint32[]",
+        name: "periodScores",
+        type: "bytes32[]",
+      },
+      {
+        internalType: "euint32",
+        name: "goalPeriod",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint256",
+        name: "modelId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint32",
+        name: "modelVersion",
+        type: "uint32",
+      },
+      {
+        internalType: "uint32",
+        name: "revision",
+        type: "uint32",
+      },
+      {
+        internalType: "bool",
+        name: "isCalculated",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "idpId",
+        type: "uint256",
+      },
+    ],
+    name: "getViewers",
+    outputs: [
+      {
+        internalType: "address[]",
+        name: "",
+        type: "address[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "goalComparisons",
+    outputs: [
+      {
+        internalType: "ebool",
+        name: "encryptedGoalExceeded",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint32",
+        name: "revision",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "idpId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "viewer",
+        type: "address",
+      },
+    ],
+    name: "grantViewer",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "growthModels",
+    outputs: [
+      {
+        internalType: "string",
+        name: "name",
+        type: "string",
+      },
+      {
+        internalType: "uint32",
+        name: "version",
+        type: "uint32",
+      },
+      {
+        internalType: "bool",
+        name: "exists",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "idpCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    name: "idpRevisions",
+    outputs: [
+      {
+        internalType: "euint32",
+        name: "encryptedSkillLevel",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "encryptedLearningHours",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "encryptedProjectImpact",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "encryptedCareerGoal",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "idpViewers",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    name: "impactRatings",
+    outputs: [
+      {
+        internalType: "euint32",
+        name: "encryptedRating",
+        type: "bytes32",
+      },
+      {
+        internalType: "address",
+        name: "manager",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "shared",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "idpId",
+        type: "uint256",
+      },
+    ],
+    name: "isPublished",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "ladder",
+    outputs: [
+      {
+        internalType: "contract CareerLadder",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "latestSimulatedRevision",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "milestoneCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "milestones",
+    outputs: [
+      {
+        internalType: "string",
+        name: "label",
+        type: "string",
+      },
+      {
+        internalType: "enum CareerGrowthSim.MilestoneMetric",
+        name: "metric",
+        type: "uint8",
+      },
+      {
+        internalType: "euint32",
+        name: "encryptedTarget",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint256",
+        name: "dueDate",
+        type: "uint256",
+      },
+      {
+        internalType: "ebool",
+        name: "encryptedMet",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint32",
+        name: "evaluatedRevision",
+        type: "uint32",
+      },
+      {
+        internalType: "bool",
+        name: "ratingApplied",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "modelCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    name: "modelWeights",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "skillWeight",
+        type: "uint32",
+      },
+      {
+        internalType: "uint32",
+        name: "learningHoursWeight",
+        type: "uint32",
+      },
+      {
+        internalType: "uint32",
+        name: "projectImpactWeight",
+        type: "uint32",
+      },
+      {
+        internalType: "uint32",
+        name: "divisor",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "idpId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "modelId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint32",
+        name: "revision",
+        type: "uint32",
+      },
+      {
+        internalType: "uint8",
+        name: "periods",
+        type: "uint8",
+      },
+    ],
+    name: "projectTrajectory",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "protocolId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "idpId",
+        type: "uint256",
+      },
+    ],
+    name: "publishIDP",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "idpId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint32",
+        name: "revision",
+        type: "uint32",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "ratingInput",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "rateProjectImpact",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "idpId",
+        type: "uint256",
+      },
+    ],
+    name: "reactivateIDP",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "name",
+        type: "string",
+      },
+      {
+        components: [
+          {
+            internalType: "uint32",
+            name: "skillWeight",
+            type: "uint32",
+          },
+          {
+            internalType: "uint32",
+            name: "learningHoursWeight",
+            type: "uint32",
+          },
+          {
+            internalType: "uint32",
+            name: "projectImpactWeight",
+            type: "uint32",
+          },
+          {
+            internalType: "uint32",
+            name: "divisor",
+            type: "uint32",
+          },
+        ],
+        internalType: "struct CareerGrowthSim.ModelWeights",
+        name: "weights",
+        type: "tuple",
+      },
+    ],
+    name: "registerGrowthModel",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "name",
+        type: "string",
+      },
+      {
+        internalType: "uint32",
+        name: "weight",
+        type: "uint32",
+      },
+    ],
+    name: "registerSkill",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "idpId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "jobRoleId",
+        type: "uint256",
+      },
+    ],
+    name: "reportSkillGap",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "idpId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "viewer",
+        type: "address",
+      },
+    ],
+    name: "revokeViewer",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "roles",
+    outputs: [
+      {
+        internalType: "contract CareerRoles",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "idpId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "modelId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint32",
+        name: "revision",
+        type: "uint32",
+      },
+    ],
+    name: "runEncryptedSimulation",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "idpId",
+        type: "uint256",
+      },
+      {
+        internalType: "string",
+        name: "label",
+        type: "string",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "skillLevelDeltaInput",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "learningHoursDeltaInput",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "projectImpactDeltaInput",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+      {
+        internalType: "uint256",
+        name: "modelId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint32",
+        name: "revision",
+        type: "uint32",
+      },
+    ],
+    name: "runScenarioSimulation",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "scenarioId",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "scenarioCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "scenarioResults",
+    outputs: [
+      {
+        internalType: "euint32",
+        name: "encryptedGrowthScore",
+        type: "bytes32",
+      },
+      {
+        internalType: "bool",
+        name: "isCalculated",
+        type: "bool",
+      },
+      {
+        internalType: "uint256",
+        name: "modelId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint32",
+        name: "modelVersion",
+        type: "uint32",
+      },
+      {
+        internalType: "uint32",
+        name: "revision",
+        type: "uint32",
+      },
+      {
+        internalType: "bool",
+        name: "managerRated",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "scenarios",
+    outputs: [
+      {
+        internalType: "string",
+        name: "label",
+        type: "string",
+      },
+      {
+        internalType: "euint32",
+        name: "skillLevelDelta",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "learningHoursDelta",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "projectImpactDelta",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "idpId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint32",
+        name: "revision",
+        type: "uint32",
+      },
+    ],
+    name: "shareImpactRating",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "idpId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint32",
+        name: "revision",
+        type: "uint32",
+      },
+    ],
+    name: "shareRevision",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    name: "simulationResults",
+    outputs: [
+      {
+        internalType: "euint32",
+        name: "encryptedGrowthScore",
+        type: "bytes32",
+      },
+      {
+        internalType: "bool",
+        name: "isCalculated",
+        type: "bool",
+      },
+      {
+        internalType: "uint256",
+        name: "modelId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint32",
+        name: "modelVersion",
+        type: "uint32",
+      },
+      {
+        internalType: "uint32",
+        name: "revision",
+        type: "uint32",
+      },
+      {
+        internalType: "bool",
+        name: "managerRated",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "skillCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "skillLevels",
+    outputs: [
+      {
+        internalType: "euint32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "skills",
+    outputs: [
+      {
+        internalType: "string",
+        name: "name",
+        type: "string",
+      },
+      {
+        internalType: "uint32",
+        name: "weight",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256[]",
+        name: "skillIds",
+        type: "uint256[]",
+      },
+      {
+        internalType: "externalEuint32[]",
+        name: "skillLevelInputs",
+        type: "bytes32[]",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "learningHoursInput",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "projectImpactInput",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "careerGoalInput",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+      {
+        internalType: "uint256",
+        name: "cohortId",
+        type: "uint256",
+      },
+    ],
+    name: "submitEncryptedIDP",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "idpId",
+        type: "uint256",
+      },
+    ],
+    name: "unpublishIDP",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "idpId",
+        type: "uint256",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "learningHoursInput",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "projectImpactInput",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "careerGoalInput",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "updateEncryptedIDP",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "revision",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "modelId",
+        type: "uint256",
+      },
+      {
+        components: [
+          {
+            internalType: "uint32",
+            name: "skillWeight",
+            type: "uint32",
+          },
+          {
+            internalType: "uint32",
+            name: "learningHoursWeight",
+            type: "uint32",
+          },
+          {
+            internalType: "uint32",
+            name: "projectImpactWeight",
+            type: "uint32",
+          },
+          {
+            internalType: "uint32",
+            name: "divisor",
+            type: "uint32",
+          },
+        ],
+        internalType: "struct CareerGrowthSim.ModelWeights",
+        name: "weights",
+        type: "tuple",
+      },
+    ],
+    name: "updateGrowthModel",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "idpId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256[]",
+        name: "skillIds",
+        type: "uint256[]",
+      },
+      {
+        internalType: "externalEuint32[]",
+        name: "skillLevelInputs",
+        type: "bytes32[]",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "updateSkillLevels",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "revision",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "skillId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint32",
+        name: "weight",
+        type: "uint32",
+      },
+    ],
+    name: "updateSkillWeight",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x60e08060405234620007f7576040816200622f803803809162000023828562000847565b833981010312620007f75780516001600160a01b0380821692909190838203620007f75760200151928284168403620007f7576004936020925f60606040516200006d816200080f565b828152828782015282604082015201526040516200008b816200080f565b60607350157cffd6bbfa2dece204a89ec419c23ef5755d9182815273cd3ab3bd6bcc0c0bf3e27912a92043e817b1cf69808883015273a02cda4ca3a71d7c46997716f4283aa851c2881291826040820152731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac938491015260018060a01b0319937f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970090858254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970190848254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970290838254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497039182541617905560805260a05260405193848092630e4bd7d960e21b82525afa91821562000804575f92620007bc575b505060c052604051620001de816200080f565b6002815260016020820152600360408201526006606082015260405162000205816200082b565b600881526710985b185b98d95960c21b602082015263ffffffff60608301511615620007885760105491600183018311620006a95760018301601055604051606081016001600160401b0381118282101762000695576040528281526001602082015260016040820152600184015f52601160205260405f20815180519060018060401b03821162000695578254600181811c911680156200077d575b60208210146200067657601f811162000737575b50602090601f8311600114620006c95760019392915f9183620006bd575b50505f19600383901b1c191690831b1781555b019063ffffffff60208201511664ff0000000060408454930151151560201b169164ffffffffff191617179055600183015f52601260205260405f2060015f5260205260405f209063ffffffff8151169082549167ffffffff00000000602083015160201b16906fffffffff00000000000000000000000060606bffffffff0000000000000000604086015160401b1694015160601b169360018060801b0319161717171790557f032ded6f6c98c8da0f2ae012a4691f6d6776b6f5f066d368f99efb75a9cdf5a16040516020815280620003cb600186019460208301906200086b565b0390a27f3e8a3f0157e797fdbb5b295bf70b6967c11aec1d210072132a4f35b6ad90dd6760206001604051938185520192a26040516200040b816200082b565b600781526611d95b995c985b60ca1b60208201526013549060018201809211620006a9576013829055604080519081016001600160401b038111828210176200069557604052818152602081019060018252835f52601460205260405f20905180519060018060401b03821162000695578254600181811c911680156200068a575b60208210146200067657601f81116200062c575b50602090601f8311600114620005a7575f805160206200620f83398151915295938362000512969463ffffffff946001945f926200059b575b50505f19600383901b1c191690831b1781555b0191511663ffffffff198254161790556040519182916040835260408301906200086b565b600160208301520390a26040516159639081620008ac82396080518181816105d6015281816129430152818161346c01526151f6015260a05181818161032501528181611dec015281816139350152615331015260c0518181816104c70152818161149301528181611fab01528181612b8101528181613654015281816139940152613e610152f35b015190505f80620004da565b90601f19831691845f5260205f20925f5b8181106200061357508463ffffffff946001945f805160206200620f8339815191529a9894620005129a98879510620005fa575b505050811b018155620004ed565b01515f1960f88460031b161c191690555f8080620005ec565b92936020600181928786015181550195019301620005b8565b835f5260205f20601f840160051c810191602085106200066b575b601f0160051c01905b8181106200065f5750620004a1565b5f815560010162000650565b909150819062000647565b634e487b7160e01b5f52602260045260245ffd5b90607f16906200048d565b634e487b7160e01b5f52604160045260245ffd5b634e487b7160e01b5f52601160045260245ffd5b015190505f80620002d4565b90835f5260205f20915f5b601f19851681106200071e575091839160019594938694601f1981161062000705575b505050811b018155620002e7565b01515f1960f88460031b161c191690555f8080620006f7565b91926020600181928685015181550194019201620006d4565b835f5260205f20601f840160051c81016020851062000775575b601f830160051c8201811062000769575050620002b6565b5f815560010162000751565b508062000751565b90607f1690620002a2565b60405162461bcd60e51b815260206004820152600c60248201526b2d32b937903234bb34b9b7b960a11b6044820152606490fd5b9091506020813d602011620007fb575b81620007db6020938362000847565b81010312620007f757519081168103620007f7575f80620001cb565b5f80fd5b3d9150620007cc565b6040513d5f823e3d90fd5b608081019081106001600160401b038211176200069557604052565b604081019081106001600160401b038211176200069557604052565b601f909101601f19168101906001600160401b038211908210176200069557604052565b91908251928382525f5b84811062000896575050825f602080949584010152601f8019910116010190565b6020818301810151848301820152016200087556fe610140806040526004361015610013575f80fd5b5f60e0525f3560e01c90816302ce726a146142ec57508063109d5f3d14614022578063113fd8f214613fb457806311861da014613e205780631c376c6314613d825780632555c9aa14613a3857806329070e3b14613a095780632a1eb050146139df57806333ba5735146139c3578063392f5f641461397f57806344fe81ec14613964578063468c7b64146139205780634943ecaf146138d95780634e15ccb71461387757806350d15fbe146138345780635198483a146137fc5780635253569a146137c357806354d868bf146135da5780635893c64c1461310d57806358d67eef146130a35780635d2ea53014613086578063680c34b714612faf5780636a9d663a14612ee75780636e0c767c14612b105780636e13cc1114612a4e57806372ebb42a14612a2057806376a0defb146129a25780637b156fb51461297257806380d5ac8a1461292c57806383a7975a146128a8578063866e1211146127735780638ae38df4146127185780638d319bda146126155780639534d912146125f857806396f9a721146125835780639cbbb846146125005780639e1e3c06146123435780639e33333f146122f65780639fd2fe07146122c2578063a00f9f8b14612107578063a081050a1461208a578063a677b7ca14611f6c578063a84f3aed14611f4f578063ae5cf7fc14611ee8578063b161f89a14611d48578063b82c1b4a14611d29578063b9d7c63c1461182d578063bd7d1c34146116e1578063c6a645fe146116c2578063cf01e43814611430578063d24c55d714611386578063d34c031b14611320578063d5b9d6c214610b51578063d89fe55a146109c4578063da1f12ab146109a6578063dfbb61f2146108e8578063e341884a146108c9578063e67e427a14610808578063f1dad0761461076f578063f2e60bfa1461042c5763fade31e5146102c0575f80fd5b34610401576102ce366144b0565b908060e05152600160205260018060a01b036102f6816001604060e051200154163314614729565b8160e05152600160205260ff6005604060e0512001541660048110156104145760036103239114156148c8565b7f0000000000000000000000000000000000000000000000000000000000000000168160e05152600160205263ffffffff6003604060e05120015416906016602052604060e0512093610375846152ef565b93823b15610401576103d26103bd6040519788968795869563aa51c38160e01b875260048701526024860152604485015233606485015260c0608485015260c484019061497f565b8281036003190160a484015260e05196614674565b039160e051905af18015610407576103eb575b60e05180f35b6103f49061441b565b60e051610401575f6103e5565b60e05180fd5b6040513d60e051823e3d90fd5b634e487b7160e01b60e051526021600452602460e051fd5b346104015760e0366003190112610401576001600160401b036004358181116104015761045d9036906004016146f9565b6024928335818111610401576104779036906004016146f9565b909160a435908111610401576104919036906004016145e8565b604051634f4bdc7b60e11b81526002600482015233818901526001600160a01b039760209693959294939160c4359088816044817f00000000000000000000000000000000000000000000000000000000000000008f165afa9081156104075760e05191610742575b501561070f5760e051549960018b01809b116106f8578a60e051558a6005604051610524816143e5565b8281528b80820133815260408301878152606084019160e05183526001608086019442865260a087019860e0518a5260e0515252604060e051209451855587600186019151166bffffffffffffffffffffffff60a01b82541617905551600284015563ffffffff6003840191511663ffffffff1982541617905551600482015501905160048110156106e15760ff801983541691161790553360e05152600289526105d48b604060e05120614a58565b7f00000000000000000000000000000000000000000000000000000000000000001690813b1561040157604051926317c4426b60e31b84528b6004850152339084015260448301528160648160e0519360e051905af18015610407576106c3575b509284819361066b936106b597967f353d5179db562d7bea39eb9fed8529cea3025670406ab4004b702f4bb9bb6c7a9a8c6155fe565b6106ae6106a661068761067f3685876146a7565b604435614b92565b9361069e6106963686846146a7565b606435614b92565b9336916146a7565b608435614b92565b9186614fe0565b50604051428152a260e05180f35b6106d0909594939561441b565b60e051610401578894929394610635565b84634e487b7160e01b60e05152602160045260e051fd5b82634e487b7160e01b60e05152601160045260e051fd5b60405162461bcd60e51b815260048101899052600c818401526b4e6f7420656d706c6f79656560a01b6044820152606490fd5b6107629150893d8b11610768575b61075a818361442e565b8101906147d5565b8b6104fa565b503d610750565b34610401576060366003190112610401576107886143b4565b6024359060018060a01b031660e051526002602052604060e05120906107ba6107b56044358385546152c4565b614a12565b9160e0515b83518110156107f657806107de6107d860019386614903565b846147c0565b90549060031b1c6107ef8287614a44565b52016107bf565b604051806108048682614615565b0390f35b34610401576020366003190112610401576004358060e05152600160205261084260018060a01b036001604060e051200154163314614729565b8060e05152600160205260ff6005604060e05120015416600481101561041457600161086e91146149ba565b805f5260016020527f54a9d8b736c94dfd777e4fefbab06a0080fa940d0b59ded67057b47310e0fce2604060ff6108bb6005835f20018054906002841983161790558351928391166146ec565b60026020820152a260e05180f35b346104015760e051366003190112610401576020600354604051908152f35b34610401576020806003193601126104015760043560e0515260188152604060e051206040519081838254918281520190819260e051528460e051209060e0515b8682821061098957868661093f8288038361442e565b604051928392818401908285525180915260408401929160e0515b82811061096957505050500390f35b83516001600160a01b03168552869550938101939281019260010161095a565b83546001600160a01b031685529093019260019283019201610929565b346104015760e0513660031901126104015760206040516127118152f35b34610401576080366003190112610401576001600160401b03600435602435828111610401576109f89036906004016146f9565b60449291923584811161040157610a139036906004016146f9565b60649591953591821161040157610a31610a629236906004016145e8565b918560e0515260209760018952610a5a60018060a01b036001604060e051200154163314614729565b8588886155fe565b8160e0515260058452604060e051206001855263ffffffff90816003604060e051200154165f528552610aa960405f20600181015490600360028201549101549186614fe0565b60408051928216808452878401829052908301849052946001600160fb1b038411610401577fc39cb48b46160fcd946fe68f7c5f5afbbfe10881b5ed43c06b705a447cb701fc836060610b469588947fef45a688df356151e3e344a0f16d6a30eb1de5fd1feae7503cbd71afb50d575e9860051b8091848401378101030190a26040805163ffffffff909216825242602083015290918291820190565b0390a2604051908152f35b3461040157608036600319011261040157610b6a61438b565b60643560ff811681036104015760043560e051526001602052610b9f60018060a01b036001604060e051200154163314614729565b60043560e05152600160205260ff6005604060e051200154166004811015610414576003610bce9114156148c8565b60ff8116151580611312575b156112d65760243560e0515260116020526001604060e0512001918254610c0660ff8260201c16614828565b60243560e05152601260205263ffffffff604060e0512091165f5260205260405f2063ffffffff60405191610c3a836143ca565b548181168352818160201c166020840152818160401c16604084015260601c166060820152610c6b82600435614eb4565b60043560e05152600d602052604060e0512091825460e0518455806112ad575b5060018201548015611299575b5f8051602061593783398151915254604051635a53accb60e01b81526004810192909252600a6024830152600160f81b6044830152602090829060649082905f906001600160a01b03165af180156110fc575f90611265575b610d04915063ffffffff835116906154ec565b610d5c610d3c610d1d855463ffffffff865116906154ec565b610d36600187015463ffffffff602088015116906154ec565b906153bb565b610d36610d4b88600435614f39565b63ffffffff604087015116906154ec565b94610d65615891565b96610d7160e0516158e3565b916001975b60ff831660ff8a16116111af5784610d8d916153bb565b92610da263ffffffff6060880151168561546e565b610dac30826157b6565b610db633826157b6565b610dc281600435614c9c565b885490600160401b8210156111975780610dff610de9848d6001610e0c970190558d6147c0565b819391549060031b91821b915f19901b19161790565b905560038901549061556a565b996024602060018060a01b035f80516020615937833981519152541660405192838092630f51ccfb60e41b825287600483015260e051905af18015610407578c9160e05191611160575b50610ec49160209180821561114d575b1561113c575b5f805160206159378339815191525460405163d99882d560e01b815260e051600482019490945260248101929092526001600160f81b031990921660448201529283916001600160a01b031690829081906064820190565b039160e051905af18015610407578b9160e05191611107575b50602060ff604460018060a01b035f805160206159378339815191525416945f6040519687948593639cd07acb60e01b8552166004840152600460248401525af19182156110fc575f926110c7575b5090606460209260018060a01b035f8051602061593783398151915254166040519586948593637702dcff60e01b855260048501526024840152604483015260e051905af19081156104075760e05191611093575b50610ff0916020919b808215611080575b1561106f575b5f80516020615937833981519152546040516363a2db2960e01b815260e051600482019490945260248101929092526001600160f81b031990921660448201529283916001600160a01b031690829081906064820190565b039160e051905af19081156104075760e05191611039575b509760ff808216146110215760ff166001019792610d76565b634e487b7160e01b60e051526011600452602460e051fd5b90506020813d602011611067575b816110546020938361442e565b8101031261106357518b611008565b5f80fd5b3d9150611047565b5061107b60e0516158e3565b610f98565b915061108d60e0516158e3565b91610f92565b90506020813d6020116110bf575b816110ae6020938361442e565b810103126110635751610ff0610f81565b3d91506110a1565b91506020823d6020116110f4575b816110e26020938361442e565b81010312611063579051906064610f2c565b3d91506110d5565b6040513d5f823e3d90fd5b9150506020813d602011611134575b816111236020938361442e565b81010312611063578a90518e610edd565b3d9150611116565b5061114860e0516158e3565b610e6c565b915061115a60e0516158e3565b91610e66565b9150506020813d60201161118f575b8161117c6020938361442e565b8101031261106357518b90610ec4610e56565b3d915061116f565b634e487b7160e01b60e051526041600452602460e051fd5b5061121d8791600363ffffffff8d8d6111c830826157b6565b6111d233826157b6565b6111de81600435614c9c565b60018701556024356002870155541693019263ffffffff19845416178355829063ffffffff60201b82549160201b169063ffffffff60201b1916179055565b600160401b60ff60401b1982541617905560ff604051911681527f682287f209d6ac3c28e36b23ae7b5cd360b5ff3b07cc9b53ee0b182f271867f2602060043592a260e05180f35b506020813d602011611291575b8161127f6020938361442e565b8101031261106357610d049051610cf1565b3d9150611272565b505f60206112a5615891565b915050610c98565b8360e05152602060e0512090815b81830181106112cb575050610c8b565b5f81556001016112bb565b60405162461bcd60e51b8152602060048201526014602482015273125b9d985b1a59081c195c9a5bd90818dbdd5b9d60621b6044820152606490fd5b50600860ff82161115610bda565b346104015760203660031901126104015760043560e05152601160205261136a604060e051206001611351826144fe565b91015460ff6040519384936060855260608501906145a0565b9163ffffffff8116602085015260201c16151560408301520390f35b34610401576040366003190112610401576004356113a2614378565b908060e051526001918291600160205260018060a01b03916113d0836001604060e051200154163314614729565b6113da8183614eb4565b508160e051526018602052604060e051209260e051945b6113fb5760e05180f35b835485101561142b578585611424836114158499896147c0565b90549060031b1c168587614af4565b01946113f1565b6103e5565b34610401576040366003190112610401576001600160401b03600435818111610401576114619036906004016145e8565b9161146a614378565b604051634f4bdc7b60e11b815260e05160048201523360248201526020949193909185836044817f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03165afa928315610407576114e2936114db9160e051916116a5575b506147ed565b36916146a7565b9182511561166d5763ffffffff90818116936114ff851515614aba565b601354946001860180961161102157856013556040519361151f85614400565b8285528785019182528660e0515260148852604060e0512094519485519687116111975787956115598861155384546144c6565b84614910565b89906001601f8a11146115dc57887f755c22cce01164f1eaea17db94ea15a67303a8bb29695c5b81c899c0dda10bc79899600194936115af9360e051926115d1575b50508160011b915f199060031b1c19161790565b81555b0191511663ffffffff19825416179055610b4660405192839283614650565b015190508d8061159b565b90601f198916918360e051528b60e051209260e0515b8d8282106116545750509260019493928b927f755c22cce01164f1eaea17db94ea15a67303a8bb29695c5b81c899c0dda10bc79b9c87951061163c575b505050811b0181556115b2565b01515f1960f88460031b161c191690558c808061162f565b8484015186558d9b5060019095019493840193016115f2565b60405162461bcd60e51b815260048101859052601060248201526f456d70747920736b696c6c206e616d6560801b6044820152606490fd5b6116bc9150883d8a116107685761075a818361442e565b886114d5565b346104015760e051366003190112610401576020601054604051908152f35b346104015760208060031936011261040157600435908160e051526001815261171c60018060a01b036001604060e051200154163314614729565b8160e0515260048152604060e05120549081156117f9576003545f1992908381019081116110215761174d90614765565b90549060031b1c8382018281116110215761176b610de98392614765565b905560e0515260048252604060e05120556003549182156117e15780600493019061179582614765565b909182549160031b1b191690556003558260e05152525f604060e05120557f74bcc8d0de9e84c2992f941a34cd81344a583a4f02b001fd373a6690c0351c2560e05160e051a260e05180f35b634e487b7160e01b60e051526031600452602460e051fd5b6064906040519062461bcd60e51b82526004820152600d60248201526c139bdd081c1d589b1a5cda1959609a1b6044820152fd5b3461040157610100366003190112610401576024356001600160401b0381116104015761185e9036906004016145e8565b906101205260a4356001600160401b038111610401576118829036906004016145e8565b9063ffffffff60e4351660e435036110635760043560e0515260016020526118bc60018060a01b036001604060e051200154163314614729565b60043560e05152600160205260ff6005604060e0512001541660048110156104145760036118eb9114156148c8565b6118f960e435600435614eb4565b60a05260c43560e0515260116020526001604060e05120016101005261192860ff610100515460201c16614828565b60043560e05152600a602052604060e05120805460018101811161102157600101905560043560e05152600a602052604060e051205460c052600b602052604060e0512060c05160e05152602052604060e051206080526001600160401b038311611197576119a58361199d608051546144c6565b608051614910565b8260e051601f8211600114611cab57916119de82611c4b9593611b159560e05191611c9d575b508160011b915f199060031b1c19161790565b608051555b611ab1611a9a611a8a611a296106a6611a0061067f3689896146a7565b95600160805101968755611a18610696368a846146a7565b9760026080510198895536916146a7565b936003608051019485554260046080510155611a47815430906157b6565b611a523087546157b6565b611a5d3086546157b6565b611a683382546157b6565b611a733387546157b6565b611a7e3386546157b6565b60a051549054906153bb565b93600160a05101549054906153bb565b91611aa960e435600435614f39565b9054906153bb565b9060c43560e051526012602052604060e0512063ffffffff6101005154165f5260205260405f209263ffffffff60405194611aeb866143ca565b548181168652818160201c166020870152818160401c16604087015260601c166060850152614f92565b611b1f30826157b6565b611b2933826157b6565b611b3581600435614c9c565b63ffffffff6101005154169060043560e051526006602052604060e0512063ffffffff60e435165f52602052611c2b63ffffffff60ff600360405f200154169260405190611b82826143e5565b81528160036020830192600184526040810160c435815260608201988952611bf660808301958560e43516875260a084019915158a5260043560e05152600c602052604060e0512060c05160e05152602052604060e0512093518455511515600184019060ff801983541691151516179055565b5160028201550195511682198654161785555116839063ffffffff60201b82549160201b169063ffffffff60201b1916179055565b51815468ff0000000000000000191690151560401b60ff60401b16179055565b60405190602082527f3f06a99cb0711e604dd9d3366fc70bab681798e6944bd9ab8ac4882721191cf560c0519280611c8e6004359460208301906101205161495f565b0390a3602060405160c0518152f35b9050610120510135886119cb565b905060805160e05152602060e051209060e0515b601f1986168110611d0e575091611c4b9391611b159386601f19811610611cf2575b5050600185811b01608051556119e3565b6101205101355f19600388901b60f8161c191690558580611ce1565b90916020600181928561012051013581550193019101611cbf565b346104015760e051366003190112610401576020601354604051908152f35b3461040157611d56366144b0565b908060e051526020906001825260018060a01b03611d80816001604060e051200154163314614729565b8160e051526001835260ff6005604060e051200154166004811015610414576003611dac9114156148c8565b8160e051526001835263ffffffff6003604060e0512001541660058452604060e05120815f52845260405f2090611de38185614f39565b91611e138154947f000000000000000000000000000000000000000000000000000000000000000016809561582a565b60166001820196611e2586895461582a565b611e2f868661582a565b8660e0515252604060e0512090611e45866152ef565b9054965492853b1561040157611ea392611e91916040519a8b99637601de6d60e11b8b5260048b015260248a01526044890152336064890152610120608489015261012488019061497f565b8681036003190160a488015290614674565b9460c485015260e4840152610104830152818060e05194039160e051905af1801561040757611ed25760e05180f35b611edb9061441b565b60e05161040157806103e5565b34610401576107b5611f09611efc366144b0565b8160e094929451546152c4565b9060e0515b8251811015611f4157611f218183614903565b906001820180921161102157600191611f3a8286614a44565b5201611f0e565b604051806108048582614615565b346104015760e051366003190112610401576020604051600c8152f35b3461040157604036600319011261040157600435611f88614378565b604051634f4bdc7b60e11b815260e05160048201523360248201526020816044817f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03165afa8015610407577f3b94bfe74706e90b55200791abca1bf6867ab7f3f6723893fd9feedf74bdaa319261201763ffffffff9260209460e0519161206d57506147ed565b84151580612061575b61202990614a7e565b16612035811515614aba565b8360e05152601482526001604060e05120018163ffffffff19825416179055604051908152a260e05180f35b50601354851115612020565b6120849150853d87116107685761075a818361442e565b876114d5565b3461040157612098366144b0565b9060e05152600b602052604060e051209060e051526020526120ee604060e051206120c2816144fe565b90600181015490600281015490600460038201549101549160405195869560a0875260a08701906145a0565b9360208601526040850152606084015260808301520390f35b346104015760403660031901126104015760043561212361439e565b908060e05152600160206001815260018060a01b039061214f826001604060e051200154163314614729565b8360e051526017815281604060e05120951694855f52815260ff60405f2054161561228f576018908460e0949394515260178152604060e05120865f52815260405f2060ff1981541690558460e0515252604060e05120918160e051905b6121e2575b85857f0e313c8cf83864756ba1bb9b1edad08ff74c691aa659e34aa51365a34543cefa60e05160e051a360e05180f35b835480821015612289578290876121f984886147c0565b939054600394851b1c16146122125750508201826121ad565b909493505f1991828201918211611021576122428461223461226094886147c0565b905490891b1c1691866147c0565b90919060018060a01b038084549260031b9316831b921b1916179055565b825480156117e157019261227484846147c0565b81939154921b1b1916905555828080806121b2565b506121b2565b6064906040519062461bcd60e51b82526004820152600c60248201526b2737ba1030903b34b2bbb2b960a11b6044820152fd5b346104015760203660031901126104015760043560e051526008602052602063ffffffff604060e051205416604051908152f35b346104015760403660031901126104015761230f61439e565b60043560e051526017602052604060e051209060018060a01b03165f52602052602060ff60405f2054166040519015158152f35b3461040157612351366144b0565b8160e051526020916001835261237960018060a01b036001604060e051200154163314614729565b8060e051526001835260ff6005604060e0512001541660048110156104145760036123a59114156148c8565b811515806124e7575b156124ae578060e05152600f8352604060e051208260e051528352604060e051208160e051526001845263ffffffff806003604060e05120015416806005840154928316149283159361244a575b5050501561240e576103e59250614ce5565b60405162461bcd60e51b81526004810184905260146024820152734d696c6573746f6e6520757020746f206461746560601b6044820152606490fd5b600291929350600160ff91015416612461816145de565b1491826124a0575b5081612479575b508480806123fc565b90508160e0515260068452604060e05120905f52835260ff600360405f2001541684612470565b851c60ff1615915085612469565b60405162461bcd60e51b8152600481018490526011602482015270556e6b6e6f776e206d696c6573746f6e6560781b6044820152606490fd5b508060e05152600e8352604060e05120548211156123ae565b346104015761250e366144b0565b60e0805192909252600c602090815282516040808220939091529181529151819020805460018201546002830154600390930154845192835260ff9182161515838701528285019390935263ffffffff80841660608401529483901c9094166080820152911c909116151560a082015260c090f35b346104015760403660031901126104015761259c614378565b60043560e05152600660205263ffffffff604060e0512091165f52602052608060405f2080549060018060a01b036001820154169060ff6003600283015492015416916040519384526020840152604083015215156060820152f35b346104015760e051366003190112610401576020604051600a8152f35b34610401576020366003190112610401576004358060e05152600160205261264f60018060a01b036001604060e051200154163314614729565b8060e051526004602052604060e05120546126df57600354600160401b8110156126cb57612687610de9826001859401600355614765565b90556003548160e051526004602052604060e05120557f09b13570f655e0f6e7c26f819cc3f1813c08e5da2b62a4bf08426f8cc8088a1260e05160e051a260e05180f35b634e487b7160e01b5f52604160045260245ffd5b60405162461bcd60e51b8152602060048201526011602482015270105b1c9958591e481c1d589b1a5cda1959607a1b6044820152606490fd5b3461040157612726366144b0565b906127396107b5600393836003546152c4565b9160e0515b83518110156107f6578061275c61275760019386614903565b614765565b905490841b1c61276c8287614a44565b520161273e565b346104015760403660031901126104015760043561278f614378565b8160e051526020906006825263ffffffff604060e05120911690815f52825260405f2060018060a01b039081600182015416330361286e5760038101805460ff811661283157917fb6a766dba862981f17f322966a57f6e683634a33cfcb73c69b30246cc916da669594939160016128249460ff191617905554908660e05152600185526001604060e05120015416906157b6565b604051908152a260e05180f35b60405162461bcd60e51b815260048101879052601560248201527414985d1a5b99c8185b1c9958591e481cda185c9959605a1b6044820152606490fd5b60405162461bcd60e51b81526004810185905260126024820152712737ba103930ba34b7339036b0b730b3b2b960711b6044820152606490fd5b34610401576020366003190112610401576004358060e0515260016020526128e260018060a01b036001604060e051200154163314614729565b8060e05152600160205260ff6005604060e051200154169060048210156104145761291c8260026103e59414908115612921575b506149ba565b614e5d565b600391501484612916565b346104015760e051366003190112610401576040517f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03168152602090f35b346104015760203660031901126104015760043560e0515260046020526020604060e05120541515604051908152f35b346104015760203660031901126104015760043560e05152600160205260c0604060e05120612a1e81549160018060a01b0360018201541690600281015463ffffffff6003830154169060ff600560048501549401541693604051968752602087015260408601526060850152608084015260a08301906146ec565bf35b346104015760203660031901126104015760043560e05152600e6020526020604060e0512054604051908152f35b34610401576020366003190112610401576004358060e051526001602052612a8860018060a01b036001604060e051200154163314614729565b8060e05152600160205260ff6005604060e051200154166004811015610414576003612ab59114156149ba565b805f5260016020527f54a9d8b736c94dfd777e4fefbab06a0080fa940d0b59ded67057b47310e0fce2604060ff612b026005835f20018054906003841983161790558351928391166146ec565b60036020820152a260e05180f35b346104015760a0366003190112610401576004356001600160401b03808211610401573660238301121561040157612b53602492369084816004013591016146a7565b612b5c3661444f565b604051634f4bdc7b60e11b815260e051600482015233858201529092906020816044817f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03165afa801561040757612bc39160e05191612ec857506147ed565b815115612e9157612bdf63ffffffff6060850151161515614864565b60105492600184018411612e7a5760018401601055604051916060830183811082821117612e675760405283835260016020840152600160408401526001850160e051526011602052604060e051209083518051918211612e505760209750612c5282612c4c85546144c6565b85614910565b87906001601f841114612de05782600193612cc89593612c889360e05192612dd55750508160011b915f199060031b1c19161790565b81555b01604063ffffffff88860151169463ffffffff1995868454161783550151151564ff00000000825491151560201b169064ff000000001916179055565b6001840160e0515260128552604060e05120600160e051528552604060e051209163ffffffff82511690835416178255612d2663ffffffff8683015116839063ffffffff60201b82549160201b169063ffffffff60201b1916179055565b60408101519063ffffffff60401b835491606063ffffffff811b91015160601b169260401b169067ffffffffffffffff60401b1916171790557f032ded6f6c98c8da0f2ae012a4691f6d6776b6f5f066d368f99efb75a9cdf5a160405184815280612d986001860194878301906145a0565b0390a2604051600181527f3e8a3f0157e797fdbb5b295bf70b6967c11aec1d210072132a4f35b6ad90dd67836001840192a2600160405191018152f35b015190508b8061159b565b908360e051528860e051209160e0515b601f1985168110612e39575092612cc8949260019492859383601f19811610612e21575b505050811b018155612c8b565b01515f1960f88460031b161c191690558a8080612e14565b91928a600181928685015181550194019201612df0565b87634e487b7160e01b60e05152604160045260e051fd5b86634e487b7160e01b5f5260416004525ffd5b84634e487b7160e01b60e05152601160045260e051fd5b60405162461bcd60e51b8152602060048201526010818601526f456d707479206d6f64656c206e616d6560801b6044820152606490fd5b612ee1915060203d6020116107685761075a818361442e565b866114d5565b34610401576020806003193601126104015760043560e05152600d8152604060e0512060019060018101549060028101549360038201549463ffffffff92604051809684835492838152019260e051528460e051209160e0515b818110612f9c57612f748a8a60ff8e8c818d8d612f60888f038961442e565b60405198899860c08a5260c08a0190614674565b9682890152604088015282821660608801521c16608085015260401c16151560a08301520390f35b8354855293860193928201928201612f41565b346104015760a0366003190112610401576084356004356001600160401b0382116104015761303e612fe760209336906004016145e8565b8360e051526001855261300c60018060a01b036001604060e051200154163314614729565b6130376106966130286130203685876146a7565b602435614b92565b9361069e61067f3686846146a7565b9184614fe0565b6040805163ffffffff831681524260208201529192917fef45a688df356151e3e344a0f16d6a30eb1de5fd1feae7503cbd71afb50d575e9190a263ffffffff60405191168152f35b346104015760e05136600319011261040157602060405160058152f35b346104015760403660031901126104015760806130be614378565b60043560e051526012602052604060e0512063ffffffff8092165f5260205260405f205490604051918181168352818160201c166020840152818160401c16604084015260601c166060820152f35b346110635760603660031901126110635761312661438b565b6004355f52600160205260018060a01b0361314b81600160405f200154163314614729565b6004355f52600160205260ff600560405f2001541660048110156135c65760036131769114156148c8565b61318282600435614eb4565b916004355f52600760205260405f2063ffffffff82165f5260205260405f2060ff60018201541615908115613582575b5015613544576024355f526011602052600160405f20019263ffffffff61322185546131e360ff8260201c16614828565b83549060018501546131f787600435614f39565b916024355f5260126020528560405f2091165f5260205260405f20928560405194611aeb866143ca565b9461322c30876157b6565b61323633876157b6565b61324286600435614c9c565b5416906004355f52600660205260405f2063ffffffff84165f5260205261333560ff600360405f200154166040519361327a856143e5565b878552600160208601526024356040860152606085015263ffffffff8516608085015260a0840190151581526004355f52600760205260405f2063ffffffff86165f52602052600360405f20855181556132e960208701511515600183019060ff801983541691151516179055565b604086015160028201550190611c2b63ffffffff6080816060890151169782199889875416178655015116839063ffffffff60201b82549160201b169063ffffffff60201b1916179055565b6004355f52600860205260405f209081549163ffffffff831663ffffffff86161015613390575b6040514281527f5a2b677efb344e173d12365d4ca94c4155226ae742367b5595d512f18db6477a602060043592a260e05180f35b6003928463ffffffff8716911617905501548415613534575b8015613522575b6020906064855f805160206159378339815191525416965f60405198899485936385362ee760e01b8552600485015260248401528160448401525af19384156110fc575f946134ee575b5061340530856157b6565b6004355f52600160205261342283600160405f20015416856157b6565b61342e84600435614c9c565b63ffffffff600160405161344181614400565b8681528260208201951685526004355f52600960205260405f209051815501925116908254161790557f00000000000000000000000000000000000000000000000000000000000000001690613497828261582a565b813b15611063575f91604483926040519485938492631c0d33cf60e31b8452600435600485015260248401525af180156110fc576134db575b80808080808061335c565b6134e49061441b565b5f60e052806134d0565b9093506020813d60201161351a575b8161350a6020938361442e565b81010312611063575192846133fa565b3d91506134fd565b50602061352d615891565b90506133b0565b935061353e615891565b936133a9565b60405162461bcd60e51b815260206004820152601660248201527529b4b6bab630ba34b7b71030b63932b0b23c90393ab760511b6044820152606490fd5b60ff91506003015460401c16158061359b575b846131b2565b506004355f52600660205260405f2063ffffffff82165f5260205260ff600360405f20015416613595565b634e487b7160e01b5f52602160045260245ffd5b34611063576080366003190112611063576004356135f6614378565b906064356001600160401b038111611063576136169036906004016145e8565b9060018060a01b0390835f526020926001845282600160405f2001541660405190639e8c1b9560e01b825233600483015260248201528481604481877f0000000000000000000000000000000000000000000000000000000000000000165afa9081156110fc575f916137a6575b501561376a579160036136cc61067f61375f947f9ba142da20cc9ae9d363d5d902ff3b6b5620be37452c701b75fb65188a24224297966136c48b8b614eb4565b5036916146a7565b916136d730846157b6565b6136e133846157b6565b604051926136ee846143ca565b8352848301338152604084019042825260608501925f8452895f526006885263ffffffff60405f209b169a8b5f52885260405f2095518655600186019151166bffffffffffffffffffffffff60a01b82541617905551600284015551151591019060ff801983541691151516179055565b6040519384523393a3005b60405162461bcd60e51b81526004810185905260146024820152732737ba1030b9b9b4b3b732b21036b0b730b3b2b960611b6044820152606490fd5b6137bd9150853d87116107685761075a818361442e565b87613684565b34611063576020366003190112611063576004355f5260096020526040805f2063ffffffff600182549201541682519182526020820152f35b34611063576020366003190112611063576001600160a01b0361381d6143b4565b165f526002602052602060405f2054604051908152f35b34611063576020366003190112611063576004355f52601460205260405f2063ffffffff6001613863836144fe565b920154169061080460405192839283614650565b3461106357602036600319011261106357600435805f5260016020526138ad60018060a01b03600160405f200154163314614729565b805f52600160205260ff600560405f200154169060048210156135c65761291c6138d792156149ba565b005b34611063576020366003190112611063576004355f52601660205261080461390d61391460405f206040519283809261497f565b038261442e565b60405191829182614615565b34611063575f366003190112611063576040517f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03168152602090f35b34611063575f36600319011261106357602060405160088152f35b34611063575f366003190112611063576040517f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03168152602090f35b34611063575f3660031901126110635760205f54604051908152f35b34611063576020366003190112611063576004355f52600a602052602060405f2054604051908152f35b3461106357613a17366144b0565b905f52601560205260405f20905f52602052602060405f2054604051908152f35b346110635760c0366003190112611063576004356001600160401b036024803582811161106357613a6d9036906004016145e8565b93906044359460038610156110635760843585811161106357613a949036906004016145e8565b909560a43591855f52600198602099808b52613abf60018060a01b038260405f200154163314614729565b875f52808b5260ff600560405f200154166004811015613d6f576003613ae69114156148c8565b8515613d335742851115613cfd57875f52600e8b5260405f20805490828201809211613cea5755875f52600e8b5260405f205498600f8c5260405f208a5f528c5260405f20948711613cd75750613b4786613b4186546144c6565b86614910565b5f601f8711600114613c32577fc67423104bf96f5ca8826913ae711e8c2254e1b2c04af907b2312853ed4cbed294613be96002613bdc6106968e9f613c1f9f9e9d998f9d998f9d99613bb48c808f9c613bfb9d5f92613c275750508160011b915f199060031b1c19161790565b89555b880190613bc3816145de565b60ff8019835416911617905588600388015536916146a7565b92019180835530906157b6565b613bf43382546157b6565b5486614c9c565b613c1260405193849360408552604085019161495f565b908b8301520390a3614ce5565b604051908152f35b013590508f8061159b565b5f8581528c81209190601f198916908e5b828210613cc05750506002613bdc6106968e9f613c1f9f9e9d998f9d998f9d99613bfb998d7fc67423104bf96f5ca8826913ae711e8c2254e1b2c04af907b2312853ed4cbed29f9a8e80613be99c10613ca6575b841b84018c5550613bb7915050565b60f85f199160031b161c199101351690555f8d818e613c97565b808685968294968f01358155019501930190613c43565b634e487b7160e01b5f9081526041600452fd5b8a634e487b7160e01b5f5260116004525ffd5b60405162461bcd60e51b8152600481018c9052600f818b01526e111d594819185d19481c185cdcd959608a1b6044820152606490fd5b60405162461bcd60e51b8152600481018c90526015818b015274115b5c1d1e481b5a5b195cdd1bdb99481b1858995b605a1b6044820152606490fd5b89634e487b7160e01b5f5260216004525ffd5b3461106357613d90366144b0565b905f52600f60205260405f20905f52602052613de760405f20613db2816144fe565b9060ff80600183015416916002810154906003810154600560048301549201549260405197889760e0895260e08901906145a0565b95613df1816145de565b602088015260408701526060860152608085015263ffffffff811660a085015260201c16151560c08301520390f35b346110635760a036600319011261106357600435613e3d3661444f565b604051634f4bdc7b60e11b81525f60048201523360248201529060209081836044817f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03165afa9283156110fc577f3e8a3f0157e797fdbb5b295bf70b6967c11aec1d210072132a4f35b6ad90dd6793613ec4915f91613f9d57506147ed565b835f5260118252600160405f20018054613ee260ff82861c16614828565b60608301604063ffffffff94613efc868451161515614864565b85613f0881861661489f565b168063ffffffff19809616178655895f5260128852825f20905f528752815f20938682511690855416178455613f5e868883015116859063ffffffff60201b82549160201b169063ffffffff60201b1916179055565b01519063ffffffff60401b83549163ffffffff60601b905160601b169260401b169067ffffffffffffffff60401b1916171790555416604051908152a2005b612ee19150843d86116107685761075a818361442e565b3461106357604036600319011261106357613fcd614378565b6004355f52600560205263ffffffff60405f2091165f5260205260a060405f20805490600181015490600281015460046003830154920154926040519485526020850152604084015260608301526080820152f35b346110635760403660031901126110635760043561403e61439e565b90805f52600160209281845260018060a01b03614064818460405f200154163314614729565b811693841515806142e2575b156142ad57835f526017815260405f20855f52815260ff60405f20541661427657835f5260188152600560405f2054101561423f57835f5282815263ffffffff6003906140c78482600360405f2001541688614af4565b845f815b6141eb575b5050855f526008835260405f2054166141d4575b845f52600d825260405f209060ff600383015460401c16614171575b5050601890845f526017815260405f20865f52815260405f208460ff19825416179055845f525260405f20918254600160401b8110156126cb5761414b9361224292820181556147c0565b7fb68094d9eefb950c3f428f9113f40aa8aee982c63f8171433fbe3e607877a6b05f80a3005b8480939285925f955b614197575b5001546018935061419091906157b6565b9086614100565b9281949591548210156141ca57906141bf83926141b483886147c0565b905490871b1c6157b6565b01939285928261417a565b928594915061417f565b600982526141e68360405f20546157b6565b6140e4565b875f5260169081865260405f20548110156142395782916015875260405f2090875261421a8260405f206147c0565b905490871b1c5f5286526142328760405f20546157b6565b01816140cb565b506140d0565b6064906040519062461bcd60e51b82526004820152601060248201526f546f6f206d616e79207669657765727360801b6044820152fd5b6064906040519062461bcd60e51b82526004820152601060248201526f20b63932b0b23c9030903b34b2bbb2b960811b6044820152fd5b6064906040519062461bcd60e51b82526004820152600e60248201526d24b73b30b634b2103b34b2bbb2b960911b6044820152fd5b5033851415614070565b346110635760403660031901126110635780610804614309614378565b6004355f90815260076020908152604080832063ffffffff948516845282529182902080546001820154600283015460039093015491885260ff9081161515888501528785019290925280851660608801529182901c9093166080860152901c16151560a083015260c0820190565b6024359063ffffffff8216820361106357565b6044359063ffffffff8216820361106357565b602435906001600160a01b038216820361106357565b600435906001600160a01b038216820361106357565b608081019081106001600160401b038211176126cb57604052565b60c081019081106001600160401b038211176126cb57604052565b604081019081106001600160401b038211176126cb57604052565b6001600160401b0381116126cb57604052565b90601f801991011681019081106001600160401b038211176126cb57604052565b60809060231901126110635760405190614468826143ca565b63ffffffff8260243582811681036110635781526044358281168103611063576020820152606435828116810361106357604082015260843591821682036110635760600152565b6040906003190112611063576004359060243590565b90600182811c921680156144f4575b60208310146144e057565b634e487b7160e01b5f52602260045260245ffd5b91607f16916144d5565b9060405191825f8254614510816144c6565b908184526020946001916001811690815f1461457e5750600114614540575b50505061453e9250038361442e565b565b5f90815285812095935091905b81831061456657505061453e93508201015f808061452f565b8554888401850152948501948794509183019161454d565b9250505061453e94925060ff191682840152151560051b8201015f808061452f565b91908251928382525f5b8481106145ca575050825f602080949584010152601f8019910116010190565b6020818301810151848301820152016145aa565b600311156135c657565b9181601f84011215611063578235916001600160401b038311611063576020838186019501011161106357565b60209060206040818301928281528551809452019301915f5b82811061463c575050505090565b83518552938101939281019260010161462e565b9063ffffffff61466d6020929594956040855260408501906145a0565b9416910152565b9081518082526020808093019301915f5b828110614693575050505090565b835185529381019392810192600101614685565b9291926001600160401b0382116126cb57604051916146d0601f8201601f19166020018461442e565b829481845281830111611063578281602093845f960137010152565b9060048210156135c65752565b9181601f84011215611063578235916001600160401b038311611063576020808501948460051b01011161106357565b1561473057565b60405162461bcd60e51b815260206004820152600d60248201526c2737ba1024a2281037bbb732b960991b6044820152606490fd5b60035481101561479a5760035f527fc2575a0e9e593c00f959f8c92f12db2869c3395a3b0502d05e2516446f71f85b01905f90565b634e487b7160e01b5f52603260045260245ffd5b80541561479a575f5260205f20905f90565b805482101561479a575f5260205f2001905f90565b90816020910312611063575180151581036110635790565b156147f457565b60405162461bcd60e51b815260206004820152600c60248201526b2737ba1024291030b236b4b760a11b6044820152606490fd5b1561482f57565b60405162461bcd60e51b815260206004820152600d60248201526c155b9adb9bdddb881b5bd9195b609a1b6044820152606490fd5b1561486b57565b60405162461bcd60e51b815260206004820152600c60248201526b2d32b937903234bb34b9b7b960a11b6044820152606490fd5b90600163ffffffff809316019182116148b457565b634e487b7160e01b5f52601160045260245ffd5b156148cf57565b60405162461bcd60e51b815260206004820152600c60248201526b12511408185c98da1a5d995960a21b6044820152606490fd5b919082018092116148b457565b601f821161491d57505050565b5f5260205f20906020601f840160051c83019310614955575b601f0160051c01905b81811061494a575050565b5f815560010161493f565b9091508190614936565b908060209392818452848401375f828201840152601f01601f1916010190565b9081548082526020809201925f5260205f20915f905b8282106149a3575050505090565b835485529384019360019384019390910190614995565b156149c157565b60405162461bcd60e51b815260206004820152601260248201527124b73b30b634b2103a3930b739b4ba34b7b760711b6044820152606490fd5b6001600160401b0381116126cb5760051b60200190565b90614a1c826149fb565b614a29604051918261442e565b8281528092614a3a601f19916149fb565b0190602036910137565b805182101561479a5760209160051b010190565b805490600160401b8210156126cb5781610de9916001614a7a940181556147c0565b9055565b15614a8557565b60405162461bcd60e51b815260206004820152600d60248201526c155b9adb9bdddb881cdada5b1b609a1b6044820152606490fd5b15614ac157565b60405162461bcd60e51b815260206004820152600b60248201526a16995c9bc81dd95a59da1d60aa1b6044820152606490fd5b9190825f526020906005825260409163ffffffff835f20921691825f528152614b4a846003855f20614b278382546157b6565b614b358360018301546157b6565b614b438360028301546157b6565b01546157b6565b845f5260078152825f20825f52815260ff6001845f20015416614b6f575b5050505050565b614b88945f5260078152825f20915f52525f20546157b6565b5f80808080614b68565b6020614be29260018060a01b0392835f805160206159378339815191525416905f60405180978195829463196d0b9b60e01b845260048401523360248401526080604484015260848301906145a0565b6004606483015203925af19182156110fc575f92614c68575b507f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497005416803b1561106357604051630f8e573b60e21b815260048101839052336024820152905f908290604490829084905af180156110fc57614c5c575090565b614c659061441b565b90565b9091506020813d602011614c94575b81614c846020938361442e565b810103126110635751905f614bfb565b3d9150614c77565b9190915f52601860205260405f205f5b8154811015614cdf5780614cd9614cc5600193856147c0565b848060a01b0391549060031b1c16866157b6565b01614cac565b50509050565b805f527f82674000f2eef055e31d468ef4e92f3ee56555eaeb4075e814fa099ac206ad8060016020908082526040614df863ffffffff6003835f200154169260058552825f20845f528552600260ff600589865f2094815f52600f8a52875f208d5f528a52614daa614d84614d5d8b8b5f2095614f39565b978385019884888b5416614d70816145de565b80614e3757505050545b878501549061556a565b91614d8f30846157b6565b5f8e8152818d528a902001546001600160a01b0316826157b6565b614db4818d614c9c565b600482015501805463ffffffff191687178155925416614dd3816145de565b149081614dff579064ff00000000825491151560201b169064ff000000001916179055565b51908152a3565b9050865f5260068552825f20845f52855260ff6003845f2001541664ff00000000825491151560201b169064ff000000001916179055565b9081614e45829495936145de565b14614e52575b5050614d7a565b01549050835f614e4b565b805f5260016020527f54a9d8b736c94dfd777e4fefbab06a0080fa940d0b59ded67057b47310e0fce2604060ff614eaa6005835f20018054906001841983161790558351928391166146ec565b60016020820152a2565b63ffffffff809216918215159081614f1d575b5015614ee5575f52600560205260405f20905f5260205260405f2090565b60405162461bcd60e51b815260206004820152601060248201526f2ab735b737bbb7103932bb34b9b4b7b760811b6044820152606490fd5b9050815f526001602052600360405f200154168211155f614ec7565b90815f5260206006815260409263ffffffff845f20931692835f52825260ff6003855f200154165f14614f79575f5260068152825f20915f52525f205490565b5f90815260058252838120928152919052206002015490565b90614fd6614c659493610d36614fc8606094610d36614fba63ffffffff98898b5116906154ec565b918860208b015116906154ec565b9185604088015116906154ec565b920151169061546e565b9291939093835f52600160205260405f2090600382019283549363ffffffff61500a81871661489f565b16809563ffffffff19161790558391865f52600560205260405f20855f5260205260405f2097875f52601660205260405f2094615046866147ae565b90549060031b1c5f52601460205263ffffffff600160405f2001541696895f52601560205260405f20615078886147ae565b90549060031b1c5f526020526150928860405f20546154ec565b986001995b88548b10156151175763ffffffff6150fd8d928b6150e38f6150b981846147c0565b90549060031b1c5f52601460205285600160405f20015416965f52601560205260405f20926147c0565b90549060031b1c5f52602052610d368460405f20546154ec565b9a160163ffffffff81116148b4576001909a019998615097565b859a506151dc919498509b6151d561513b6151ea9794989d9b6151e3969a9f61546e565b9182815561516560018201938c8555600283019687556003830198895542600484015530906157b6565b6151703084546157b6565b61517b3086546157b6565b6151863088546157b6565b6151ce600182549b016151a460018060a01b039c8d835416906157b6565b6151b385548d835416906157b6565b6151c287548d835416906157b6565b8b8954915416906157b6565b548b614c9c565b5489614c9c565b5487614c9c565b5485614c9c565b60018111615270575b507f000000000000000000000000000000000000000000000000000000000000000016615220818361582a565b61522a818561582a565b803b15611063575f92836064926040519687958694632ad6835560e01b86526004860152602485015260448401525af180156110fc576152675750565b61453e9061441b565b835f52600560205260405f205f19820163ffffffff81116148b45763ffffffff165f5260205260405f206001810154841490816152b6575b50156151f357955050505050565b60029150015485145f6152a8565b9190828110156152e85782039182116148b457808210156152e3575090565b905090565b5050505f90565b90815f52602060166020526040805f2080549261530b846149fb565b93615319604051958661442e565b808552615328601f19916149fb565b013660208601377f00000000000000000000000000000000000000000000000000000000000000006001600160a01b031695845f5b84548110156153b157600190835f5260158552865f2061537d82886147c0565b90549060031b1c5f528552865f2054615396828a614a44565b526153ab8a6153a5838b614a44565b5161582a565b0161535d565b5096505050505050565b90811561545e575b801561544c575b602090606460018060a01b035f805160206159378339815191525416935f604051958694859363022f65e760e31b8552600485015260248401528160448401525af19081156110fc575f9161541d575090565b90506020813d602011615444575b816154386020938361442e565b81010312611063575190565b3d915061542b565b506020615457615891565b90506153ca565b9050615468615891565b906153c3565b63ffffffff9160209180156154da575b5f8051602061593783398151915254604051635a53accb60e01b81526004810192909252919093166024840152600160f81b6044840152829060649082905f906001600160a01b03165af19081156110fc575f9161541d575090565b5060646154e5615891565b905061547e565b63ffffffff916020918015615558575b5f8051602061593783398151915254604051630afe14ad60e31b81526004810192909252919093166024840152600160f81b6044840152829060649082905f906001600160a01b03165af19081156110fc575f9161541d575090565b506064615563615891565b90506154fc565b9081156155de575b80156155cc575b602090606460018060a01b035f805160206159378339815191525416935f6040519586948593631391547f60e01b8552600485015260248401528160448401525af19081156110fc575f9161541d575090565b5060206155d7615891565b9050615579565b90506155e8615891565b90615572565b919081101561479a5760051b0190565b95909492939193841515806157ad575b1561577157865f526001966020926001845260409560018060a01b036001885f20015416975f5b81811061564a57505050505050505050505050565b808a8a898f948f61565e8e92898e936155ee565b359384151580615765575b61567290614a7e565b8b5f5260158094528d815f2090865f52525f2054156156e1575b61569d866156c0936156af936155ee565b356156a9368c8c6146a7565b90614b92565b936156ba30866157b6565b846157b6565b6156ca838a614c9c565b885f528a528b5f20905f5289528a5f205501615635565b50509150919250865f526016808a52600c8c5f2054101561572f57918c918f94936156af61569d8f8f8f8f908f8b946156c098615724938c935f52525f20614a58565b93509350505061568c565b8b5162461bcd60e51b8152600481018b9052600f60248201526e546f6f206d616e7920736b696c6c7360881b6044820152606490fd5b50601354851115615669565b60405162461bcd60e51b8152602060048201526014602482015273496e76616c696420736b696c6c206c6576656c7360601b6044820152606490fd5b5082851461560e565b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700546001600160a01b031691823b1561106357604051635ca4b5b160e11b815260048101929092526001600160a01b03166024820152905f908290818381604481015b03925af180156110fc576152675750565b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700546001600160a01b031691823b1561106357604051630f8e573b60e21b815260048101929092526001600160a01b03166024820152905f90829081838160448101615819565b5f8051602061593783398151915254604051639cd07acb60e01b81525f600480830182905260248301529091602091839160449183916001600160a01b03165af19081156110fc575f9161541d575090565b5f8051602061593783398151915254604051639cd07acb60e01b815260048101929092525f6024830181905260209183916044918391906001600160a01b03165af19081156110fc575f9161541d57509056fe9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649701a164736f6c6343000818000a755c22cce01164f1eaea17db94ea15a67303a8bb29695c5b81c899c0dda10bc7";
+
+type CareerGrowthSimConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: CareerGrowthSimConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class CareerGrowthSim__factory extends ContractFactory {
+  constructor(...args: CareerGrowthSimConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    analyticsContract: AddressLike,
+    ladderContract: AddressLike,
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(
+      analyticsContract,
+      ladderContract,
+      overrides || {}
+    );
+  }
+  override deploy(
+    analyticsContract: AddressLike,
+    ladderContract: AddressLike,
+    overrides?: NonPayableOverrides & { from?: string }
+  ) {
+    return super.deploy(
+      analyticsContract,
+      ladderContract,
+      overrides || {}
+    ) as Promise<
+      CareerGrowthSim & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): CareerGrowthSim__factory {
+    return super.connect(runner) as CareerGrowthSim__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): CareerGrowthSimInterface {
+    return new Interface(_abi) as CareerGrowthSimInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): CareerGrowthSim {
+    return new Contract(address, _abi, runner) as unknown as CareerGrowthSim;
+  }
+}
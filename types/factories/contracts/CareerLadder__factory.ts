@@ -0,0 +1,633 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type {
+  Signer,
+  AddressLike,
+  ContractDeployTransaction,
+  ContractRunner,
+} from "ethers";
+import type { NonPayableOverrides } from "../../common";
+import type {
+  CareerLadder,
+  CareerLadderInterface,
+} from "../../contracts/CareerLadder";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "contract CareerRoles",
+        name: "rolesContract",
+        type: "address",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "jobRoleId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "name",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "rank",
+        type: "uint32",
+      },
+    ],
+    name: "JobRoleRegistered",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "jobRoleId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "version",
+        type: "uint32",
+      },
+    ],
+    name: "JobRoleUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "idpId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "jobRoleId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "revision",
+        type: "uint32",
+      },
+    ],
+    name: "ReadinessChecked",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "idpId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "jobRoleId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "revision",
+        type: "uint32",
+      },
+    ],
+    name: "SkillGapReported",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "MAX_ROLE_SKILLS",
+    outputs: [
+      {
+        internalType: "uint8",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "idpId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "jobRoleId",
+        type: "uint256",
+      },
+    ],
+    name: "getSkillGapReport",
+    outputs: [
+      {
+        internalType: "uint256[]",
+        name: "skillIds",
+        type: "uint256[]",
+      },
+      {
+        internalType: "euint32[]",
+        name: "encryptedShortfalls",
+        type: "bytes32[]",
+      },
+      {
+        internalType: "uint32",
+        name: "revision",
+        type: "uint32",
+      },
+      {
+        internalType: "uint32",
+        name: "jobRoleVersion",
+        type: "uint32",
+      },
+      {
+        internalType: "bool",
+        name: "isCalculated",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "jobRoleId",
+        type: "uint256",
+      },
+    ],
+    name: "getSkillRequirements",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "uint256",
+            name: "skillId",
+            type: "uint256",
+          },
+          {
+            internalType: "uint32",
+            name: "minLevel",
+            type: "uint32",
+          },
+        ],
+        internalType: "struct CareerLadder.SkillRequirement[]",
+        name: "",
+        type: "tuple[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "jobRoleCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "jobRoles",
+    outputs: [
+      {
+        internalType: "string",
+        name: "name",
+        type: "string",
+      },
+      {
+        internalType: "uint32",
+        name: "rank",
+        type: "uint32",
+      },
+      {
+        internalType: "uint32",
+        name: "version",
+        type: "uint32",
+      },
+      {
+        internalType: "bool",
+        name: "exists",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "metricMinimums",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "skillLevel",
+        type: "uint32",
+      },
+      {
+        internalType: "uint32",
+        name: "learningHours",
+        type: "uint32",
+      },
+      {
+        internalType: "uint32",
+        name: "projectImpact",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "protocolId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "readinessResults",
+    outputs: [
+      {
+        internalType: "ebool",
+        name: "encryptedReady",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "encryptedUnmetCount",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint32",
+        name: "revision",
+        type: "uint32",
+      },
+      {
+        internalType: "uint32",
+        name: "jobRoleVersion",
+        type: "uint32",
+      },
+      {
+        internalType: "bool",
+        name: "isCalculated",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "idpId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "jobRoleId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint32",
+        name: "revision",
+        type: "uint32",
+      },
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        internalType: "uint256[]",
+        name: "skillIds",
+        type: "uint256[]",
+      },
+      {
+        internalType: "euint32[]",
+        name: "skillLevels",
+        type: "bytes32[]",
+      },
+      {
+        internalType: "euint32",
+        name: "skillLevel",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "learningHours",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "projectImpact",
+        type: "bytes32",
+      },
+    ],
+    name: "recordReadiness",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "idpId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "jobRoleId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint32",
+        name: "revision",
+        type: "uint32",
+      },
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        internalType: "uint256[]",
+        name: "skillIds",
+        type: "uint256[]",
+      },
+      {
+        internalType: "euint32[]",
+        name: "skillLevels",
+        type: "bytes32[]",
+      },
+    ],
+    name: "recordSkillGap",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "name",
+        type: "string",
+      },
+      {
+        internalType: "uint32",
+        name: "rank",
+        type: "uint32",
+      },
+      {
+        components: [
+          {
+            internalType: "uint32",
+            name: "skillLevel",
+            type: "uint32",
+          },
+          {
+            internalType: "uint32",
+            name: "learningHours",
+            type: "uint32",
+          },
+          {
+            internalType: "uint32",
+            name: "projectImpact",
+            type: "uint32",
+          },
+        ],
+        internalType: "struct CareerLadder.MetricMinimums",
+        name: "minimums",
+        type: "tuple",
+      },
+      {
+        internalType: "uint256[]",
+        name: "skillIds",
+        type: "uint256[]",
+      },
+      {
+        internalType: "uint32[]",
+        name: "minLevels",
+        type: "uint32[]",
+      },
+    ],
+    name: "registerJobRole",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "jobRoleId",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "roles",
+    outputs: [
+      {
+        internalType: "contract CareerRoles",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "simulatorAddress",
+        type: "address",
+      },
+    ],
+    name: "setSimulator",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "simulator",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "jobRoleId",
+        type: "uint256",
+      },
+      {
+        components: [
+          {
+            internalType: "uint32",
+            name: "skillLevel",
+            type: "uint32",
+          },
+          {
+            internalType: "uint32",
+            name: "learningHours",
+            type: "uint32",
+          },
+          {
+            internalType: "uint32",
+            name: "projectImpact",
+            type: "uint32",
+          },
+        ],
+        internalType: "struct CareerLadder.MetricMinimums",
+        name: "minimums",
+        type: "tuple",
+      },
+      {
+        internalType: "uint256[]",
+        name: "skillIds",
+        type: "uint256[]",
+      },
+      {
+        internalType: "uint32[]",
+        name: "minLevels",
+        type: "uint32[]",
+      },
+    ],
+    name: "updateJobRole",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x60a034620001c557601f6200224338819003918201601f19168301916001600160401b03831184841017620001c957808492602094604052833981010312620001c557516001600160a01b0381168103620001c5575f606062000061620001dd565b82815282602082015282604082015201526200007c620001dd565b60607350157cffd6bbfa2dece204a89ec419c23ef5755d9182815273cd3ab3bd6bcc0c0bf3e27912a92043e817b1cf6980602083015273a02cda4ca3a71d7c46997716f4283aa851c2881291826040820152731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac938491015260018060a01b0319937f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970090858254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970190848254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970290838254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649703918254161790556080526040516120459081620001fe8239608051818181610bf001528181611426015281816114dc015261197f0152f35b5f80fd5b634e487b7160e01b5f52604160045260245ffd5b60405190608082016001600160401b03811183821017620001c95760405256fe6080806040526004361015610012575f80fd5b5f3560e01c908163011515e01461193657508063278f5ee1146117ff5780633174b6b814611455578063392f5f64146114115780633a4c68ba146113f457806372789f861461131f57806373f67e4e146112b9578063a087564e14610b16578063a36a6b8f14610afb578063aa51c381146106ba578063b81f7ac11461056d578063bf7b5d7a14610546578063da1f12ab1461052a578063ec03bcda1461010b5763f2c53228146100c1575f80fd5b34610107576020366003190112610107576004355f526003602052606060405f205463ffffffff604051918181168352818160201c16602084015260401c166040820152f35b5f80fd5b346101075761012036600319011261010757610125611b38565b61012d611a68565b906084356001600160401b0381116101075761014d903690600401611af2565b909160a4356001600160401b0381116101075761016e903690600401611af2565b9061018360018060a01b035f54163314611bf3565b6024355f526002602052600160405f2001936101a560ff865460401c16611b9e565b6024355f5260036020526101f960405f2063ffffffff6101e86101d76101c9611f29565b838554169060c43590611ce1565b82845460201c169060e43590611ce1565b915460401c16906101043590611ce1565b956024355f52600460205260405f20945f975b865489101561033c5761022d868686866102268e8d611c2f565b5054611c92565b901561025d576001916102549163ffffffff8461024a8e8d611c2f565b5001541691611ce1565b985b019761020c565b509763ffffffff6001610270838a611c2f565b50015416610281575b600190610256565b978015610328575b5f805160206120198339815191525460405163022f65e760e31b8152600481019290925260016024830152600160f81b6044830152602090829060649082905f906001600160a01b03165af1801561031d575f906102ea575b989050610279565b506020813d602011610315575b8161030460209383611ad1565b8101031261010757600190516102e2565b3d91506102f7565b6040513d5f823e3d90fd5b505f6020610334611f29565b915050610289565b5f91888b838415610518575b5f805160206120198339815191525460405163f77f3f1d60e01b8152600481019290925260248201879052600160f81b6044830152909560209187916064918391906001600160a01b03165af194851561031d575f956104e0575b50906103d263ffffffff926103b83088611f9e565b6103c28188611f9e565b6103cc3087611f9e565b85611f9e565b5460201c16916040519360a085018581106001600160401b038211176104cc576104989461047d9263ffffffff926040528752602087019384528160028160408a01971698898852606081019384526080810196600188526004355f52600560205260405f206024355f5260205260405f20915182555160018201550195511682198654161785555116839063ffffffff60201b82549160201b169063ffffffff60201b1916179055565b51815460ff60401b191690151560401b60ff60401b16179055565b604051908152602435907fa65744a012a86fb35e07d09a8f92c03eb5bef98742297d74292fcdefc612fb50602060043592a3005b634e487b7160e01b5f52604160045260245ffd5b919094506020823d602011610510575b816104fd60209383611ad1565b81010312610107579051936103d26103a3565b3d91506104f0565b506020610523611f29565b9050610348565b34610107575f3660031901126101075760206040516127118152f35b34610107575f366003190112610107575f546040516001600160a01b039091168152602090f35b346101075761057b36611b22565b905f526020906006825260405f20905f52815260405f206001908181019060028101549363ffffffff916040519485809684845491828152019081945f52855f20905f5b878282106106a45750505050906105d7910387611ad1565b826040518082885491828152019081985f52835f20905f5b81811061068f5750505081610605910382611ad1565b6040519760a089019060a08a525180915260c0890194905f5b81811061067a575050508784038289015251928381520194915f5b8181106106675787808860ff8c8a818b82821660408801521c16606085015260401c16151560808301520390f35b8351875295840195928401928201610639565b8251875295840195879490920191850161061e565b825484528895909301929186019186016105ef565b835485528b9550909301929185019185016105bf565b346101075760c0366003190112610107576106d3611b38565b6106db611a68565b6001600160401b039190608435838111610107576106fd903690600401611af2565b9360a43590811161010757610716903690600401611af2565b61072d60018060a09594951b035f54163314611bf3565b6024355f526002602052600160405f20019261074f60ff855460401c16611b9e565b6004355f52600660205260405f206024355f5260205260405f209687545f895580610ae1575b5060018801545f60018a015580610ab9575b506024355f52600460205260405f20945f5b8654811015610a4257866107c98686868a6102268763ffffffff60016107bf838b611c2f565b5001541697611c2f565b90156109bc57809181156109a8575b5f8051602061201983398151915254604051630d8c635960e21b815260048101949094526024840191909152600160f81b6044840152602090839060649082905f906001600160a01b03165af191821561031d575f92610974575b50808215610964575b15610952575b602090606460018060a01b035f805160206120198339815191525416935f60405195869485936303056db360e31b8552600485015260248401528160448401525af190811561031d575f91610920575b50905b61089f3083611f9e565b6108a98983611f9e565b6108b38189611c2f565b50548b54600160401b8110156104cc576108d6818e60016108ec94018155611c5c565b819391549060031b91821b915f19901b19161790565b905560018b015491600160401b8310156104cc576109186108d68460018f818098018282015501611c5c565b905501610799565b90506020813d60201161094a575b8161093b60209383611ad1565b8101031261010757518b610892565b3d915061092e565b50602061095d611f29565b9050610842565b915061096e611f29565b9161083c565b9091506020813d6020116109a0575b8161099060209383611ad1565b810103126101075751908c610833565b3d9150610983565b915060206109b4611f29565b9290506107d8565b5060205f91604460018060a01b035f805160206120198339815191525416916040519485938492639cd07acb60e01b84526004840152600460248401525af190811561031d575f91610a10575b5090610895565b90506020813d602011610a3a575b81610a2b60209383611ad1565b8101031261010757518b610a09565b3d9150610a1e565b5060028901805463ffffffff19811663ffffffff8b169081178355925468ffffffffffffffffff19909116831763ffffffff60201b90911617600160401b17905560405190815260243590600435907f7ea7a24106caf4e93ea07dff125076bd2fd44c8e970d252ffaa2da2cf7c5a4e490602090a3005b600189015f5260205f2090815b8183018110610ad6575050610787565b5f8155600101610ac6565b610af590895f5260205f2090810190611bdd565b88610775565b34610107575f366003190112610107576020604051600c8152f35b346101075760e0366003190112610107576004356001600160401b0381116101075736602382011215610107576001600160401b0381600401351161010757366024826004013583010111610107576024359063ffffffff821682036101075760603660431901126101075760a4356001600160401b03811161010757610ba1903690600401611af2565b919060c4356001600160401b03811161010757610bc2903690600401611af2565b604051634f4bdc7b60e11b81525f600482015233602482015290949192906020816044816001600160a01b037f0000000000000000000000000000000000000000000000000000000000000000165afa801561031d57610c29915f9161128a575b50611b63565b83600401351561125357600154946001860186116110a257600186016001556040518060808101106001600160401b036080830111176104cc5760808101604052610c856020601f19601f896004013501160160808301611ad1565b6004860135608082018190526024870160a08301375f60a087600401358301015260808101815263ffffffff881660208201526001604082015260016060820152600187015f52600260205260405f2081518051906001600160401b0382116104cc57610cf28354611a7e565b601f8111611218575b50602090601f83116001146111aa579282606093600193610d9597965f9261119f575b50505f19600383901b1c191690831b1781555b019163ffffffff60208201511663ffffffff19845416178355610d7963ffffffff604083015116849063ffffffff60201b82549160201b169063ffffffff60201b1916179055565b0151815460ff60401b191690151560401b60ff60401b16179055565b80830361115a57600c8311611123575f546001600160a01b03169283156110ea57602060049460405195868092635c160da560e11b82525afa93841561031d575f946110b6575b50600187015f52600360205260405f2060443563ffffffff811680910361010757815463ffffffff191617815560643563ffffffff8116810361010757815467ffffffff00000000191660209190911b63ffffffff60201b1617815560843563ffffffff811681036101075763ffffffff60401b82549160401b169063ffffffff60401b1916179055600460205260405f209283545f855580611065575b505f5b828110610f0457602089897fa96dd72f4c52ef37fa0cc9f4534cd4fcd56be29e7fd3ca9a5f11b6ea159902278d63ffffffff60405191604083528460040135604084015284600401356024860160608501375f606086600401358501015216858201526060816001860194601f8019916004013501168101030190a2600160405191018152f35b610f0f818484611c82565b35151580611050575b1561101b575f5b818110610fbf5750610f32818484611c82565b359063ffffffff610f4c610f4783888c611c82565b611c71565b60405193610f5985611ab6565b84521660208301528554600160401b8110156104cc57806001610f7f9201885587611c2f565b929092610fac5763ffffffff60206001809584518155019201511663ffffffff1982541617905501610e7d565b634e487b7160e01b5f525f60045260245ffd5b610fca818585611c82565b35610fd6838686611c82565b3514610fe457600101610f1f565b60405162461bcd60e51b815260206004820152600f60248201526e111d5c1b1a58d85d19481cdada5b1b608a1b6044820152606490fd5b60405162461bcd60e51b815260206004820152600d60248201526c155b9adb9bdddb881cdada5b1b609a1b6044820152606490fd5b508561105d828585611c82565b351115610f18565b6001600160ff1b03811681036110a257845f5260205f209060011b8101905b8181106110915750610e7a565b5f8082556001820155600201611084565b634e487b7160e01b5f52601160045260245ffd5b9093506020813d6020116110e2575b816110d260209383611ad1565b8101031261010757519288610ddc565b3d91506110c5565b60405162461bcd60e51b815260206004820152601160248201527014da5b5d5b185d1bdc881b9bdd081cd95d607a1b6044820152606490fd5b60405162461bcd60e51b815260206004820152600f60248201526e546f6f206d616e7920736b696c6c7360881b6044820152606490fd5b60405162461bcd60e51b815260206004820152601a60248201527f496e76616c696420736b696c6c20726571756972656d656e74730000000000006044820152606490fd5b015190508e80610d1e565b90835f5260205f20915f5b601f1985168110611200575083600193610d959796938593606097601f198116106111e8575b505050811b018155610d31565b01515f1960f88460031b161c191690558e80806111db565b919260206001819286850151815501940192016111b5565b61124390845f5260205f20601f850160051c81019160208610611249575b601f0160051c0190611bdd565b8b610cfb565b9091508190611236565b60405162461bcd60e51b815260206004820152600f60248201526e456d70747920726f6c65206e616d6560881b6044820152606490fd5b6112ac915060203d6020116112b2575b6112a48183611ad1565b810190611b4b565b88610c23565b503d61129a565b34610107576112c736611b22565b905f52600560205260405f20905f5260205260a060405f2060ff815491600260018201549101549063ffffffff90604051948552602085015280821660408501528160201c16606084015260401c1615156080820152f35b3461010757602080600319360112610107576004355f526004815260405f209081546001600160401b0381116104cc5760405190611362838260051b0183611ad1565b80825282820180945f52835f205f915b8383106113c2576040805187815286518189018190528992820190895f5b82811061139d5784840385f35b85518051855282015163ffffffff168483015294810194604090930192600101611390565b6002866001926040516113d481611ab6565b8554815263ffffffff858701541683820152815201920192019190611372565b34610107575f366003190112610107576020600154604051908152f35b34610107575f366003190112610107576040517f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03168152602090f35b346101075760c0366003190112610107576060366023190112610107576001600160401b0360843581811161010757611492903690600401611af2565b909160a435908111610107576114ac903690600401611af2565b604051634f4bdc7b60e11b81525f600482015233602482015291936001600160a01b0393929091906020816044817f000000000000000000000000000000000000000000000000000000000000000089165afa801561031d57611515915f916117e05750611b63565b6004355f526002602052600160405f200193600163ffffffff865461153f60ff8260401c16611b9e565b60201c160163ffffffff81116110a257855467ffffffff00000000191660209190911b63ffffffff60201b1617855581840361115a57600c8411611123575f54169283156110ea57602060049460405195868092635c160da560e11b82525afa93841561031d575f946117ac575b506004355f52600360205260405f2060243563ffffffff811680910361010757815463ffffffff191617815560443563ffffffff8116810361010757815467ffffffff00000000191660209190911b63ffffffff60201b1617815563ffffffff606435166064350361010757805463ffffffff60401b60643560401b169063ffffffff60401b1916179055600460205260405f209283545f85558061176f575b505f5b8281106116925763ffffffff875460201c166040519081527fc7e3b6fd08fa9ad7ac3ba3e91ff6426705e2f9a16ecb38a617302117057e4fb4602060043592a2005b61169d818484611c82565b3515158061175a575b1561101b575f5b81811061173557506116c0818484611c82565b359063ffffffff6116d5610f4783888d611c82565b604051936116e285611ab6565b84521660208301528554600160401b8110156104cc578060016117089201885587611c2f565b929092610fac5763ffffffff60206001809584518155019201511663ffffffff1982541617905501611650565b611740818585611c82565b3561174c838686611c82565b3514610fe4576001016116ad565b5085611767828585611c82565b3511156116a6565b6001600160ff1b03811681036110a257845f5260205f20805b8260011b8201811061179b57505061164d565b5f8082556001820155600201611788565b9093506020813d6020116117d8575b816117c860209383611ad1565b81010312610107575192866115ad565b3d91506117bb565b6117f9915060203d6020116112b2576112a48183611ad1565b87610c23565b3461010757602080600319360112610107576004355f526002815260405f2060405190815f84835461183081611a7e565b8085529060019081811690811561191757506001146118d4575b5050506001929161185c910384611ad1565b01549163ffffffff90604051938492608084528451928360808601525f955b8487106118bb575060a09550908260ff93925f888789010152828216818801521c16604085015260401c1615156060830152601f80199101168101030190f35b86810182015188880160a001529581019587955061187b565b5f8681528381209695945091905b8183106118ff5750939450919250908201018461185c600161184a565b865488840185015295860195879450918301916118e2565b60ff1916848701525050151560051b83010190508461185c600161184a565b346101075760209081600319360112610107576001600160a01b036004358181169391929084900361010757634f4bdc7b60e11b81525f600482015233602482015281816044817f000000000000000000000000000000000000000000000000000000000000000087165afa801561031d576119b8915f91611a4b5750611b63565b5f54918216611a0f5782156119d757506001600160a01b031916175f55005b6064906040519062461bcd60e51b82526004820152601160248201527024b73b30b634b21039b4b6bab630ba37b960791b6044820152fd5b6064906040519062461bcd60e51b82526004820152601560248201527414da5b5d5b185d1bdc88185b1c9958591e481cd95d605a1b6044820152fd5b611a629150833d85116112b2576112a48183611ad1565b85610c23565b606435906001600160a01b038216820361010757565b90600182811c92168015611aac575b6020831014611a9857565b634e487b7160e01b5f52602260045260245ffd5b91607f1691611a8d565b604081019081106001600160401b038211176104cc57604052565b90601f801991011681019081106001600160401b038211176104cc57604052565b9181601f84011215610107578235916001600160401b038311610107576020808501948460051b01011161010757565b6040906003190112610107576004359060243590565b6044359063ffffffff8216820361010757565b90816020910312610107575180151581036101075790565b15611b6a57565b60405162461bcd60e51b815260206004820152600c60248201526b2737ba1024291030b236b4b760a11b6044820152606490fd5b15611ba557565b60405162461bcd60e51b815260206004820152601060248201526f556e6b6e6f776e206a6f6220726f6c6560801b6044820152606490fd5b818110611be8575050565b5f8155600101611bdd565b15611bfa57565b60405162461bcd60e51b815260206004820152600d60248201526c2737ba1039b4b6bab630ba37b960991b6044820152606490fd5b8054821015611c48575f5260205f209060011b01905f90565b634e487b7160e01b5f52603260045260245ffd5b8054821015611c48575f5260205f2001905f90565b3563ffffffff811681036101075790565b9190811015611c485760051b0190565b9492939091935f955f955f5b818110611cad57505050505050565b82611cb9828489611c82565b3514611cc757600101611c9e565b9597505050909150611cd99350611c82565b359060019190565b9163ffffffff16918215611f23578115611f13575b5f60018060a01b035f805160206120198339815191529080825416604096875196637210768160e01b885260048801526024870152600160f81b60448701528560648160209687945af1948515611ea1575f95611ee4575b505f83828454166044895180948193639cd07acb60e01b835260016004840152600460248401525af1908115611eda579084915f91611eab575b506064611d93611f29565b975f858754168b519a8b958694637702dcff60e01b86526004860152602485015260448401525af1948515611ea1575f95611e72575b5084908415611e60575b83949515611e4d575b606491925416945f8751968794859363022f65e760e31b8552600485015260248401528160448401525af1928315611e4457505f92611e1a57505090565b90809250813d8311611e3d575b611e318183611ad1565b81010312610107575190565b503d611e27565b513d5f823e3d90fd5b60649150611e59611f29565b9150611ddc565b839450611e6b611f29565b9450611dd3565b9094508281813d8311611e9a575b611e8a8183611ad1565b810103126101075751935f611dc9565b503d611e80565b86513d5f823e3d90fd5b82819392503d8311611ed3575b611ec28183611ad1565b81010312610107578390515f611d88565b503d611eb8565b87513d5f823e3d90fd5b9094508281813d8311611f0c575b611efc8183611ad1565b810103126101075751935f611d4e565b503d611ef2565b9050611f1d611f29565b90611cf6565b91505090565b5f8051602061201983398151915254604051639cd07acb60e01b81525f600480830182905260248301529091602091839160449183916001600160a01b03165af190811561031d575f91611f7b575090565b90506020813d602011611f96575b81611e3160209383611ad1565b3d9150611f89565b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700546001600160a01b0392908316803b15610107575f92836044926040519687958694635ca4b5b160e11b865260048601521660248401525af1801561031d576120055750565b6001600160401b0381116104cc5760405256fe9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649701a164736f6c6343000818000a";
+
+type CareerLadderConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: CareerLadderConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class CareerLadder__factory extends ContractFactory {
+  constructor(...args: CareerLadderConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    rolesContract: AddressLike,
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(rolesContract, overrides || {});
+  }
+  override deploy(
+    rolesContract: AddressLike,
+    overrides?: NonPayableOverrides & { from?: string }
+  ) {
+    return super.deploy(rolesContract, overrides || {}) as Promise<
+      CareerLadder & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): CareerLadder__factory {
+    return super.connect(runner) as CareerLadder__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): CareerLadderInterface {
+    return new Interface(_abi) as CareerLadderInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): CareerLadder {
+    return new Contract(address, _abi, runner) as unknown as CareerLadder;
+  }
+}
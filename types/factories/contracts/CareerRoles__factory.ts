@@ -0,0 +1,297 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type { NonPayableOverrides } from "../../common";
+import type {
+  CareerRoles,
+  CareerRolesInterface,
+} from "../../contracts/CareerRoles";
+
+const _abi = [
+  {
+    inputs: [],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "employee",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "manager",
+        type: "address",
+      },
+    ],
+    name: "ManagerAssigned",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "enum CareerRoles.Role",
+        name: "role",
+        type: "uint8",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+    ],
+    name: "RoleGranted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "enum CareerRoles.Role",
+        name: "role",
+        type: "uint8",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+    ],
+    name: "RoleRevoked",
+    type: "event",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "employee",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "manager",
+        type: "address",
+      },
+    ],
+    name: "assignManager",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "manager",
+        type: "address",
+      },
+    ],
+    name: "getReports",
+    outputs: [
+      {
+        internalType: "address[]",
+        name: "",
+        type: "address[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "enum CareerRoles.Role",
+        name: "role",
+        type: "uint8",
+      },
+    ],
+    name: "getRoleMembers",
+    outputs: [
+      {
+        internalType: "address[]",
+        name: "",
+        type: "address[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "enum CareerRoles.Role",
+        name: "role",
+        type: "uint8",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "grantRole",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "enum CareerRoles.Role",
+        name: "role",
+        type: "uint8",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "hasRole",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "manager",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "employee",
+        type: "address",
+      },
+    ],
+    name: "isManagerOf",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "managerOf",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "enum CareerRoles.Role",
+        name: "role",
+        type: "uint8",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "revokeRole",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x608080604052346100f9575f8080526020525f80516020610b12833981519152805490680100000000000000008210156100e557600182018082558210156100d1575f90815260208082209290920180546001600160a01b031916339081179091555f80516020610b12833981519152548183527fa6eef7e35abe7026729641147f7915573c7e97b47efa546f5f6e3230263bcb49909352604082209290925581907f570d3756e5b890fbf84c01fc2daf898fa7e95ae3ca9f1ed5edf012eacb5c6ce68180a4610a1490816100fe8239f35b634e487b7160e01b5f52603260045260245ffd5b634e487b7160e01b5f52604160045260245ffd5b5f80fdfe608060409080825260049081361015610016575f80fd5b5f3560e01c9081633d3d7182146107a9575080634cbb87d3146105e25780635d5664e1146104a95780637f41826b146104705780639e8c1b95146103ea5780639e97b8f6146103b4578063ad6cb872146103015763f37f6a3414610078575f80fd5b346102fd57816003193601126102fd57610090610845565b9061009961085b565b925f8052602060018152815f20335f5281526100b9825f205415156108e4565b60025f5260018152815f209260018060a01b039586861694855f528352835f2054156102cc578616948515801590816102b0575b1561027f5785871461024a57855f526002845287855f2054168061018a575b506002949596975061015b575b5050525f20826bffffffffffffffffffffffff60a01b8254161790557fb7173769938fb24dec2f275faf5bcc877e81760753a568d59401037ddfdadae05f80a3005b61016e90875f5260038452855f206109c9565b855f5260038252835f205490855f528252835f20555f80610119565b5f5260038452845f2097865f52838552855f2054908954905f1991828101908111610237576101b9908c610960565b90549060031b1c169082018281116102245791816102028c936101e46102109660029c9d9e9f610960565b90919060018060a01b038084549260031b9316831b921b1916179055565b5f52858752885f2055610989565b865f528284525f868120558796959461010c565b601186634e487b7160e01b5f525260245ffd5b601187634e487b7160e01b5f525260245ffd5b845162461bcd60e51b8152808401859052600f60248201526e24b73b30b634b21036b0b730b3b2b960891b6044820152606490fd5b845162461bcd60e51b8152808401859052600b60248201526a2737ba1036b0b730b3b2b960a91b6044820152606490fd5b5060015f5260018452845f20875f528452845f205415156100ed565b50915162461bcd60e51b815291820152600c60248201526b4e6f7420656d706c6f79656560a01b6044820152606490fd5b5f80fd5b5090346102fd5760209060206003193601126102fd57823560038110156102fd5761032b9061094a565b81519283602083549182815201925f5260205f20915f905b8282106103945750505050829003601f01601f191682019267ffffffffffffffff841183851017610381575082918261037d925282610871565b0390f35b604190634e487b7160e01b5f525260245ffd5b83546001600160a01b031685529384019360019384019390910190610343565b82346102fd576020906103d06103c9366108b5565b919061091f565b9060018060a01b03165f528252805f205415159051908152f35b82346102fd57806003193601126102fd57602090610406610845565b9061040f61085b565b6001600160a01b0392831680151593909184610457575b505082610437575b50519015158152f35b90915060015f5260018352815f20905f528252805f20541515908361042e565b82945081165f5260028552825f20541614918480610426565b82346102fd5760203660031901126102fd576020906001600160a01b0380610496610845565b165f5260028352815f2054169051908152f35b50346102fd576104b8366108b5565b9190925f805260209060018252805f20335f5282526104db815f205415156108e4565b6001600160a01b0384169384156105ae576104f58661091f565b855f528352815f2054610575576105149061050f8761094a565b6109c9565b61051d8561094a565b54916105288661091f565b90855f52525f20556003831015610562575033917f570d3756e5b890fbf84c01fc2daf898fa7e95ae3ca9f1ed5edf012eacb5c6ce65f80a4005b602190634e487b7160e01b5f525260245ffd5b505162461bcd60e51b8152918201526014602482015273149bdb1948185b1c9958591e4819dc985b9d195960621b604482015260649150fd5b505162461bcd60e51b815291820152600f60248201526e125b9d985b1a59081858d8dbdd5b9d608a1b604482015260649150fd5b5090346102fd576105f2366108b5565b9190925f805260209060018252825f20335f528252610615835f205415156108e4565b61061e8561091f565b6001600160a01b039485165f81815291845290849020549094811561077357600387101561076057861580159061074d575b1561071a5761065e8761094a565b928354915f1992838101908111610707576106799086610960565b90549060031b1c16918301908382116106f4575091816106a485936101e46106bb965f9a9998610960565b6106ad8961091f565b908752845284862055610989565b6106c48561091f565b908484525281205533917f5a8379f4a3380f87fd5924475f76a3471ac8d775668601653e3f9ef69a3dd2715f80a4005b601190634e487b7160e01b5f525260245ffd5b601183634e487b7160e01b5f525260245ffd5b845162461bcd60e51b8152808401859052600d60248201526c2630b9ba1024291030b236b4b760991b6044820152606490fd5b5060016107598861094a565b5411610650565b602183634e487b7160e01b5f525260245ffd5b845162461bcd60e51b8152808401859052601060248201526f149bdb19481b9bdd0819dc985b9d195960821b6044820152606490fd5b905082346102fd576020806003193601126102fd576001600160a01b0390816107d0610845565b165f526003602052825f209182549081865260208601935f5260205f20925f915b83831061082c575050505050829003601f01601f191682019267ffffffffffffffff841183851017610381575082918261037d925282610871565b84548116865294810194600194850194909201916107f1565b600435906001600160a01b03821682036102fd57565b602435906001600160a01b03821682036102fd57565b60209060206040818301928281528551809452019301915f5b828110610898575050505090565b83516001600160a01b03168552938101939281019260010161088a565b60409060031901126102fd5760043560038110156102fd57906024356001600160a01b03811681036102fd5790565b156108eb57565b60405162461bcd60e51b815260206004820152600c60248201526b2737ba1024291030b236b4b760a11b6044820152606490fd5b6003811015610936575f52600160205260405f2090565b634e487b7160e01b5f52602160045260245ffd5b6003811015610936575f525f60205260405f2090565b8054821015610975575f5260205f2001905f90565b634e487b7160e01b5f52603260045260245ffd5b805480156109b5575f19019061099f8282610960565b81549060018060a01b039060031b1b1916905555565b634e487b7160e01b5f52603160045260245ffd5b90815491680100000000000000008310156109f357826101e49160016109f195018155610960565b565b634e487b7160e01b5f52604160045260245ffdfea164736f6c6343000818000aad3228b676f7d3cd4284a5443f17f1962b36e491b30a40b2405849e597ba5fb5";
+
+type CareerRolesConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: CareerRolesConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class CareerRoles__factory extends ContractFactory {
+  constructor(...args: CareerRolesConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(overrides || {});
+  }
+  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
+    return super.deploy(overrides || {}) as Promise<
+      CareerRoles & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): CareerRoles__factory {
+    return super.connect(runner) as CareerRoles__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): CareerRolesInterface {
+    return new Interface(_abi) as CareerRolesInterface;
+  }
+  static connect(address: string, runner?: ContractRunner | null): CareerRoles {
+    return new Contract(address, _abi, runner) as unknown as CareerRoles;
+  }
+}
@@ -46,9 +46,21 @@ declare module "hardhat/types/runtime" {
       signerOrOptions?: ethers.Signer | FactoryOptions
     ): Promise<Contracts.IInputVerifier__factory>;
     getContractFactory(
-      name: "UniversalAdapter",
+      name: "CareerAnalytics",
       signerOrOptions?: ethers.Signer | FactoryOptions
-    ): Promise<Contracts.UniversalAdapter__factory>;
+    ): Promise<Contracts.CareerAnalytics__factory>;
+    getContractFactory(
+      name: "CareerGrowthSim",
+      signerOrOptions?: ethers.Signer | FactoryOptions
+    ): Promise<Contracts.CareerGrowthSim__factory>;
+    getContractFactory(
+      name: "CareerLadder",
+      signerOrOptions?: ethers.Signer | FactoryOptions
+    ): Promise<Contracts.CareerLadder__factory>;
+    getContractFactory(
+      name: "CareerRoles",
+      signerOrOptions?: ethers.Signer | FactoryOptions
+    ): Promise<Contracts.CareerRoles__factory>;
 
     getContractAt(
       name: "EthereumConfig",
@@ -91,10 +103,25 @@ declare module "hardhat/types/runtime" {
       signer?: ethers.Signer
     ): Promise<Contracts.IInputVerifier>;
     getContractAt(
-      name: "UniversalAdapter",
+      name: "CareerAnalytics",
+      address: string | ethers.Addressable,
+      signer?: ethers.Signer
+    ): Promise<Contracts.CareerAnalytics>;
+    getContractAt(
+      name: "CareerGrowthSim",
+      address: string | ethers.Addressable,
+      signer?: ethers.Signer
+    ): Promise<Contracts.CareerGrowthSim>;
+    getContractAt(
+      name: "CareerLadder",
+      address: string | ethers.Addressable,
+      signer?: ethers.Signer
+    ): Promise<Contracts.CareerLadder>;
+    getContractAt(
+      name: "CareerRoles",
       address: string | ethers.Addressable,
       signer?: ethers.Signer
-    ): Promise<Contracts.UniversalAdapter>;
+    ): Promise<Contracts.CareerRoles>;
 
     deployContract(
       name: "EthereumConfig",
@@ -129,9 +156,21 @@ declare module "hardhat/types/runtime" {
       signerOrOptions?: ethers.Signer | DeployContractOptions
     ): Promise<Contracts.IInputVerifier>;
     deployContract(
-      name: "UniversalAdapter",
+      name: "CareerAnalytics",
       signerOrOptions?: ethers.Signer | DeployContractOptions
-    ): Promise<Contracts.UniversalAdapter>;
+    ): Promise<Contracts.CareerAnalytics>;
+    deployContract(
+      name: "CareerGrowthSim",
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.CareerGrowthSim>;
+    deployContract(
+      name: "CareerLadder",
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.CareerLadder>;
+    deployContract(
+      name: "CareerRoles",
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.CareerRoles>;
 
     deployContract(
       name: "EthereumConfig",
@@ -174,10 +213,25 @@ declare module "hardhat/types/runtime" {
       signerOrOptions?: ethers.Signer | DeployContractOptions
     ): Promise<Contracts.IInputVerifier>;
     deployContract(
-      name: "UniversalAdapter",
+      name: "CareerAnalytics",
+      args: any[],
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.CareerAnalytics>;
+    deployContract(
+      name: "CareerGrowthSim",
+      args: any[],
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.CareerGrowthSim>;
+    deployContract(
+      name: "CareerLadder",
+      args: any[],
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.CareerLadder>;
+    deployContract(
+      name: "CareerRoles",
       args: any[],
       signerOrOptions?: ethers.Signer | DeployContractOptions
-    ): Promise<Contracts.UniversalAdapter>;
+    ): Promise<Contracts.CareerRoles>;
 
     // default types
     getContractFactory(
@@ -22,5 +22,11 @@ export type { IFHEVMExecutor } from "./@fhevm/solidity/lib/Impl.sol/IFHEVMExecut
 export { IFHEVMExecutor__factory } from "./factories/@fhevm/solidity/lib/Impl.sol/IFHEVMExecutor__factory";
 export type { IInputVerifier } from "./@fhevm/solidity/lib/Impl.sol/IInputVerifier";
 export { IInputVerifier__factory } from "./factories/@fhevm/solidity/lib/Impl.sol/IInputVerifier__factory";
-export type { UniversalAdapter } from "./contracts/UniversalAdapter";
-export { UniversalAdapter__factory } from "./factories/contracts/UniversalAdapter__factory";
+export type { CareerAnalytics } from "./contracts/CareerAnalytics";
+export { CareerAnalytics__factory } from "./factories/contracts/CareerAnalytics__factory";
+export type { CareerGrowthSim } from "./contracts/CareerGrowthSim";
+export { CareerGrowthSim__factory } from "./factories/contracts/CareerGrowthSim__factory";
+export type { CareerLadder } from "./contracts/CareerLadder";
+export { CareerLadder__factory } from "./factories/contracts/CareerLadder__factory";
+export type { CareerRoles } from "./contracts/CareerRoles";
+export { CareerRoles__factory } from "./factories/contracts/CareerRoles__factory";